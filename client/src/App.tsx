@@ -5,6 +5,17 @@ import { FormProvider, useForm } from 'react-hook-form';
 import toast, { Toaster } from 'react-hot-toast';
 import { v4 } from 'uuid';
 
+import { INPUT_SAMPLE_RATE, TTS_SAMPLE_RATE } from '../../constants';
+import {
+  AUDIO_ENCODING,
+  CLIENT_MESSAGE_TYPE,
+  ClientMessage,
+  decodeServerFrame,
+  PROTOCOL_VERSION,
+  SERVER_PACKET_TYPE,
+  ServerPacket,
+  toSubprotocol,
+} from '../../protocol';
 import { Chat } from './app/chat/Chat';
 import { Layout } from './app/components/Layout';
 import { ConfigView } from './app/configuration/ConfigView';
@@ -20,7 +31,7 @@ import {
   Configuration,
   InteractionLatency,
 } from './app/types';
-import { config } from './config';
+import { authHeaders, config } from './config';
 import * as defaults from './defaults';
 
 interface CurrentContext {
@@ -33,6 +44,10 @@ interface CurrentContext {
 const player = new Player();
 let key = '';
 
+// Reconnect with exponential backoff when the socket drops unexpectedly
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+
 /**
  * Formats audio transcript text to ensure proper sentence structure:
  * - Starts with a capital letter
@@ -75,6 +90,12 @@ function App() {
   const [latencyData, setLatencyData] = useState<InteractionLatency[]>([]);
 
   const currentInteractionId = useRef<string | null>(null);
+  // Resume tracking: last sequenced packet seen and the server stream it belongs to
+  const lastSeqRef = useRef(0);
+  const streamIdRef = useRef<string | undefined>(undefined);
+  const reconnectAttemptsRef = useRef(0);
+  // Token for opening the session socket, renewed by the server while connected
+  const sessionTokenRef = useRef<string | undefined>(undefined);
   const stopRecordingRef = useRef<(() => void) | undefined>(undefined);
   const stateRef = useRef<CurrentContext>({} as CurrentContext);
   stateRef.current = {
@@ -95,12 +116,49 @@ function App() {
   }, []);
 
   const onMessage = useCallback((message: MessageEvent) => {
-    const packet = JSON.parse(message.data);
+    // Binary frames are AUDIO packets (protocol version 2)
+    const packet: ServerPacket | undefined =
+      typeof message.data === 'string'
+        ? JSON.parse(message.data)
+        : decodeServerFrame(message.data);
+    if (!packet) {
+      console.error('Unknown binary frame from server');
+      return;
+    }
+
+    if (packet?.type === SERVER_PACKET_TYPE.RESUMED) {
+      // A different stream means the server restarted: its sequence numbers start over
+      if (packet.streamId !== streamIdRef.current) {
+        streamIdRef.current = packet.streamId;
+        lastSeqRef.current = 0;
+      }
+      if (packet.gap) {
+        toast('Some messages were lost while reconnecting');
+      }
+      return;
+    }
+
+    if (packet?.type === SERVER_PACKET_TYPE.SESSION_TOKEN) {
+      sessionTokenRef.current = packet.token;
+      return;
+    }
+
+    if (typeof packet?.seq === 'number') {
+      // Skip packets already received before a reconnect
+      if (packet.seq <= lastSeqRef.current) {
+        return;
+      }
+      lastSeqRef.current = packet.seq;
+    }
 
     let chatItem: ChatHistoryItem | undefined = undefined;
 
-    if (packet?.type === 'AUDIO') {
-      player.addToQueue({ audio: packet.audio });
+    if (packet?.type === SERVER_PACKET_TYPE.AUDIO) {
+      player.addToQueue({
+        audio: packet.audio,
+        format: packet.format,
+        packetId: packet.packetId,
+      });
 
       // Track first audio chunk for latency calculation (client-side)
       const interactionId = packet.packetId?.interactionId;
@@ -145,7 +203,7 @@ function App() {
           return prev;
         });
       }
-    } else if (packet?.type === 'NEW_INTERACTION') {
+    } else if (packet?.type === SERVER_PACKET_TYPE.NEW_INTERACTION) {
       currentInteractionId.current = packet.packetId?.interactionId;
       const interactionId = packet.packetId?.interactionId;
 
@@ -170,10 +228,10 @@ function App() {
           return prev;
         });
       }
-    } else if (packet?.type === 'CANCEL_RESPONSE') {
+    } else if (packet?.type === SERVER_PACKET_TYPE.CANCEL_RESPONSE) {
       console.log('Cancel response: stopping audio playback');
       player.stop();
-    } else if (packet?.type === 'USER_SPEECH_COMPLETE') {
+    } else if (packet?.type === SERVER_PACKET_TYPE.USER_SPEECH_COMPLETE) {
       // User's speech has been detected and processed (VAD detected end of speech)
       // Record timestamp on client side for latency measurement
       const interactionId = packet.packetId?.interactionId;
@@ -209,11 +267,12 @@ function App() {
           );
         }
       });
-    } else if (packet?.type === 'TEXT') {
+    } else if (packet?.type === SERVER_PACKET_TYPE.TEXT) {
       const { agent, userName } = stateRef.current || {};
       const textContent = packet.text.text || '';
       const trimmedText = textContent.trim();
-      const isAgent = packet.routing?.source?.isAgent;
+      const source = packet.routing?.source;
+      const isAgent = source?.isAgent;
 
       console.log(
         '📝 TEXT PACKET - From:',
@@ -245,7 +304,11 @@ function App() {
           id: packet.packetId?.utteranceId,
           type: CHAT_HISTORY_TYPE.ACTOR,
           date: new Date(packet.date!),
-          source: packet.routing?.source,
+          source: {
+            name: source?.name ?? '',
+            isAgent: !!isAgent,
+            isUser: !!source?.isUser,
+          },
           text: displayText, // Formatted text for user messages, original for agent messages
           interactionId: packet.packetId?.interactionId,
           isRecognizing: !packet.text.final,
@@ -272,15 +335,48 @@ function App() {
           '❌ Filtered out empty USER text message - not adding to chat',
         );
       }
-    } else if (packet?.type === 'INTERACTION_END') {
+    } else if (packet?.type === SERVER_PACKET_TYPE.INTERACTION_END) {
       chatItem = {
         id: v4(),
         type: CHAT_HISTORY_TYPE.INTERACTION_END,
         date: new Date(packet.date!),
-        source: packet.routing?.source,
         interactionId: packet.packetId?.interactionId,
       };
-    } else if (packet?.type === 'ERROR') {
+    } else if (packet?.type === SERVER_PACKET_TYPE.CITATIONS) {
+      chatItem = {
+        id: v4(),
+        type: CHAT_HISTORY_TYPE.CITATIONS,
+        date: new Date(packet.date!),
+        interactionId: packet.packetId?.interactionId,
+        citations: packet.citations,
+      };
+    } else if (packet?.type === SERVER_PACKET_TYPE.TOOL_CALL) {
+      chatItem = {
+        id: packet.toolCall.id,
+        type: CHAT_HISTORY_TYPE.TOOL,
+        date: new Date(packet.date!),
+        interactionId: packet.packetId?.interactionId,
+        name: packet.toolCall.name,
+        args: packet.toolCall.args,
+      };
+    } else if (packet?.type === SERVER_PACKET_TYPE.TOOL_RESULT) {
+      const { id, result, error, durationMs } = packet.toolResult;
+      setChatHistory((currentState) =>
+        currentState.map((item) =>
+          item.type === CHAT_HISTORY_TYPE.TOOL && item.id === id
+            ? { ...item, result, error, durationMs }
+            : item,
+        ),
+      );
+    } else if (packet?.type === SERVER_PACKET_TYPE.AGENT_CHANGED) {
+      // The answers that follow are the new agent's
+      setAgent((current) => ({
+        ...current,
+        id: packet.agent.id,
+        name: packet.agent.name,
+      }));
+      toast(`${packet.previousAgent.name} transferred you to ${packet.agent.name}`);
+    } else if (packet?.type === SERVER_PACKET_TYPE.ERROR) {
       // Stop recording if active when any error occurs
       if (stopRecordingRef.current) {
         console.log('🛑 Stopping recording due to error');
@@ -288,6 +384,13 @@ function App() {
       }
 
       toast.error(packet?.error ?? 'Something went wrong');
+    } else if (packet?.type === SERVER_PACKET_TYPE.CONFIG_UPDATE_ACK) {
+      if (!packet.accepted) {
+        const reasons = (packet.errors ?? [])
+          .map((e: { field: string; message: string }) => `${e.field} ${e.message}`)
+          .join(', ');
+        toast.error(`Settings not applied: ${reasons}`);
+      }
     }
 
     if (chatItem) {
@@ -333,7 +436,7 @@ function App() {
             });
           }
         } else {
-          // For non-ACTOR messages (like INTERACTION_END), find by id
+          // For non-ACTOR messages (like INTERACTION_END or TOOL), find by id
           currentHistoryIndex = currentState.findIndex((item) => {
             return item.id === chatItem?.id;
           });
@@ -352,22 +455,139 @@ function App() {
     }
   }, []);
 
+  const connectWebSocket = useCallback(() => {
+    const connect = () => {
+      const token = sessionTokenRef.current;
+      const ws = new WebSocket(
+        `${config.SESSION_URL}?sessionId=${key}` +
+          (token ? `&token=${encodeURIComponent(token)}` : ''),
+        toSubprotocol(PROTOCOL_VERSION),
+      );
+      ws.binaryType = 'arraybuffer';
+
+      ws.addEventListener('open', () => {
+        reconnectAttemptsRef.current = 0;
+        // Ask for everything sent after the last packet we saw
+        ws.send(
+          JSON.stringify({
+            type: CLIENT_MESSAGE_TYPE.RESUME,
+            lastSeq: lastSeqRef.current,
+            streamId: streamIdRef.current,
+          } satisfies ClientMessage),
+        );
+      });
+
+      // Add error handler for WebSocket connection failures
+      ws.addEventListener('error', (error) => {
+        console.error('WebSocket error:', error);
+        if (!streamIdRef.current) {
+          toast.error('Failed to establish WebSocket connection');
+          setChatting(false);
+        }
+      });
+
+      // Add close handler to detect unexpected disconnections
+      ws.addEventListener('close', (event) => {
+        if (event.code === 1008) {
+          console.error('WebSocket closed: Session not found');
+          toast.error('Session not found. Please try again.');
+          setChatting(false);
+        } else if (event.code === 4000) {
+          console.log('WebSocket replaced by a newer connection');
+        } else if (!event.wasClean) {
+          console.error(
+            'WebSocket closed unexpectedly:',
+            event.code,
+            event.reason,
+          );
+
+          if (
+            !stateRef.current.chatting ||
+            !key ||
+            !streamIdRef.current ||
+            reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS
+          ) {
+            return;
+          }
+
+          const delay =
+            RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current;
+          reconnectAttemptsRef.current++;
+          console.log(`Reconnecting in ${delay}ms`);
+          setTimeout(() => {
+            if (stateRef.current.chatting && key) {
+              connect();
+            }
+          }, delay);
+        }
+      });
+
+      setConnection(ws);
+
+      // The server stores an interrupted answer as far as it was heard
+      player.setProgressListener((progress) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(
+            JSON.stringify({
+              type: CLIENT_MESSAGE_TYPE.PLAYBACK_PROGRESS,
+              ...progress,
+            } satisfies ClientMessage),
+          );
+        }
+      });
+
+      ws.addEventListener('open', onOpen);
+      ws.addEventListener('message', onMessage);
+      ws.addEventListener('disconnect', onDisconnect);
+    };
+
+    connect();
+  }, [onDisconnect, onMessage, onOpen]);
+
   const openConnection = useCallback(async () => {
     key = v4();
+    lastSeqRef.current = 0;
+    streamIdRef.current = undefined;
+    reconnectAttemptsRef.current = 0;
+    sessionTokenRef.current = undefined;
     // Get configuration including voiceId from selected template
-    const { agent, user, voiceId } = formMethods.getValues();
+    const { agentId, agent, user, voiceId } = formMethods.getValues();
 
     setChatting(true);
     setUserName(user?.name!);
 
     const response = await fetch(`${config.LOAD_URL}?sessionId=${key}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
       body: JSON.stringify({
         userName: user?.name,
-        agent,
+        // A stored agent profile, or the agent as configured in the form
+        ...(agentId
+          ? { agentId }
+          : {
+              agent: {
+                ...agent,
+                // One knowledge snippet per paragraph
+                knowledge: agent?.knowledge
+                  ?.split(/\n\s*\n/)
+                  .map((snippet) => snippet.trim())
+                  .filter(Boolean),
+              },
+            }),
         voiceId,
-        sttService: 'assemblyai', // Always use Assembly.AI (only supported STT service)
+        // The system prompt's {date} and {time} are in the user's time zone
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        // sttService is left to the server's default (DEFAULT_STT_SERVICE)
+        // What the microphone worklet captures (see Chat)
+        inputAudioFormat: {
+          encoding: AUDIO_ENCODING.PCM_F32LE,
+          sampleRate: INPUT_SAMPLE_RATE,
+        },
+        // What the Player can schedule without decoding
+        outputAudioFormat: {
+          encoding: AUDIO_ENCODING.PCM_F32LE,
+          sampleRate: TTS_SAMPLE_RATE,
+        },
       }),
     });
     const data = await response.json();
@@ -379,6 +599,8 @@ function App() {
       if (data.error && data.requestedService) {
         const envVarMap: { [key: string]: string } = {
           assemblyai: 'ASSEMBLY_AI_API_KEY',
+          openai: 'OPENAI_STT_BASE_URL',
+          mock: 'MOCK_PROVIDERS',
         };
 
         const envVar = envVarMap[data.requestedService];
@@ -388,9 +610,8 @@ function App() {
         let errorMessage = data.error;
         if (envVar) {
           errorMessage += `\n\nPlease set the ${envVar} environment variable on the server.`;
-        }
-        if (data.error.includes('Only Assembly.AI STT is supported')) {
-          errorMessage += `\n\nThe requested STT service "${data.requestedService}" is not supported. Only Assembly.AI is available.`;
+        } else {
+          errorMessage += `\n\nThe requested STT service "${data.requestedService}" is not supported.`;
         }
         errorMessage += `\n\nAvailable STT services: ${availableList}`;
 
@@ -418,44 +639,34 @@ function App() {
       return;
     }
 
+    sessionTokenRef.current = data.sessionToken;
+
     if (data.agent) {
       setAgent(data.agent as Agent);
     }
 
+    // The agent profile's first message
+    if (data.greeting) {
+      setChatHistory((currentState) => [
+        ...currentState,
+        {
+          id: v4(),
+          type: CHAT_HISTORY_TYPE.ACTOR,
+          date: new Date(),
+          source: { name: data.agent?.id ?? '', isAgent: true, isUser: false },
+          text: data.greeting,
+          interactionId: 'greeting',
+          author: data.agent?.name,
+        },
+      ]);
+    }
+
     // Add a small delay to ensure server has fully processed the session
     // This prevents race conditions where WebSocket connects before session is ready
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const ws = new WebSocket(`${config.SESSION_URL}?sessionId=${key}`);
-
-    // Add error handler for WebSocket connection failures
-    ws.addEventListener('error', (error) => {
-      console.error('WebSocket error:', error);
-      toast.error('Failed to establish WebSocket connection');
-      setChatting(false);
-    });
-
-    // Add close handler to detect unexpected disconnections
-    ws.addEventListener('close', (event) => {
-      if (event.code === 1008) {
-        console.error('WebSocket closed: Session not found');
-        toast.error('Session not found. Please try again.');
-        setChatting(false);
-      } else if (!event.wasClean) {
-        console.error(
-          'WebSocket closed unexpectedly:',
-          event.code,
-          event.reason,
-        );
-      }
-    });
-
-    setConnection(ws);
-
-    ws.addEventListener('open', onOpen);
-    ws.addEventListener('message', onMessage);
-    ws.addEventListener('disconnect', onDisconnect);
-  }, [formMethods, onDisconnect, onMessage, onOpen]);
+    connectWebSocket();
+  }, [connectWebSocket, formMethods]);
 
   const stopChatting = useCallback(async () => {
     // Disable flags
@@ -483,7 +694,13 @@ function App() {
 
     await fetch(`${config.UNLOAD_URL}?sessionId=${key}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(),
+        ...(sessionTokenRef.current
+          ? { 'X-Session-Token': sessionTokenRef.current }
+          : {}),
+      },
     });
     key = '';
   }, [connection, onDisconnect, onMessage, onOpen]);
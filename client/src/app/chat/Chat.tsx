@@ -13,6 +13,12 @@ import {
 import { useCallback, useEffect, useState } from 'react';
 
 import { INPUT_SAMPLE_RATE } from '../../../../constants';
+import {
+  AUDIO_ENCODING,
+  CLIENT_MESSAGE_TYPE,
+  ClientMessage,
+  encodeAudioFrame,
+} from '../../../../protocol';
 import { config } from '../../config';
 import { ChatHistoryItem, InteractionLatency } from '../types';
 import { RecordIcon } from './Chat.styled';
@@ -54,7 +60,11 @@ export function Chat(props: ChatProps) {
     stream?.getTracks().forEach((track) => track.stop());
     audioWorkletNode?.disconnect();
     if (connection) {
-      connection.send(JSON.stringify({ type: 'audioSessionEnd' }));
+      connection.send(
+        JSON.stringify({
+          type: CLIENT_MESSAGE_TYPE.AUDIO_SESSION_END,
+        } satisfies ClientMessage),
+      );
     }
   }, [connection]);
 
@@ -115,9 +125,9 @@ export function Chat(props: ChatProps) {
       interval = setInterval(() => {
         if (leftChannel.length > 0 && connection) {
           connection.send(
-            JSON.stringify({
-              type: 'audio',
-              audio: leftChannel,
+            encodeAudioFrame(concatSamples(leftChannel), {
+              encoding: AUDIO_ENCODING.PCM_F32LE,
+              sampleRate: audioCtx.sampleRate,
             }),
           );
           // Clear buffer
@@ -146,7 +156,12 @@ export function Chat(props: ChatProps) {
 
     if (trimmedText && trimmedText.length > 0) {
       console.log('✅ Sending text message:', JSON.stringify(trimmedText));
-      connection.send(JSON.stringify({ type: 'text', text: trimmedText }));
+      connection.send(
+        JSON.stringify({
+          type: CLIENT_MESSAGE_TYPE.TEXT,
+          text: trimmedText,
+        } satisfies ClientMessage),
+      );
       setText('');
       // Keep text widget open after sending
     } else {
@@ -628,3 +643,15 @@ export function Chat(props: ChatProps) {
     </>
   );
 }
+
+function concatSamples(chunks: Float32Array[]): Float32Array {
+  const samples = new Float32Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+}
@@ -6,7 +6,9 @@ import {
   Actor,
   CHAT_HISTORY_TYPE,
   ChatHistoryItem,
+  Citation,
   HistoryItemActor,
+  HistoryItemTool,
   InteractionLatency,
 } from '../types';
 import { Typing } from './Typing';
@@ -21,6 +23,8 @@ type CombinedHistoryItem = {
   messages: HistoryItemActor[];
   source: Actor;
   type: CHAT_HISTORY_TYPE;
+  tools?: HistoryItemTool[]; // Called by the agent before it answered
+  citations?: Citation[]; // Knowledge the agent was given for its answer
 };
 
 export const History = (props: HistoryProps) => {
@@ -70,6 +74,9 @@ export const History = (props: HistoryProps) => {
   useEffect(() => {
     let currentRecord: CombinedHistoryItem | undefined;
     const mergedRecords: CombinedHistoryItem[] = [];
+    const toolsByInteraction: { [interactionId: string]: HistoryItemTool[] } =
+      {};
+    const citationsByInteraction: { [interactionId: string]: Citation[] } = {};
     const hasActors = history.find(
       (record: ChatHistoryItem) => record.type === CHAT_HISTORY_TYPE.ACTOR,
     );
@@ -119,6 +126,16 @@ export const History = (props: HistoryProps) => {
             mergedRecords.push(currentRecord);
           }
           break;
+        case CHAT_HISTORY_TYPE.TOOL:
+          if (item.interactionId) {
+            (toolsByInteraction[item.interactionId] ??= []).push(item);
+          }
+          break;
+        case CHAT_HISTORY_TYPE.CITATIONS:
+          if (item.interactionId) {
+            citationsByInteraction[item.interactionId] = item.citations;
+          }
+          break;
       }
     }
 
@@ -181,6 +198,15 @@ export const History = (props: HistoryProps) => {
       }
     }
 
+    // Tool calls and citations are shown with the agent's answer to the
+    // interaction
+    for (const record of mergedRecords) {
+      if (record.source.isAgent) {
+        record.tools = toolsByInteraction[record.interactionId];
+        record.citations = citationsByInteraction[record.interactionId];
+      }
+    }
+
     setCombinedChatHistory(mergedRecords);
   }, [history, isInteractionEnd]);
 
@@ -199,6 +225,20 @@ export const History = (props: HistoryProps) => {
     }
   };
 
+  const formatToolCall = (tool: HistoryItemTool) => {
+    const args =
+      typeof tool.args === 'string' ? tool.args : JSON.stringify(tool.args);
+    const call = `${tool.name}(${args === '{}' ? '' : args})`;
+
+    if (tool.error !== undefined) {
+      return `${call} failed: ${tool.error}`;
+    }
+    if (tool.durationMs === undefined) {
+      return `${call}…`;
+    }
+    return `${call} → ${JSON.stringify(tool.result)} (${tool.durationMs}ms)`;
+  };
+
   const getLatencyColor = (latencyMs: number): string => {
     if (latencyMs < 500) return '#10B981'; // Green - excellent
     if (latencyMs < 1000) return '#F59E0B'; // Amber - good
@@ -330,6 +370,31 @@ export const History = (props: HistoryProps) => {
                   })()}
               </Box>
 
+              {/* Tools called for the answer */}
+              {item.tools?.map((tool) => (
+                <Typography
+                  key={tool.id}
+                  variant="caption"
+                  title={formatToolCall(tool)}
+                  sx={{
+                    maxWidth: '75%',
+                    mb: 1,
+                    px: 1.5,
+                    py: 0.5,
+                    borderRadius: '8px',
+                    backgroundColor: tool.error !== undefined ? '#FEF2F2' : '#F5F3F0',
+                    color: tool.error !== undefined ? '#B91C1C' : '#5A524C',
+                    fontSize: '12px',
+                    fontFamily: 'monospace',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  🔧 {formatToolCall(tool)}
+                </Typography>
+              ))}
+
               {/* Message bubble */}
               <Box
                 sx={{
@@ -366,6 +431,30 @@ export const History = (props: HistoryProps) => {
                   </Typography>
                 )}
               </Box>
+
+              {/* Knowledge passages the answer was based on */}
+              {item.citations?.length ? (
+                <Box sx={{ maxWidth: '75%', mt: 1 }}>
+                  {item.citations.map((citation, index) => (
+                    <Typography
+                      key={citation.id}
+                      variant="caption"
+                      component="div"
+                      title={citation.text}
+                      sx={{
+                        color: '#817973',
+                        fontSize: '11px',
+                        fontFamily: 'Inter, Arial, sans-serif',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      [{index + 1}] {citation.source}: {citation.text}
+                    </Typography>
+                  ))}
+                </Box>
+              ) : null}
             </Box>
           );
         })}
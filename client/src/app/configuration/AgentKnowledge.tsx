@@ -13,6 +13,7 @@ export const AgentKnowledge = () => {
 
   const onChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
+      setValue('agentId', undefined); // Edited, so sent inline
       setValue(FIELD_NAME, event.target.value);
       saveConfiguration(getValues());
     },
@@ -30,11 +31,11 @@ export const AgentKnowledge = () => {
         fullWidth
         multiline
         minRows={2}
-        maxRows={4}
+        maxRows={8}
         id="agent-knowledge"
         size="small"
         label="Agent Knowledge"
-        placeholder="Enter knowledge"
+        placeholder="Facts the agent can look up, one per paragraph"
         InputLabelProps={{ shrink: true }}
         {...{ error: !!errorMessage, helperText: errorMessage }}
         {...register(FIELD_NAME, { onChange })}
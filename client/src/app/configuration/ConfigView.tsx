@@ -10,6 +10,7 @@ import {
   Psychology,
   Refresh,
   Stop,
+  Storage,
 } from '@mui/icons-material';
 import {
   Box,
@@ -36,10 +37,11 @@ import {
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useFormContext } from 'react-hook-form';
 
-import { config } from '../../config';
+import { authHeaders, config } from '../../config';
 import { save as saveConfiguration } from '../helpers/configuration';
 import { AVAILABLE_VOICES } from '../constants/voices';
-import { ConfigurationSession } from '../types';
+import { AgentProfile, ConfigurationSession } from '../types';
+import { AgentKnowledge } from './AgentKnowledge';
 import { VoiceCloneDialog } from './VoiceCloneDialog';
 
 interface ConfigViewProps {
@@ -110,6 +112,34 @@ Tone Consistency: Coach Alex's responses should closely follow the style and ton
   },
 ];
 
+// Style of the template and agent profile chips
+const TEMPLATE_CHIP_SX = {
+  fontSize: '12px',
+  fontWeight: 600,
+  fontFamily: 'Inter, Arial, sans-serif',
+  backgroundColor: '#FFFFFF',
+  border: '1.5px solid #AEA69F',
+  borderRadius: '20px',
+  color: '#3F3B37',
+  height: '30px',
+  px: 1.25,
+  cursor: 'pointer',
+  '&:hover': {
+    backgroundColor: '#f4f0eb',
+    borderColor: '#817973',
+    color: '#222222',
+  },
+  '& .MuiChip-icon': {
+    color: '#5C5652',
+    fontSize: '14px',
+    ml: 0.5,
+    mr: -0.25,
+  },
+  '& .MuiChip-label': {
+    px: 0.75,
+    fontWeight: 600,
+  },
+};
 
 export const ConfigView = (props: ConfigViewProps) => {
   const { setValue, watch, getValues } = useFormContext<ConfigurationSession>();
@@ -146,6 +176,9 @@ export const ConfigView = (props: ConfigViewProps) => {
 
   // Voice Clone state (for standalone dialog)
   const [voiceCloneDialogOpen, setVoiceCloneDialogOpen] = useState(false);
+
+  // Agent profiles managed on the server with the /agents API
+  const [profiles, setProfiles] = useState<AgentProfile[]>([]);
   
   // Use saved voice name from localStorage, or local state for newly cloned voices
   const clonedVoiceName = savedVoiceName || null;
@@ -162,6 +195,14 @@ export const ConfigView = (props: ConfigViewProps) => {
     };
   }, [audioUrl]);
 
+  // Load the agent profiles once; without them only the templates are shown
+  useEffect(() => {
+    fetch(config.AGENTS_URL, { headers: authHeaders() })
+      .then((response) => (response.ok ? response.json() : { agents: [] }))
+      .then((data) => setProfiles(data.agents ?? []))
+      .catch((err) => console.warn('Failed to load agent profiles:', err));
+  }, []);
+
   // Reset voice selection when dialog closes
   useEffect(() => {
     if (!aiDialogOpen) {
@@ -317,7 +358,7 @@ export const ConfigView = (props: ConfigViewProps) => {
 
       const response = await fetch(config.CLONE_VOICE_URL, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({
           audioData: base64Audio,
           displayName,
@@ -343,6 +384,7 @@ export const ConfigView = (props: ConfigViewProps) => {
 
   const handleTemplateSelect = useCallback(
     (template: (typeof AGENT_TEMPLATES)[0]) => {
+      setValue('agentId', undefined);
       setValue('agent.systemPrompt', template.systemPrompt);
       setValue('voiceId', template.voiceId);
       setValue('voiceName', undefined); // Clear custom voice name when selecting template
@@ -352,8 +394,23 @@ export const ConfigView = (props: ConfigViewProps) => {
     [setValue, getValues],
   );
 
+  // The session is loaded from the profile, the form only shows it
+  const handleProfileSelect = useCallback(
+    ({ id, profile }: AgentProfile) => {
+      setValue('agentId', id);
+      setValue('agent.systemPrompt', profile.systemPrompt ?? '');
+      setValue('agent.knowledge', profile.knowledge?.join('\n\n') ?? '');
+      setValue('voiceId', profile.voiceId);
+      setValue('voiceName', undefined);
+      setValue('user.name', 'User');
+      saveConfiguration(getValues());
+    },
+    [setValue, getValues],
+  );
+
   const handleSystemPromptChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
+      setValue('agentId', undefined); // Edited, so sent inline
       setValue('agent.systemPrompt', e.target.value);
       saveConfiguration(getValues());
     },
@@ -390,7 +447,7 @@ export const ConfigView = (props: ConfigViewProps) => {
         voiceOption === 'custom' && !customVoiceId && base64Audio
           ? fetch(config.CLONE_VOICE_URL, {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
+              headers: { 'Content-Type': 'application/json', ...authHeaders() },
               body: JSON.stringify({
                 audioData: base64Audio,
                 displayName: `Custom Voice ${new Date().toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`,
@@ -409,7 +466,7 @@ export const ConfigView = (props: ConfigViewProps) => {
         // Persona generation fetch
         fetch(config.GENERATE_CHARACTER_URL, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
           body: JSON.stringify({ description: characterDescription }),
         }),
       ]);
@@ -533,33 +590,17 @@ export const ConfigView = (props: ConfigViewProps) => {
               label={template.label}
               icon={template.icon}
               onClick={() => handleTemplateSelect(template)}
-              sx={{
-                fontSize: '12px',
-                fontWeight: 600,
-                fontFamily: 'Inter, Arial, sans-serif',
-                backgroundColor: '#FFFFFF',
-                border: '1.5px solid #AEA69F',
-                borderRadius: '20px',
-                color: '#3F3B37',
-                height: '30px',
-                px: 1.25,
-                cursor: 'pointer',
-                '&:hover': {
-                  backgroundColor: '#f4f0eb',
-                  borderColor: '#817973',
-                  color: '#222222',
-                },
-                '& .MuiChip-icon': {
-                  color: '#5C5652',
-                  fontSize: '14px',
-                  ml: 0.5,
-                  mr: -0.25,
-                },
-                '& .MuiChip-label': {
-                  px: 0.75,
-                  fontWeight: 600,
-                },
-              }}
+              sx={TEMPLATE_CHIP_SX}
+            />
+          ))}
+          {/* Agent profiles stored on the server, loaded by id */}
+          {profiles.map((profile) => (
+            <Chip
+              key={profile.id}
+              label={profile.profile.name}
+              icon={<Storage sx={{ fontSize: 14 }} />}
+              onClick={() => handleProfileSelect(profile)}
+              sx={TEMPLATE_CHIP_SX}
             />
           ))}
           {/* Generate Persona chip */}
@@ -678,6 +719,11 @@ export const ConfigView = (props: ConfigViewProps) => {
           </Paper>
         </Box>
 
+        {/* Knowledge the agent answers from */}
+        <Box sx={{ mb: 4, mx: -2 }}>
+          <AgentKnowledge />
+        </Box>
+
         {/* AI Character Generator Dialog */}
         <Dialog
           open={aiDialogOpen}
@@ -20,7 +20,7 @@ import {
 } from '@mui/material';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
-import { config } from '../../config';
+import { authHeaders, config } from '../../config';
 
 interface VoiceCloneDialogProps {
   open: boolean;
@@ -267,6 +267,7 @@ export const VoiceCloneDialog = ({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders(),
         },
         body: JSON.stringify({
           audioData: base64Audio,
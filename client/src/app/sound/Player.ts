@@ -1,11 +1,21 @@
-import { TTS_SAMPLE_RATE } from '../../../../constants';
+import {
+  AUDIO_ENCODING,
+  AudioPacket,
+  OutputAudioFormat,
+  PlaybackProgressMessage,
+} from '../../../../protocol';
 
-interface Audio {
-  chunk: string;
+interface QueueItem {
+  audio: AudioPacket['audio'];
+  format: OutputAudioFormat;
+  packetId?: AudioPacket['packetId'];
 }
 
-interface QueueItem {
-  audio: Audio;
+export type PlaybackProgress = Omit<PlaybackProgressMessage, 'type'>;
+
+interface ScheduledSource {
+  source: AudioBufferSourceNode;
+  packetId?: AudioPacket['packetId'];
 }
 
 export class Player {
@@ -14,8 +24,15 @@ export class Player {
   private audioContext!: AudioContext;
   private gainNode!: GainNode;
   private nextStartTime = 0;
-  private currentSources: AudioBufferSourceNode[] = [];
+  private currentSources: ScheduledSource[] = [];
   private fadeTime = 0.005; // 5ms crossfade to eliminate clicks
+  // Told when an utterance was played to the end, and when playback of an
+  // answer stops before its end
+  private onProgress?: (progress: PlaybackProgress) => void;
+
+  setProgressListener(listener?: (progress: PlaybackProgress) => void) {
+    this.onProgress = listener;
+  }
 
   async preparePlayer(): Promise<void> {
     // Initialize Web Audio API context
@@ -39,8 +56,17 @@ export class Player {
   }
 
   stop() {
+    // The answers whose audio won't be played to the end
+    const interruptedIds = new Set(
+      [...this.currentSources, ...this.audioPacketQueue]
+        .map((item) => item.packetId?.interactionId)
+        .filter((interactionId): interactionId is string => !!interactionId),
+    );
+
     // Stop all currently playing sources
-    this.currentSources.forEach((source) => {
+    this.currentSources.forEach(({ source }) => {
+      // Stopped sources end too, they don't count as played
+      source.onended = null;
       try {
         source.stop();
       } catch (e) {
@@ -53,6 +79,10 @@ export class Player {
     this.audioPacketQueue = [];
     this.isPlaying = false;
     this.nextStartTime = 0;
+
+    interruptedIds.forEach((interactionId) =>
+      this.onProgress?.({ interactionId, interrupted: true }),
+    );
   }
 
   addToQueue(packet: QueueItem): void {
@@ -81,7 +111,7 @@ export class Player {
       if (!currentPacket) continue;
 
       try {
-        await this.playAudioChunk(currentPacket.audio.chunk);
+        await this.playAudioChunk(currentPacket);
       } catch (error) {
         console.error('Error playing audio chunk:', error);
       }
@@ -90,16 +120,16 @@ export class Player {
     this.isPlaying = false;
   };
 
-  private async playAudioChunk(base64Chunk: string): Promise<void> {
+  private async playAudioChunk({
+    audio,
+    format,
+    packetId,
+  }: QueueItem): Promise<void> {
     try {
-      const binaryString = atob(base64Chunk);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
+      // Binary frames carry the bytes, JSON frames a base64 string
+      const bytes = 'data' in audio ? audio.data : decodeBase64(audio.chunk);
 
-      // Convert bytes to Float32Array (PCM Float32 samples)
-      const float32Samples = new Float32Array(bytes.buffer);
+      const float32Samples = toFloat32Samples(bytes, format);
       const numChannels = 1;
       const numSamples = float32Samples.length;
 
@@ -107,7 +137,7 @@ export class Player {
       const audioBuffer = this.audioContext.createBuffer(
         numChannels,
         numSamples,
-        TTS_SAMPLE_RATE,
+        format.sampleRate,
       );
 
       const channelData = audioBuffer.getChannelData(0);
@@ -142,14 +172,27 @@ export class Player {
       source.stop(endTime);
 
       // Track source for cleanup
-      this.currentSources.push(source);
+      const scheduled: ScheduledSource = { source, packetId };
+      this.currentSources.push(scheduled);
 
-      // Clean up when finished
+      // Clean up when finished, and report the utterance once all of its
+      // audio was played
       source.onended = () => {
-        const index = this.currentSources.indexOf(source);
+        const index = this.currentSources.indexOf(scheduled);
         if (index > -1) {
           this.currentSources.splice(index, 1);
         }
+        if (
+          packetId &&
+          !this.currentSources.some(
+            (item) => item.packetId?.utteranceId === packetId.utteranceId,
+          )
+        ) {
+          this.onProgress?.({
+            interactionId: packetId.interactionId,
+            utteranceId: packetId.utteranceId,
+          });
+        }
       };
 
       // Update next start time for seamless chaining
@@ -159,3 +202,43 @@ export class Player {
     }
   }
 }
+
+// Only raw PCM is played, the session requests it when loading
+function toFloat32Samples(
+  bytes: Uint8Array,
+  format: OutputAudioFormat,
+): Float32Array {
+  if (format.container) {
+    throw new Error(`Unsupported audio container: ${format.container}`);
+  }
+
+  switch (format.encoding) {
+    case AUDIO_ENCODING.PCM_F32LE:
+      return new Float32Array(
+        bytes.buffer,
+        bytes.byteOffset,
+        bytes.byteLength / Float32Array.BYTES_PER_ELEMENT,
+      );
+
+    case AUDIO_ENCODING.PCM_S16LE: {
+      const pcm = new Int16Array(
+        bytes.buffer,
+        bytes.byteOffset,
+        bytes.byteLength / Int16Array.BYTES_PER_ELEMENT,
+      );
+      return Float32Array.from(pcm, (sample) => sample / 0x8000);
+    }
+
+    default:
+      throw new Error(`Unsupported audio encoding: ${format.encoding}`);
+  }
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -1,9 +1,14 @@
-export type STTService = 'assemblyai';
+import type { Citation } from '../../../protocol';
+
+export type STTService = 'assemblyai' | 'openai' | 'mock';
 
 // Re-export Voice type from shared constants
 export type { Voice } from '../../../../constants';
+// Re-export Citation type from the shared protocol
+export type { Citation };
 
 export type ConfigurationSession = {
+  agentId?: string; // Agent profile stored on the server, replaces agent at /load
   agent?: ConfigurationAgent;
   user?: ConfigurationUser;
   voiceId?: string;
@@ -19,6 +24,19 @@ export type ConfigurationAgent = {
   systemPrompt?: string;
 };
 
+// An agent profile as listed by GET /agents
+export type AgentProfile = {
+  id: string;
+  version: number;
+  profile: {
+    name: string;
+    systemPrompt?: string;
+    greeting?: string;
+    knowledge?: string[];
+    voiceId?: string;
+  };
+};
+
 export type ConfigurationScene = {
   name?: string;
 };
@@ -28,6 +46,7 @@ export type ConfigurationUser = {
 };
 
 export type Configuration = {
+  agentId?: string;
   agent?: ConfigurationAgent;
   scene?: ConfigurationScene;
   user?: ConfigurationUser;
@@ -51,13 +70,14 @@ export enum CHAT_HISTORY_TYPE {
   ACTOR = 'actor',
   TEXT = 'text',
   INTERACTION_END = 'interaction_end',
+  TOOL = 'tool',
+  CITATIONS = 'citations',
 }
 
 export type HistoryItemBase = {
   date: Date;
   id: string;
   interactionId?: string;
-  source: Actor;
   type: CHAT_HISTORY_TYPE;
 };
 
@@ -73,7 +93,27 @@ export type HistoryItemInteractionEnd = HistoryItemBase & {
   type: CHAT_HISTORY_TYPE.INTERACTION_END;
 };
 
-export type ChatHistoryItem = HistoryItemActor | HistoryItemInteractionEnd;
+// A tool the agent called, updated with the result when it arrives
+export type HistoryItemTool = HistoryItemBase & {
+  type: CHAT_HISTORY_TYPE.TOOL;
+  name: string;
+  args: unknown;
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+};
+
+// Knowledge passages the agent was given for its answer
+export type HistoryItemCitations = HistoryItemBase & {
+  type: CHAT_HISTORY_TYPE.CITATIONS;
+  citations: Citation[];
+};
+
+export type ChatHistoryItem =
+  | HistoryItemActor
+  | HistoryItemInteractionEnd
+  | HistoryItemTool
+  | HistoryItemCitations;
 
 export type InteractionLatency = {
   interactionId: string;
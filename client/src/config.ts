@@ -13,6 +13,13 @@ export const config = {
   CLONE_VOICE_URL:
     import.meta.env.VITE_APP_CLONE_VOICE_URL ||
     `http://localhost:${PORT}/clone-voice`,
+  AGENTS_URL:
+    import.meta.env.VITE_APP_AGENTS_URL || `http://localhost:${PORT}/agents`,
   ENABLE_LATENCY_REPORTING:
     import.meta.env.VITE_ENABLE_LATENCY_REPORTING === 'true' || false,
+  API_KEY: import.meta.env.VITE_APP_API_KEY as string | undefined,
 };
+
+// Headers for authenticated requests to the server (if an API key is configured)
+export const authHeaders = (): Record<string, string> =>
+  config.API_KEY ? { Authorization: `Bearer ${config.API_KEY}` } : {};
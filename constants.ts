@@ -167,6 +167,72 @@ export const DEFAULT_LLM_MODEL_NAME = 'llama-3.3-70b-versatile'; //'gpt-4o-mini'
 export const DEFAULT_PROVIDER = 'groq'; //'openai';
 export const DEFAULT_TTS_MODEL_ID = 'inworld-tts-1.5-max';
 export const DEFAULT_VAD_MODEL_PATH = 'models/silero_vad.onnx';
+export const DEFAULT_OPENAI_STT_MODEL = 'whisper-1';
+
+// Session persistence (memory | file | sqlite)
+export const DEFAULT_SESSION_STORE = 'memory';
+export const DEFAULT_SESSION_STORE_FILE_PATH = 'data/sessions.json';
+export const DEFAULT_SESSION_STORE_SQLITE_PATH = 'data/sessions.db';
+
+// Agent profiles (memory | file | sqlite), see GET/POST/PUT/DELETE /agents
+export const DEFAULT_AGENT_STORE = 'memory';
+export const DEFAULT_AGENT_STORE_FILE_PATH = 'data/agents.json';
+export const DEFAULT_AGENT_STORE_SQLITE_PATH = 'data/agents.db';
+export const MAX_AGENT_PROFILE_VERSIONS = 50; // Older versions are dropped
+
+// Session lifecycle (idle session reaper)
+export const DEFAULT_SESSION_IDLE_TTL_MS = 30 * 60 * 1000; // Expire sessions without activity after 30 minutes
+export const DEFAULT_SESSION_UNLOADED_TTL_MS = 60 * 1000; // Keep unloaded sessions in memory for 1 minute
+export const DEFAULT_SESSION_TRANSCRIPT_TTL_MS = 24 * 60 * 60 * 1000; // Keep ended sessions in the store for their transcript
+export const DEFAULT_SESSION_SWEEP_INTERVAL_MS = 30 * 1000;
+export const DEFAULT_REPLAY_BUFFER_SIZE = 256; // Outbound packets kept per session for resume
+
+// Session audio recording (opt-in with RECORDING_ENABLED)
+export const DEFAULT_RECORDINGS_PATH = 'data/recordings';
+
+// Authentication
+export const DEFAULT_SESSION_TOKEN_TTL_MS = 10 * 60 * 1000; // WebSocket session tokens, renewed while connected
+export const DEFAULT_ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000; // Bearer tokens issued by POST /auth/tokens
+export const MAX_ACCESS_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Rate limits, as `<limit>/<window seconds>` token buckets
+export const DEFAULT_RATE_LIMIT_LOAD = '20/60'; // Per API key or IP
+export const DEFAULT_RATE_LIMIT_GENERATE_CHARACTER = '5/60'; // Per API key or IP
+export const DEFAULT_RATE_LIMIT_CLONE_VOICE = '5/3600'; // Per API key or IP
+export const DEFAULT_RATE_LIMIT_WS_TEXT = '30/60'; // Text messages per session
+export const DEFAULT_RATE_LIMIT_WS_AUDIO_BYTES = '262144/2'; // Audio bytes per session (~2x real time for 16kHz Float32)
+
+// Live session reconfiguration (config_update)
+export const MAX_LLM_GRAPH_VARIANTS = 4; // Distinct non-default LLM configs with their own graphs
+export const DEFAULT_TTS_TEMPERATURE = 1.1;
+export const DEFAULT_TTS_SPEAKING_RATE = 1;
+export const DEFAULT_TTS_PITCH = 0;
+
+// Conversation context sent to the LLM, overridable per agent (agent.contextWindow).
+// The token budget defaults to TEXT_CONFIG.maxPromptLength
+export const DEFAULT_CONTEXT_KEEP_LAST_TURNS = 4;
+export const DEFAULT_CONTEXT_SUMMARIZE_AFTER_TURNS = 4;
+
+// Tool calling (agent.tools)
+export const MAX_TOOL_CALL_ROUNDS = 3; // LLM generations with tool calls before the final answer
+export const TOOL_CALL_TIMEOUT_MS = 10000; // Per tool handler call
+
+// Knowledge retrieval (agent.knowledge and uploaded documents)
+export const KNOWLEDGE_CHUNK_WORDS = 80; // Target passage length
+export const KNOWLEDGE_CHUNK_OVERLAP_WORDS = 20; // Shared by consecutive passages of a long paragraph
+export const KNOWLEDGE_TOP_K = 3; // Passages added to the prompt per user turn
+export const MAX_KNOWLEDGE_DOCUMENTS = 20; // Per session
+export const MAX_KNOWLEDGE_DOCUMENT_LENGTH = 200000; // Characters
+
+// Multi-agent sessions (agents at /load)
+export const MAX_SESSION_AGENTS = 5;
+export const DEFAULT_TURN_TAKING_POLICY = 'addressed';
+export const MAX_AGENT_REPLIES = 3; // Upper bound of turnTaking.maxAgentReplies
+
+// Agent handoff (handoff at /load)
+export const MAX_HANDOFF_AGENTS = 5;
+export const MAX_HANDOFF_RULES = 20;
+export const MAX_HANDOFF_KEYWORDS = 20; // Per rule
 
 // Audio Configuration (used by graph-based VAD)
 export const INPUT_SAMPLE_RATE = 16000;
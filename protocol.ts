@@ -0,0 +1,810 @@
+// WebSocket protocol shared by the server and the client.
+//
+// Every message the client sends on `/session` is a ClientMessage and every
+// packet the server sends is a ServerPacket. The protocol version is
+// negotiated with the WebSocket subprotocol (`voice-agent.v<version>`) when
+// the socket connects; clients that don't request a subprotocol speak
+// DEFAULT_PROTOCOL_VERSION.
+//
+// Versions:
+// 1. JSON frames only, audio as JSON arrays (client) and base64 (server)
+// 2. Adds binary audio frames in both directions, see "Binary frames" below
+//
+// The input and output audio formats are declared when the session is
+// loaded (`/load`).
+export const PROTOCOL_VERSION = 2;
+export const DEFAULT_PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1, 2];
+export const MIN_BINARY_PROTOCOL_VERSION = 2;
+
+const SUBPROTOCOL_PREFIX = 'voice-agent.v';
+
+export const toSubprotocol = (version: number) =>
+  `${SUBPROTOCOL_PREFIX}${version}`;
+
+/**
+ * Protocol version of a subprotocol, undefined if it isn't one of ours
+ */
+export function subprotocolVersion(protocol: string): number | undefined {
+  if (!protocol.startsWith(SUBPROTOCOL_PREFIX)) {
+    return undefined;
+  }
+  const version = Number(protocol.slice(SUBPROTOCOL_PREFIX.length));
+  return Number.isInteger(version) ? version : undefined;
+}
+
+/**
+ * Pick the highest supported version among the subprotocols offered by the
+ * client. Returns undefined if none is supported.
+ */
+export function negotiateSubprotocol(offered: string[]): string | undefined {
+  const versions = offered
+    .map(subprotocolVersion)
+    .filter(
+      (version): version is number =>
+        version !== undefined && SUPPORTED_PROTOCOL_VERSIONS.includes(version),
+    );
+
+  return versions.length ? toSubprotocol(Math.max(...versions)) : undefined;
+}
+
+// ============================================================================
+// Audio formats
+// ============================================================================
+
+export enum AUDIO_ENCODING {
+  PCM_F32LE = 'pcm_f32le',
+  PCM_S16LE = 'pcm_s16le',
+  MULAW = 'mulaw', // G.711 μ-law, 8 kHz
+  ALAW = 'alaw', // G.711 A-law, 8 kHz
+  OPUS = 'opus', // One Opus packet per frame
+}
+
+export const AUDIO_ENCODINGS = Object.values(AUDIO_ENCODING);
+
+export interface AudioFormat {
+  encoding: AUDIO_ENCODING;
+  sampleRate: number;
+}
+
+// Output audio can be framed as WAV, each AUDIO packet then holds a complete
+// WAV file that can be played on its own
+export enum AUDIO_CONTAINER {
+  WAV = 'wav',
+}
+
+export interface OutputAudioFormat extends AudioFormat {
+  container?: AUDIO_CONTAINER;
+}
+
+export const MIN_AUDIO_SAMPLE_RATE = 8000;
+export const MAX_AUDIO_SAMPLE_RATE = 48000;
+export const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+/**
+ * Check an audio format declared by a client
+ */
+export function validateAudioFormat(
+  raw: unknown,
+  field: string,
+): ParseResult<AudioFormat> {
+  if (!isObject(raw)) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, `Invalid ${field}`, [
+      { field, message: 'must be an object' },
+    ]);
+  }
+
+  const { encoding, sampleRate } = raw;
+  const errors: FieldError[] = [];
+
+  if (!AUDIO_ENCODINGS.includes(encoding as AUDIO_ENCODING)) {
+    errors.push({
+      field: `${field}.encoding`,
+      message: `must be one of: ${AUDIO_ENCODINGS.join(', ')}`,
+    });
+  }
+
+  if (
+    !Number.isInteger(sampleRate) ||
+    (sampleRate as number) < MIN_AUDIO_SAMPLE_RATE ||
+    (sampleRate as number) > MAX_AUDIO_SAMPLE_RATE
+  ) {
+    errors.push({
+      field: `${field}.sampleRate`,
+      message: `must be an integer between ${MIN_AUDIO_SAMPLE_RATE} and ${MAX_AUDIO_SAMPLE_RATE}`,
+    });
+  } else if (
+    (encoding === AUDIO_ENCODING.MULAW || encoding === AUDIO_ENCODING.ALAW) &&
+    sampleRate !== 8000
+  ) {
+    errors.push({
+      field: `${field}.sampleRate`,
+      message: `must be 8000 for ${encoding}`,
+    });
+  } else if (
+    encoding === AUDIO_ENCODING.OPUS &&
+    !OPUS_SAMPLE_RATES.includes(sampleRate as number)
+  ) {
+    errors.push({
+      field: `${field}.sampleRate`,
+      message: `must be one of ${OPUS_SAMPLE_RATES.join(', ')} for opus`,
+    });
+  }
+
+  if (errors.length) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, `Invalid ${field}`, errors);
+  }
+  return {
+    ok: true,
+    message: {
+      encoding: encoding as AUDIO_ENCODING,
+      sampleRate: sampleRate as number,
+    },
+  };
+}
+
+/**
+ * Check an output audio format requested by a client
+ */
+export function validateOutputAudioFormat(
+  raw: unknown,
+  field: string,
+): ParseResult<OutputAudioFormat> {
+  const format = validateAudioFormat(raw, field);
+  if (format.ok === false) {
+    return format;
+  }
+
+  const { container } = raw as { [key: string]: unknown };
+  if (container === undefined) {
+    return format;
+  }
+
+  if (container !== AUDIO_CONTAINER.WAV) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, `Invalid ${field}`, [
+      { field: `${field}.container`, message: `must be ${AUDIO_CONTAINER.WAV}` },
+    ]);
+  }
+  if (format.message.encoding === AUDIO_ENCODING.OPUS) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, `Invalid ${field}`, [
+      { field: `${field}.container`, message: 'is not supported for opus' },
+    ]);
+  }
+
+  return { ok: true, message: { ...format.message, container } };
+}
+
+// ============================================================================
+// Client -> server
+// ============================================================================
+
+export enum CLIENT_MESSAGE_TYPE {
+  TEXT = 'text',
+  AUDIO = 'audio',
+  AUDIO_FRAME = 'audioFrame', // Binary frames only
+  AUDIO_SESSION_END = 'audioSessionEnd',
+  RESUME = 'resume',
+  CONFIG_UPDATE = 'config_update',
+  PLAYBACK_PROGRESS = 'playback_progress',
+}
+
+// Upper case spellings accepted for backwards compatibility
+const LEGACY_MESSAGE_TYPES: { [type: string]: CLIENT_MESSAGE_TYPE } = {
+  TEXT: CLIENT_MESSAGE_TYPE.TEXT,
+  AUDIO: CLIENT_MESSAGE_TYPE.AUDIO,
+};
+
+// A chunk of Float32 samples. A Float32Array is sent as JSON, where it
+// becomes an object keyed by sample index
+export type AudioSamples = ArrayLike<number> | { [index: string]: number };
+
+export interface TextMessage {
+  type: CLIENT_MESSAGE_TYPE.TEXT;
+  text: string;
+}
+
+// Float32 samples at the session's input sample rate
+export interface AudioMessage {
+  type: CLIENT_MESSAGE_TYPE.AUDIO;
+  audio: AudioSamples[];
+}
+
+// A binary audio frame, in the format declared by its header
+export interface AudioFrameMessage {
+  type: CLIENT_MESSAGE_TYPE.AUDIO_FRAME;
+  format: AudioFormat;
+  data: Uint8Array;
+}
+
+export interface AudioSessionEndMessage {
+  type: CLIENT_MESSAGE_TYPE.AUDIO_SESSION_END;
+}
+
+export interface ResumeMessage {
+  type: CLIENT_MESSAGE_TYPE.RESUME;
+  lastSeq: number;
+  streamId?: string;
+}
+
+export interface TTSParams {
+  temperature?: number;
+  speakingRate?: number;
+  pitch?: number;
+}
+
+export interface LLMParams {
+  modelName?: string;
+  provider?: string;
+  temperature?: number;
+  topP?: number;
+  maxNewTokens?: number;
+  repetitionPenalty?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+}
+
+// How much of the conversation is sent to the LLM, per agent. Older turns
+// are replaced by a running summary.
+export interface ContextWindowConfig {
+  maxPromptTokens?: number; // Estimated token budget of the prompt
+  keepLastTurns?: number; // Most recent turns always sent verbatim
+  summarizeAfterTurns?: number; // Older turns collected before the summary is refreshed
+}
+
+// Who answers in a session with several agents (`agents` at /load):
+// - addressed: the agent named in the message, else the last one to speak
+// - round-robin: each agent in turn
+// - llm: the LLM picks the agent that fits the conversation best
+export type TurnTakingPolicy = 'addressed' | 'round-robin' | 'llm';
+
+export interface TurnTakingConfig {
+  policy?: TurnTakingPolicy;
+  maxAgentReplies?: number; // Agents replying to each other after an answer, per user turn (default 0)
+}
+
+export interface SessionConfigUpdate {
+  voiceId?: string;
+  systemPrompt?: string;
+  userName?: string;
+  agent?: {
+    name?: string;
+    description?: string;
+    motivation?: string;
+    knowledge?: string[];
+    contextWindow?: ContextWindowConfig;
+    tools?: string[]; // Names of tools registered on the server
+  };
+  variables?: { [name: string]: string }; // Custom system prompt variables ({vars.<name>}), replaced as a whole
+  timezone?: string; // IANA time zone of the system prompt's {date} and {time}
+  tts?: TTSParams;
+  llm?: LLMParams;
+}
+
+export interface ConfigUpdateMessage {
+  type: CLIENT_MESSAGE_TYPE.CONFIG_UPDATE;
+  requestId?: string;
+  // Validated field by field when the update is applied
+  config: { [key: string]: unknown };
+}
+
+// How far the client played an agent answer. Utterances are the TEXT
+// packets of the answer and the AUDIO packets with the same utteranceId.
+export interface PlaybackProgressMessage {
+  type: CLIENT_MESSAGE_TYPE.PLAYBACK_PROGRESS;
+  interactionId: string;
+  utteranceId?: string; // An utterance whose audio was played to the end
+  interrupted?: boolean; // Playback of the answer stopped before its end
+}
+
+export type ClientMessage =
+  | TextMessage
+  | AudioMessage
+  | AudioFrameMessage
+  | AudioSessionEndMessage
+  | ResumeMessage
+  | ConfigUpdateMessage
+  | PlaybackProgressMessage;
+
+// ============================================================================
+// Server -> client
+// ============================================================================
+
+export enum SERVER_PACKET_TYPE {
+  TEXT = 'TEXT',
+  AUDIO = 'AUDIO',
+  INTERACTION_END = 'INTERACTION_END',
+  NEW_INTERACTION = 'NEW_INTERACTION',
+  CANCEL_RESPONSE = 'CANCEL_RESPONSE',
+  USER_SPEECH_COMPLETE = 'USER_SPEECH_COMPLETE',
+  ERROR = 'ERROR',
+  RESUMED = 'RESUMED',
+  CONFIG_UPDATE_ACK = 'CONFIG_UPDATE_ACK',
+  SESSION_TOKEN = 'SESSION_TOKEN',
+  TOOL_CALL = 'TOOL_CALL',
+  TOOL_RESULT = 'TOOL_RESULT',
+  CITATIONS = 'CITATIONS',
+  AGENT_CHANGED = 'AGENT_CHANGED',
+}
+
+export enum ERROR_CODE {
+  INVALID_JSON = 'INVALID_JSON',
+  INVALID_MESSAGE = 'INVALID_MESSAGE',
+  UNKNOWN_MESSAGE_TYPE = 'UNKNOWN_MESSAGE_TYPE',
+  UNSUPPORTED_PROTOCOL_VERSION = 'UNSUPPORTED_PROTOCOL_VERSION',
+  FORBIDDEN = 'FORBIDDEN',
+  RATE_LIMITED = 'RATE_LIMITED',
+}
+
+export interface PacketSource {
+  isAgent?: boolean;
+  isUser?: boolean;
+  name?: string;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface PacketBase {
+  date: string; // ISO 8601
+  seq?: number; // Set on packets that can be replayed after a resume
+}
+
+export interface TextPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.TEXT;
+  text: { text: string; final: boolean };
+  packetId: { utteranceId: string; interactionId: string };
+  routing: { source: PacketSource };
+}
+
+export interface AudioPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.AUDIO;
+  // Audio in `format`: base64 encoded in JSON frames, raw bytes in binary
+  // frames. Opus audio is a sequence of packets, each prefixed with its
+  // length as a u16.
+  audio: { chunk: string } | { data: Uint8Array };
+  format: OutputAudioFormat;
+  packetId: { utteranceId: string; interactionId: string };
+  routing: { source: PacketSource };
+}
+
+export interface InteractionEndPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.INTERACTION_END;
+  packetId: { interactionId: string };
+}
+
+export interface NewInteractionPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.NEW_INTERACTION;
+  packetId: { interactionId: string };
+}
+
+export interface CancelResponsePacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.CANCEL_RESPONSE;
+  packetId: { interactionId: string };
+}
+
+export interface UserSpeechCompletePacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.USER_SPEECH_COMPLETE;
+  packetId: { interactionId: string };
+  metadata?: {
+    totalSamples?: number;
+    sampleRate?: number;
+    endpointingLatencyMs?: number;
+    source?: string;
+    iteration?: number;
+  };
+}
+
+export interface ErrorDetails {
+  code: ERROR_CODE;
+  limit?: string; // RATE_LIMITED: the limit that tripped
+  retryAfterMs?: number; // RATE_LIMITED
+  errors?: FieldError[]; // INVALID_MESSAGE
+}
+
+export interface ErrorPacket extends PacketBase, Partial<ErrorDetails> {
+  type: SERVER_PACKET_TYPE.ERROR;
+  error: string;
+  packetId: { interactionId: string };
+}
+
+export interface ResumedPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.RESUMED;
+  streamId: string;
+  lastSeq: number;
+  replayed: number;
+  gap: boolean;
+}
+
+export interface ConfigUpdateAckPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.CONFIG_UPDATE_ACK;
+  requestId?: string;
+  accepted: boolean;
+  fields?: string[];
+  errors?: FieldError[];
+  appliesFrom?: 'next_interaction';
+}
+
+export interface SessionTokenPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.SESSION_TOKEN;
+  token: string;
+  expiresAt: number;
+}
+
+// The agent called a tool, before it answers
+export interface ToolCallPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.TOOL_CALL;
+  toolCall: {
+    id: string;
+    name: string;
+    args: unknown; // Parsed JSON, or the raw string if the LLM sent invalid JSON
+  };
+  packetId: { interactionId: string };
+}
+
+export interface ToolResultPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.TOOL_RESULT;
+  toolResult: {
+    id: string; // Of the tool call
+    name: string;
+    result?: unknown; // What the tool returned, if it succeeded
+    error?: string;
+    durationMs: number;
+  };
+  packetId: { interactionId: string };
+}
+
+// A knowledge passage given to the agent for its answer
+export interface Citation {
+  id: string; // Passage id, unique within the agent's knowledge
+  source: string; // Document name, or "knowledge" for the agent's snippets
+  text: string;
+  score: number; // BM25 relevance to the user's message
+}
+
+// Sent before the agent's answer when knowledge was retrieved for it
+export interface CitationsPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.CITATIONS;
+  citations: Citation[];
+  packetId: { interactionId: string };
+}
+
+// Who transferred the session to another agent:
+// - agent: the agent itself, with the transfer_to_agent tool
+// - rule: the server, with a handoff rule matching the user's message
+export type HandoffTrigger = 'agent' | 'rule';
+
+// The session was handed off to another agent, whose answers follow
+export interface AgentChangedPacket extends PacketBase {
+  type: SERVER_PACKET_TYPE.AGENT_CHANGED;
+  agent: {
+    id: string; // routing.source.name of its text packets
+    name: string;
+    profileId?: string;
+    profileVersion?: number;
+  };
+  previousAgent: { id: string; name: string };
+  trigger: HandoffTrigger;
+  reason?: string; // Given by the agent that transferred the session
+  packetId: { interactionId: string };
+}
+
+export type ServerPacket =
+  | TextPacket
+  | AudioPacket
+  | InteractionEndPacket
+  | NewInteractionPacket
+  | CancelResponsePacket
+  | UserSpeechCompletePacket
+  | ErrorPacket
+  | ResumedPacket
+  | ConfigUpdateAckPacket
+  | SessionTokenPacket
+  | ToolCallPacket
+  | ToolResultPacket
+  | CitationsPacket
+  | AgentChangedPacket;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ERROR_CODE; error: string; errors?: FieldError[] };
+
+/**
+ * Parse and validate a frame received from a client. Binary frames are
+ * audio frames and become AUDIO messages.
+ */
+export function parseClientMessage(
+  data: string | Uint8Array,
+): ParseResult<ClientMessage> {
+  if (typeof data !== 'string') {
+    return parseAudioFrame(data);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return invalid(ERROR_CODE.INVALID_JSON, 'Message is not valid JSON');
+  }
+
+  if (!isObject(raw) || typeof raw.type !== 'string') {
+    return invalid(
+      ERROR_CODE.INVALID_MESSAGE,
+      'Message must be an object with a string type',
+    );
+  }
+
+  const type = LEGACY_MESSAGE_TYPES[raw.type] ?? raw.type;
+  const errors: FieldError[] = [];
+
+  switch (type) {
+    case CLIENT_MESSAGE_TYPE.TEXT:
+      if (typeof raw.text !== 'string') {
+        errors.push({ field: 'text', message: 'must be a string' });
+      }
+      break;
+
+    case CLIENT_MESSAGE_TYPE.AUDIO:
+      if (!Array.isArray(raw.audio) || !raw.audio.every(isAudioSamples)) {
+        errors.push({
+          field: 'audio',
+          message: 'must be an array of sample arrays',
+        });
+      }
+      break;
+
+    case CLIENT_MESSAGE_TYPE.AUDIO_SESSION_END:
+      break;
+
+    case CLIENT_MESSAGE_TYPE.RESUME:
+      if (
+        raw.lastSeq !== undefined &&
+        !(Number.isInteger(raw.lastSeq) && (raw.lastSeq as number) >= 0)
+      ) {
+        errors.push({
+          field: 'lastSeq',
+          message: 'must be a non-negative integer',
+        });
+      }
+      if (raw.streamId !== undefined && typeof raw.streamId !== 'string') {
+        errors.push({ field: 'streamId', message: 'must be a string' });
+      }
+      raw.lastSeq ??= 0;
+      break;
+
+    case CLIENT_MESSAGE_TYPE.CONFIG_UPDATE:
+      if (raw.requestId !== undefined && typeof raw.requestId !== 'string') {
+        errors.push({ field: 'requestId', message: 'must be a string' });
+      }
+      if (!isObject(raw.config)) {
+        errors.push({ field: 'config', message: 'must be an object' });
+      }
+      break;
+
+    case CLIENT_MESSAGE_TYPE.PLAYBACK_PROGRESS:
+      if (typeof raw.interactionId !== 'string' || !raw.interactionId) {
+        errors.push({
+          field: 'interactionId',
+          message: 'must be a non-empty string',
+        });
+      }
+      if (raw.utteranceId !== undefined && typeof raw.utteranceId !== 'string') {
+        errors.push({ field: 'utteranceId', message: 'must be a string' });
+      }
+      if (raw.interrupted !== undefined && typeof raw.interrupted !== 'boolean') {
+        errors.push({ field: 'interrupted', message: 'must be a boolean' });
+      }
+      if (raw.utteranceId === undefined && !raw.interrupted) {
+        errors.push({
+          field: 'utteranceId',
+          message: 'is required unless interrupted is true',
+        });
+      }
+      break;
+
+    default:
+      return invalid(
+        ERROR_CODE.UNKNOWN_MESSAGE_TYPE,
+        `Unknown message type: ${raw.type}`,
+      );
+  }
+
+  if (errors.length) {
+    return invalid(
+      ERROR_CODE.INVALID_MESSAGE,
+      `Invalid ${type} message`,
+      errors,
+    );
+  }
+
+  return { ok: true, message: { ...raw, type } as ClientMessage };
+}
+
+function invalid(
+  code: ERROR_CODE,
+  error: string,
+  errors?: FieldError[],
+): ParseResult<never> {
+  return { ok: false, code, error, errors };
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAudioSamples(value: unknown): value is AudioSamples {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  return Object.values(value).every(
+    (sample) => typeof sample === 'number' && Number.isFinite(sample),
+  );
+}
+
+// ============================================================================
+// Binary frames (protocol version 2)
+// ============================================================================
+//
+// All integers and samples are little endian.
+//
+// Client -> server audio frame:
+//   0  u8   BINARY_FRAME_TYPE.AUDIO
+//   1  u8   AUDIO_ENCODING_CODES of the audio
+//   2  u16  reserved, 0
+//   4  u32  sample rate in Hz
+//   8       samples, or one Opus packet
+//
+// Server -> client AUDIO packet:
+//   0  u8   BINARY_FRAME_TYPE.AUDIO_PACKET
+//   1  u8   reserved, 0
+//   2  u16  reserved, 0
+//   4  u32  length N of the metadata
+//   8       N bytes of JSON: the AudioPacket without `audio`, padded with
+//           spaces so the audio starts 4-byte aligned
+//   8 + N   audio in the packet's `format`
+
+export enum BINARY_FRAME_TYPE {
+  AUDIO = 1,
+  AUDIO_PACKET = 2,
+}
+
+// Encoding byte of binary audio frames
+export const AUDIO_ENCODING_CODES: { [encoding in AUDIO_ENCODING]: number } = {
+  [AUDIO_ENCODING.PCM_F32LE]: 1,
+  [AUDIO_ENCODING.PCM_S16LE]: 2,
+  [AUDIO_ENCODING.MULAW]: 3,
+  [AUDIO_ENCODING.ALAW]: 4,
+  [AUDIO_ENCODING.OPUS]: 5,
+};
+
+const BINARY_HEADER_SIZE = 8;
+
+/**
+ * Build a client audio frame. `data` is encoded as declared by `format`.
+ */
+export function encodeAudioFrame(
+  data: ArrayBufferView,
+  format: AudioFormat,
+): ArrayBuffer {
+  const frame = new ArrayBuffer(BINARY_HEADER_SIZE + data.byteLength);
+  const header = new DataView(frame);
+  header.setUint8(0, BINARY_FRAME_TYPE.AUDIO);
+  header.setUint8(1, AUDIO_ENCODING_CODES[format.encoding]);
+  header.setUint32(4, format.sampleRate, true);
+  new Uint8Array(frame, BINARY_HEADER_SIZE).set(
+    new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+  );
+  return frame;
+}
+
+function parseAudioFrame(data: Uint8Array): ParseResult<AudioFrameMessage> {
+  if (data.byteLength < BINARY_HEADER_SIZE) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, 'Binary frame is too short');
+  }
+
+  const header = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (header.getUint8(0) !== BINARY_FRAME_TYPE.AUDIO) {
+    return invalid(
+      ERROR_CODE.UNKNOWN_MESSAGE_TYPE,
+      `Unknown binary frame type: ${header.getUint8(0)}`,
+    );
+  }
+
+  const code = header.getUint8(1);
+  const encoding = AUDIO_ENCODINGS.find(
+    (encoding) => AUDIO_ENCODING_CODES[encoding] === code,
+  );
+  if (!encoding) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, 'Invalid audio frame', [
+      { field: 'encoding', message: `unsupported audio encoding ${code}` },
+    ]);
+  }
+
+  const format = validateAudioFormat(
+    { encoding, sampleRate: header.getUint32(4, true) },
+    'format',
+  );
+  if (format.ok === false) {
+    return format;
+  }
+
+  const audio = data.subarray(BINARY_HEADER_SIZE);
+  const sampleSize = SAMPLE_SIZES[encoding];
+  if (sampleSize && audio.byteLength % sampleSize) {
+    return invalid(ERROR_CODE.INVALID_MESSAGE, 'Invalid audio frame', [
+      { field: 'data', message: 'must contain whole samples' },
+    ]);
+  }
+
+  return {
+    ok: true,
+    message: {
+      type: CLIENT_MESSAGE_TYPE.AUDIO_FRAME,
+      format: format.message,
+      data: audio,
+    },
+  };
+}
+
+// Bytes per sample of the PCM encodings
+const SAMPLE_SIZES: { [encoding in AUDIO_ENCODING]?: number } = {
+  [AUDIO_ENCODING.PCM_F32LE]: Float32Array.BYTES_PER_ELEMENT,
+  [AUDIO_ENCODING.PCM_S16LE]: Int16Array.BYTES_PER_ELEMENT,
+};
+
+/**
+ * Build a binary AUDIO packet from its metadata and encoded audio
+ */
+export function encodeAudioPacket(
+  packet: Omit<AudioPacket, 'audio'>,
+  data: Uint8Array,
+): Uint8Array {
+  const metadata = new TextEncoder().encode(JSON.stringify(packet));
+  const metadataLength = Math.ceil(metadata.byteLength / 4) * 4;
+
+  const frame = new Uint8Array(
+    BINARY_HEADER_SIZE + metadataLength + data.byteLength,
+  );
+  const header = new DataView(frame.buffer);
+  header.setUint8(0, BINARY_FRAME_TYPE.AUDIO_PACKET);
+  header.setUint32(4, metadataLength, true);
+  frame.set(metadata, BINARY_HEADER_SIZE);
+  frame.fill(
+    0x20, // Space
+    BINARY_HEADER_SIZE + metadata.byteLength,
+    BINARY_HEADER_SIZE + metadataLength,
+  );
+  frame.set(data, BINARY_HEADER_SIZE + metadataLength);
+  return frame;
+}
+
+/**
+ * Decode a binary packet received from the server
+ */
+export function decodeServerFrame(
+  frame: ArrayBuffer,
+): AudioPacket | undefined {
+  const header = new DataView(frame);
+  if (
+    frame.byteLength < BINARY_HEADER_SIZE ||
+    header.getUint8(0) !== BINARY_FRAME_TYPE.AUDIO_PACKET
+  ) {
+    return undefined;
+  }
+
+  const metadataLength = header.getUint32(4, true);
+  const metadata = new TextDecoder().decode(
+    new Uint8Array(frame, BINARY_HEADER_SIZE, metadataLength),
+  );
+  return {
+    ...JSON.parse(metadata),
+    audio: {
+      data: new Uint8Array(frame, BINARY_HEADER_SIZE + metadataLength),
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import { v4 } from 'uuid';
+
+import { MAX_AGENT_PROFILE_VERSIONS } from '../../constants';
+import { Agent, AgentProfile } from '../types';
+import {
+  AgentProfileVersion,
+  AgentStore,
+  StoredAgent,
+} from './agent_stores/agent_store';
+
+// Ids chosen by the API client, e.g. "support-bot"
+export const AGENT_ID_PATTERN = /^[A-Za-z0-9][\w-]{0,63}$/;
+
+/**
+ * AgentRegistry manages the agent profiles of the /agents API on top of an
+ * AgentStore. Every change adds a version to the profile's history; /load
+ * uses the latest version unless it asks for another one.
+ */
+export class AgentRegistry {
+  // Changes are read-modify-write, so they run one at a time
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private store: AgentStore) {}
+
+  async list(): Promise<StoredAgent[]> {
+    const agents = await Promise.all(
+      (await this.store.list()).map((agentId) => this.store.get(agentId)),
+    );
+    return agents.filter(Boolean);
+  }
+
+  get(agentId: string): Promise<StoredAgent | undefined> {
+    return this.store.get(agentId);
+  }
+
+  /**
+   * A version of a profile, the latest if not given
+   */
+  async getVersion(
+    agentId: string,
+    version?: number,
+  ): Promise<AgentProfileVersion | undefined> {
+    const agent = await this.store.get(agentId);
+    if (!agent) {
+      return undefined;
+    }
+    return version === undefined
+      ? agent.versions[agent.versions.length - 1]
+      : agent.versions.find((v) => v.version === version);
+  }
+
+  /**
+   * Add a profile. Returns undefined if the id is taken.
+   */
+  create(
+    profile: AgentProfile,
+    agentId: string = v4(),
+  ): Promise<StoredAgent | undefined> {
+    return this.exclusive(async () => {
+      if (await this.store.get(agentId)) {
+        return undefined;
+      }
+
+      const now = Date.now();
+      const agent: StoredAgent = {
+        id: agentId,
+        versions: [{ version: 1, profile, createdAt: now }],
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.save(agentId, agent);
+      return agent;
+    });
+  }
+
+  /**
+   * Replace a profile with a new version. Returns undefined if there's no
+   * such profile.
+   */
+  update(
+    agentId: string,
+    profile: AgentProfile,
+  ): Promise<StoredAgent | undefined> {
+    return this.exclusive(async () => {
+      const agent = await this.store.get(agentId);
+      if (!agent) {
+        return undefined;
+      }
+
+      const now = Date.now();
+      const latest = agent.versions[agent.versions.length - 1];
+      agent.versions = [
+        ...agent.versions,
+        { version: latest.version + 1, profile, createdAt: now },
+      ].slice(-MAX_AGENT_PROFILE_VERSIONS);
+      agent.updatedAt = now;
+      await this.store.save(agentId, agent);
+      return agent;
+    });
+  }
+
+  /**
+   * Delete a profile and its history. Returns false if there's no such
+   * profile.
+   */
+  delete(agentId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      if (!(await this.store.get(agentId))) {
+        return false;
+      }
+      await this.store.delete(agentId);
+      return true;
+    });
+  }
+
+  close(): Promise<void> {
+    return this.store.close();
+  }
+
+  private exclusive<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.writeChain.then(change);
+    this.writeChain = result.catch(() => {
+      // Reported to the caller
+    });
+    return result;
+  }
+}
+
+/**
+ * The session agent for a profile version, without its session id
+ */
+export function toSessionAgent(
+  agentId: string,
+  { version, profile }: AgentProfileVersion,
+): Omit<Agent, 'id'> {
+  return {
+    name: profile.name,
+    description: profile.description ?? '',
+    motivation: profile.motivation ?? '',
+    systemPrompt: profile.systemPrompt,
+    knowledge: profile.knowledge,
+    tools: profile.tools,
+    contextWindow: profile.contextWindow,
+    profileId: agentId,
+    profileVersion: version,
+  };
+}
+
+/**
+ * A profile version as returned by the API
+ */
+export function describeAgentVersion(
+  agent: StoredAgent,
+  version: AgentProfileVersion = agent.versions[agent.versions.length - 1],
+) {
+  return {
+    id: agent.id,
+    version: version.version,
+    profile: version.profile,
+    createdAt: new Date(agent.createdAt).toISOString(),
+    updatedAt: new Date(version.createdAt).toISOString(),
+  };
+}
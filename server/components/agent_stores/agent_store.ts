@@ -0,0 +1,33 @@
+import { AgentProfile } from '../../types';
+
+export interface AgentProfileVersion {
+  version: number; // Starts at 1, incremented by every update
+  profile: AgentProfile;
+  createdAt: number;
+}
+
+/**
+ * An agent profile with its version history, oldest first. The last
+ * version is the current profile.
+ */
+export interface StoredAgent {
+  id: string;
+  versions: AgentProfileVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * AgentStore persists the agent profiles managed with the /agents API, so
+ * personas can be edited without changing the client.
+ *
+ * AgentRegistry validates the profiles and numbers their versions; stores
+ * only keep the documents.
+ */
+export interface AgentStore {
+  get(agentId: string): Promise<StoredAgent | undefined>;
+  save(agentId: string, agent: StoredAgent): Promise<void>;
+  delete(agentId: string): Promise<void>;
+  list(): Promise<string[]>;
+  close(): Promise<void>;
+}
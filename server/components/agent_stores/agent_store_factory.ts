@@ -0,0 +1,26 @@
+import { AgentStore } from './agent_store';
+import { InMemoryAgentStore } from './in_memory_agent_store';
+import { JsonFileAgentStore } from './json_file_agent_store';
+import { SqliteAgentStore } from './sqlite_agent_store';
+
+export type AgentStoreType = 'memory' | 'file' | 'sqlite';
+
+export const AGENT_STORE_TYPES: AgentStoreType[] = ['memory', 'file', 'sqlite'];
+
+/**
+ * Create the agent store selected by configuration
+ */
+export function createAgentStore(config: {
+  type: AgentStoreType;
+  path: string;
+}): AgentStore {
+  switch (config.type) {
+    case 'file':
+      return new JsonFileAgentStore(config.path);
+    case 'sqlite':
+      return new SqliteAgentStore(config.path);
+    case 'memory':
+    default:
+      return new InMemoryAgentStore();
+  }
+}
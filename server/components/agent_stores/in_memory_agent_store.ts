@@ -0,0 +1,32 @@
+import { AgentStore, StoredAgent } from './agent_store';
+
+/**
+ * InMemoryAgentStore keeps agent profiles in process memory.
+ *
+ * Profiles are copied on write and read, like InMemorySessionStore. Nothing
+ * survives a restart - use JsonFileAgentStore or SqliteAgentStore for that.
+ */
+export class InMemoryAgentStore implements AgentStore {
+  private agents = new Map<string, string>();
+
+  async get(agentId: string): Promise<StoredAgent | undefined> {
+    const serialized = this.agents.get(agentId);
+    return serialized ? (JSON.parse(serialized) as StoredAgent) : undefined;
+  }
+
+  async save(agentId: string, agent: StoredAgent): Promise<void> {
+    this.agents.set(agentId, JSON.stringify(agent));
+  }
+
+  async delete(agentId: string): Promise<void> {
+    this.agents.delete(agentId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.agents.keys());
+  }
+
+  async close(): Promise<void> {
+    this.agents.clear();
+  }
+}
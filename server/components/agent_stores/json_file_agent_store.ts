@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { AgentStore, StoredAgent } from './agent_store';
+
+/**
+ * JsonFileAgentStore persists all agent profiles into a single JSON file.
+ *
+ * Like JsonFileSessionStore, the file is loaded lazily on first access and
+ * rewritten atomically after every change, one write at a time.
+ */
+export class JsonFileAgentStore implements AgentStore {
+  private agents: Map<string, StoredAgent> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get(agentId: string): Promise<StoredAgent | undefined> {
+    await this.load();
+    const agent = this.agents!.get(agentId);
+    return agent ? (JSON.parse(JSON.stringify(agent)) as StoredAgent) : undefined;
+  }
+
+  async save(agentId: string, agent: StoredAgent): Promise<void> {
+    await this.load();
+    this.agents!.set(agentId, JSON.parse(JSON.stringify(agent)));
+    await this.persist();
+  }
+
+  async delete(agentId: string): Promise<void> {
+    await this.load();
+    if (this.agents!.delete(agentId)) {
+      await this.persist();
+    }
+  }
+
+  async list(): Promise<string[]> {
+    await this.load();
+    return Array.from(this.agents!.keys());
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const content = await fs.readFile(this.filePath, 'utf8');
+          const parsed = JSON.parse(content) as Record<string, StoredAgent>;
+          this.agents = new Map(Object.entries(parsed));
+          console.log(
+            `[JsonFileAgentStore] Loaded ${this.agents.size} agent(s) from ${this.filePath}`,
+          );
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') {
+            console.error(
+              `[JsonFileAgentStore] Failed to read ${this.filePath}, starting empty:`,
+              error,
+            );
+          }
+          this.agents = new Map();
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private persist(): Promise<void> {
+    // Snapshot now so the write reflects the state at the time of the change
+    const content = JSON.stringify(Object.fromEntries(this.agents!), null, 2);
+
+    this.writeChain = this.writeChain
+      .catch(() => {
+        // Previous write failure was already reported
+      })
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, content, 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      });
+
+    return this.writeChain.catch((error) => {
+      console.error(
+        `[JsonFileAgentStore] Failed to write ${this.filePath}:`,
+        error,
+      );
+    });
+  }
+}
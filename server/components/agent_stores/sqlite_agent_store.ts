@@ -0,0 +1,87 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { AgentStore, StoredAgent } from './agent_store';
+
+/**
+ * SqliteAgentStore persists agent profiles into an SQLite database.
+ *
+ * Each agent is stored as a JSON document, with its version history, keyed
+ * by agentId. The better-sqlite3 native module is loaded lazily, so it is
+ * only required when this store is selected.
+ */
+export class SqliteAgentStore implements AgentStore {
+  private db: BetterSqlite3.Database;
+  private getStatement: BetterSqlite3.Statement<[string]>;
+  private saveStatement: BetterSqlite3.Statement<
+    [string, string, number, number]
+  >;
+  private deleteStatement: BetterSqlite3.Statement<[string]>;
+  private listStatement: BetterSqlite3.Statement<[]>;
+
+  constructor(filePath: string) {
+    const Database = require('better-sqlite3') as typeof BetterSqlite3;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agents (
+        agent_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.getStatement = this.db.prepare(
+      'SELECT data FROM agents WHERE agent_id = ?',
+    );
+    this.saveStatement = this.db.prepare(`
+      INSERT INTO agents (agent_id, data, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(agent_id) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `);
+    this.deleteStatement = this.db.prepare(
+      'DELETE FROM agents WHERE agent_id = ?',
+    );
+    this.listStatement = this.db.prepare(
+      'SELECT agent_id FROM agents ORDER BY created_at',
+    );
+
+    console.log(`[SqliteAgentStore] Using database ${filePath}`);
+  }
+
+  async get(agentId: string): Promise<StoredAgent | undefined> {
+    const row = this.getStatement.get(agentId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as StoredAgent) : undefined;
+  }
+
+  async save(agentId: string, agent: StoredAgent): Promise<void> {
+    this.saveStatement.run(
+      agentId,
+      JSON.stringify(agent),
+      agent.createdAt,
+      agent.updatedAt,
+    );
+  }
+
+  async delete(agentId: string): Promise<void> {
+    this.deleteStatement.run(agentId);
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.listStatement.all() as { agent_id: string }[];
+    return rows.map((row) => row.agent_id);
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+}
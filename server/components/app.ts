@@ -3,10 +3,67 @@ import { VADFactory } from '@inworld/runtime/primitives/vad';
 import { v4 } from 'uuid';
 const { validationResult } = require('express-validator');
 
-import { DEFAULT_VOICE_ID } from '../../constants';
+import { DEFAULT_VOICE_ID, MAX_LLM_GRAPH_VARIANTS } from '../../constants';
+import {
+  validateAudioFormat,
+  validateOutputAudioFormat,
+} from '../../protocol';
 import { parseEnvironmentVariables } from '../helpers';
-import { Connection } from '../types';
+import {
+  Agent,
+  Connection,
+  HandoffState,
+  LLMParams,
+  PARTICIPANT_ROLE,
+  State,
+  TurnTakingConfig,
+} from '../types';
+import {
+  DEFAULT_INPUT_AUDIO_FORMAT,
+  DEFAULT_OUTPUT_AUDIO_FORMAT,
+} from './audio_codecs';
+import { AgentRegistry, toSessionAgent } from './agent_registry';
+import { AgentProfileVersion } from './agent_stores/agent_store';
+import { createAgentStore } from './agent_stores/agent_store_factory';
+import { Authenticator } from './auth';
 import { InworldGraphWrapper } from './graph';
+import { describeKnowledgeDocument } from './knowledge/knowledge_base';
+import {
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from './prompt_template';
+import {
+  ConfigUpdateError,
+  createSystemMessage,
+  toTextGenerationConfig,
+  validateHandoff,
+  validatePromptVariables,
+  validateSessionAgent,
+  validateTimezone,
+  validateTurnTaking,
+} from './session_config';
+import { SessionLifecycleManager } from './session_lifecycle_manager';
+import { SessionOutbox } from './session_outbox';
+import { SessionRecorder } from './session_recorder';
+import {
+  markSessionEnded,
+  saveConnection,
+  SessionStore,
+} from './session_stores/session_store';
+import { createSessionStore } from './session_stores/session_store_factory';
+import {
+  createSTTProvider,
+  getAvailableSTTServices,
+  STTServiceType,
+} from './stt_providers/stt_provider_factory';
+import { ConversationSummarizer } from './summarizers/conversation_summarizer';
+import { LLMConversationSummarizer } from './summarizers/llm_conversation_summarizer';
+import { MockConversationSummarizer } from './summarizers/mock_conversation_summarizer';
+import { registerBuiltinTools } from './tools/builtin_tools';
+import { toolRegistry } from './tools/tool_registry';
+import { LLMSpeakerSelector } from './turn_taking/llm_speaker_selector';
+import { MockSpeakerSelector } from './turn_taking/mock_speaker_selector';
+import { SpeakerSelector } from './turn_taking/speaker_selector';
 
 export class InworldApp {
   apiKey: string;
@@ -19,12 +76,38 @@ export class InworldApp {
   connections: {
     [sessionId: string]: Connection;
   } = {};
+  // Persistent copy of session state; connections is the live cache on top of it
+  sessionStore: SessionStore;
+  sessionLifecycleManager: SessionLifecycleManager;
+  // Agent profiles that /load can start sessions from (the /agents API)
+  agentRegistry: AgentRegistry;
+  // Issues the session token returned by /load (set by the server entry point)
+  authenticator?: Authenticator;
+  // Where session audio is recorded, undefined unless RECORDING_ENABLED is set
+  recordingsPath?: string;
+  // Summarizes the turns that left a session's context window
+  summarizer: ConversationSummarizer;
+  // Picks who answers in multi-agent sessions with the llm turn-taking policy
+  speakerSelector: SpeakerSelector;
 
   vadClient: any;
 
   // Shared graphs for all sessions (voice selected dynamically via TTSRequestBuilderNode)
   graphWithTextInput: InworldGraphWrapper;
-  private graphWithAudioInputAssemblyAI?: InworldGraphWrapper;
+  // Audio input graphs, keyed by STT service
+  private graphsWithAudioInput: {
+    [sttService: string]: InworldGraphWrapper;
+  } = {};
+
+  // Graphs for sessions that changed their LLM settings via config_update,
+  // keyed by the LLM settings (see getLLMVariantKey)
+  private llmGraphVariants: {
+    [variantKey: string]: {
+      variantId: string;
+      graphWithTextInput?: InworldGraphWrapper;
+      graphsWithAudioInput: { [sttService: string]: InworldGraphWrapper };
+    };
+  } = {};
 
   // Environment configuration for lazy graph creation
   private env: ReturnType<typeof parseEnvironmentVariables>;
@@ -45,7 +128,55 @@ export class InworldApp {
     this.disableAutoInterruption = this.env.disableAutoInterruption;
     this.ttsModelId = this.env.ttsModelId;
 
-    // Initialize the VAD client for Assembly.AI
+    this.sessionStore = createSessionStore({
+      type: this.env.sessionStoreType,
+      path: this.env.sessionStorePath,
+    });
+    console.log(`✓ Session store: ${this.env.sessionStoreType}`);
+
+    this.agentRegistry = new AgentRegistry(
+      createAgentStore({
+        type: this.env.agentStoreType,
+        path: this.env.agentStorePath,
+      }),
+    );
+    console.log(`✓ Agent store: ${this.env.agentStoreType}`);
+
+    if (this.env.recordingEnabled) {
+      this.recordingsPath = this.env.recordingsPath;
+      console.log(`✓ Session recording: ${this.recordingsPath}`);
+    }
+
+    this.sessionLifecycleManager = new SessionLifecycleManager(this, {
+      idleTtlMs: this.env.sessionIdleTtlMs,
+      unloadedTtlMs: this.env.sessionUnloadedTtlMs,
+      transcriptTtlMs: this.env.sessionTranscriptTtlMs,
+      sweepIntervalMs: this.env.sessionSweepIntervalMs,
+    });
+    this.sessionLifecycleManager.start();
+
+    // Uses the server's default LLM, whatever the session's LLM settings
+    this.summarizer = this.env.mockProviders
+      ? new MockConversationSummarizer()
+      : new LLMConversationSummarizer({
+          apiKey: this.apiKey,
+          provider: this.llmProvider,
+          modelName: this.llmModelName,
+        });
+    this.speakerSelector = this.env.mockProviders
+      ? new MockSpeakerSelector()
+      : new LLMSpeakerSelector({
+          apiKey: this.apiKey,
+          provider: this.llmProvider,
+          modelName: this.llmModelName,
+        });
+
+    registerBuiltinTools(toolRegistry);
+    console.log(
+      `✓ Tools: ${toolRegistry.list().map((tool) => tool.name).join(', ')}`,
+    );
+
+    // Initialize the VAD client for the STT nodes
     console.log('Loading VAD model from:', this.vadModelPath);
     this.vadClient = await VADFactory.createLocal({
       modelPath: this.vadModelPath,
@@ -59,10 +190,14 @@ export class InworldApp {
       llmProvider: this.llmProvider,
       voiceId: DEFAULT_VOICE_ID, // Default voice (overridden by TTSRequestBuilderNode)
       connections: this.connections,
+      sessionStore: this.sessionStore,
       graphVisualizationEnabled: this.graphVisualizationEnabled,
       disableAutoInterruption: this.disableAutoInterruption,
       ttsModelId: this.ttsModelId,
       vadClient: this.vadClient,
+      mockProviders: this.env.mockProviders,
+      summarizer: this.summarizer,
+      speakerSelector: this.speakerSelector,
     });
 
     console.log('\n✓ Text input graph initialized');
@@ -70,44 +205,181 @@ export class InworldApp {
       '✓ Audio input graph will be created lazily when first requested\n',
     );
 
-    console.log('✓ STT service: Assembly.AI\n');
+    console.log(
+      `✓ STT services: ${getAvailableSTTServices(this.env.sttServices).join(', ')} (default: ${this.env.defaultSTTService})\n`,
+    );
   }
 
   /**
-   * Get the Assembly.AI audio graph.
-   * Graph is created lazily on first request.
+   * Get the audio graph of an STT service, the default one if not given.
+   * Graphs are created lazily on first request, each with its own provider.
    * Voice is selected dynamically per session via TTSRequestBuilderNode.
    */
   async getGraphForSTTService(
-    _sttService?: string,
+    sttService: string = this.env.defaultSTTService,
+    llmParams?: LLMParams,
   ): Promise<InworldGraphWrapper> {
-    if (!this.env.assemblyAIApiKey) {
+    if (!this.getAvailableSTTServices().includes(sttService)) {
       throw new Error(
-        `Assembly.AI STT requested but ASSEMBLY_AI_API_KEY is not configured. This should have been caught during session load.`,
+        `STT service ${sttService} requested but it is not configured. This should have been caught during session load.`,
       );
     }
 
-    if (!this.graphWithAudioInputAssemblyAI) {
-      console.log('  → Creating Assembly.AI STT graph (first use)...');
-      this.graphWithAudioInputAssemblyAI = await InworldGraphWrapper.create({
+    const variant = this.getLLMGraphVariant(llmParams);
+    const graphs = variant
+      ? variant.graphsWithAudioInput
+      : this.graphsWithAudioInput;
+
+    if (!graphs[sttService]) {
+      console.log(
+        variant
+          ? `  → Creating ${sttService} STT graph for LLM variant ${variant.variantId}...`
+          : `  → Creating ${sttService} STT graph (first use)...`,
+      );
+      graphs[sttService] = await InworldGraphWrapper.create({
         apiKey: this.apiKey,
         llmModelName: this.llmModelName,
         llmProvider: this.llmProvider,
+        ...(variant && this.getLLMGraphProps(llmParams, variant.variantId)),
         voiceId: DEFAULT_VOICE_ID, // Default voice (overridden by TTSRequestBuilderNode)
         connections: this.connections,
+        sessionStore: this.sessionStore,
         withAudioInput: true,
         graphVisualizationEnabled: this.graphVisualizationEnabled,
         disableAutoInterruption: this.disableAutoInterruption,
         ttsModelId: this.ttsModelId,
         vadClient: this.vadClient,
-        useAssemblyAI: true,
-        assemblyAIApiKey: this.env.assemblyAIApiKey,
+        mockProviders: this.env.mockProviders,
+        summarizer: this.summarizer,
+        speakerSelector: this.speakerSelector,
+        sttProvider: createSTTProvider(
+          sttService as STTServiceType,
+          this.env.sttServices,
+        ),
       });
-      console.log('  ✓ Assembly.AI STT graph created');
+      console.log(`  ✓ ${sttService} STT graph created`);
     } else {
-      console.log(`  → Using Assembly.AI STT graph`);
+      console.log(`  → Using ${sttService} STT graph`);
+    }
+    return graphs[sttService];
+  }
+
+  /**
+   * STT services sessions can select with `sttService` at /load
+   */
+  getAvailableSTTServices(): string[] {
+    return getAvailableSTTServices(this.env.sttServices);
+  }
+
+  /**
+   * Get the text input graph for a session's LLM settings.
+   * Graphs for non-default settings are created lazily on first request.
+   */
+  async getGraphWithTextInput(
+    llmParams?: LLMParams,
+  ): Promise<InworldGraphWrapper> {
+    const variant = this.getLLMGraphVariant(llmParams);
+    if (!variant) {
+      return this.graphWithTextInput;
     }
-    return this.graphWithAudioInputAssemblyAI;
+
+    if (!variant.graphWithTextInput) {
+      console.log(
+        `  → Creating text input graph for LLM variant ${variant.variantId}...`,
+      );
+      variant.graphWithTextInput = await InworldGraphWrapper.create({
+        ...this.getLLMGraphProps(llmParams, variant.variantId),
+        voiceId: DEFAULT_VOICE_ID,
+        connections: this.connections,
+        sessionStore: this.sessionStore,
+        graphVisualizationEnabled: this.graphVisualizationEnabled,
+        disableAutoInterruption: this.disableAutoInterruption,
+        ttsModelId: this.ttsModelId,
+        vadClient: this.vadClient,
+        mockProviders: this.env.mockProviders,
+        summarizer: this.summarizer,
+        speakerSelector: this.speakerSelector,
+      });
+    }
+    return variant.graphWithTextInput;
+  }
+
+  /**
+   * Whether a session may switch to these LLM settings. Every distinct
+   * non-default configuration gets its own graphs, so their number is capped.
+   */
+  canUseLLMParams(llmParams?: LLMParams): boolean {
+    const key = this.getLLMVariantKey(llmParams);
+    return (
+      !key ||
+      !!this.llmGraphVariants[key] ||
+      Object.keys(this.llmGraphVariants).length < MAX_LLM_GRAPH_VARIANTS
+    );
+  }
+
+  /**
+   * Audio graphs created so far (they hold per-session STT connections)
+   */
+  getAudioGraphs(): InworldGraphWrapper[] {
+    return [
+      ...Object.values(this.graphsWithAudioInput),
+      ...Object.values(this.llmGraphVariants).flatMap((variant) =>
+        Object.values(variant.graphsWithAudioInput),
+      ),
+    ];
+  }
+
+  /**
+   * Key identifying the graphs for the given LLM settings, or undefined if
+   * they match the defaults
+   */
+  private getLLMVariantKey(llmParams?: LLMParams): string | undefined {
+    const { llmModelName, llmProvider, textGenerationConfig } =
+      this.getLLMGraphProps(llmParams);
+    const defaults = this.getLLMGraphProps();
+
+    const key = JSON.stringify({
+      llmModelName,
+      llmProvider,
+      ...textGenerationConfig,
+    });
+    const defaultKey = JSON.stringify({
+      llmModelName: defaults.llmModelName,
+      llmProvider: defaults.llmProvider,
+      ...defaults.textGenerationConfig,
+    });
+
+    return key === defaultKey ? undefined : key;
+  }
+
+  private getLLMGraphVariant(llmParams?: LLMParams) {
+    const key = this.getLLMVariantKey(llmParams);
+    if (!key) {
+      return undefined;
+    }
+
+    if (!this.llmGraphVariants[key]) {
+      if (!this.canUseLLMParams(llmParams)) {
+        throw new Error(
+          `Too many distinct LLM configurations (max ${MAX_LLM_GRAPH_VARIANTS})`,
+        );
+      }
+      this.llmGraphVariants[key] = {
+        variantId: String(Object.keys(this.llmGraphVariants).length + 1),
+        graphsWithAudioInput: {},
+      };
+    }
+    return this.llmGraphVariants[key];
+  }
+
+  private getLLMGraphProps(llmParams?: LLMParams, variantId?: string) {
+    return {
+      apiKey: this.apiKey,
+      llmModelName: llmParams?.modelName ?? this.llmModelName,
+      llmProvider: llmParams?.provider ?? this.llmProvider,
+      textGenerationConfig: toTextGenerationConfig(llmParams),
+      variantId,
+    };
   }
 
   async load(req: any, res: any) {
@@ -128,39 +400,254 @@ export class InworldApp {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const agent = {
-      ...req.body.agent,
-      id: v4(),
-    };
+    // The agent is sent inline or loaded from a stored profile, or several
+    // agents share the session
+    const { agentId, agentVersion } = req.body;
+    if (
+      [req.body.agent, agentId, req.body.agents].filter(
+        (value) => value !== undefined,
+      ).length !== 1
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'Send one of agent, agentId or agents' });
+    }
+
+    // Custom variables and the time zone of the system prompt template
+    const promptErrors: ConfigUpdateError[] = [];
+    const variables =
+      req.body.variables !== undefined
+        ? validatePromptVariables(req.body.variables, 'variables', promptErrors)
+        : undefined;
+    const timezone = req.body.timezone;
+    if (timezone !== undefined) {
+      validateTimezone(timezone, 'timezone', promptErrors);
+    }
+    if (promptErrors.length) {
+      return res.status(400).json({
+        error: 'Invalid prompt variables',
+        errors: promptErrors,
+      });
+    }
+    const promptScope = { userName: req.body.userName, variables, timezone };
+
+    let profile: AgentProfileVersion | undefined;
+    if (agentId !== undefined) {
+      profile = await this.agentRegistry.getVersion(agentId, agentVersion);
+      if (!profile) {
+        return res.status(404).json({
+          error: `Agent not found: ${agentId}${agentVersion !== undefined ? ` version ${agentVersion}` : ''}`,
+        });
+      }
+      if (!this.canUseLLMParams(profile.profile.llm)) {
+        return res.status(503).json({
+          error: `Too many distinct LLM configurations (max ${MAX_LLM_GRAPH_VARIANTS})`,
+        });
+      }
+    }
+
+    let agents: Agent[] | undefined;
+    let turnTaking: TurnTakingConfig | undefined;
+    if (req.body.agents !== undefined) {
+      agents = [];
+      for (const [index, member] of req.body.agents.entries()) {
+        let agent: Agent;
+        if (member.agentId !== undefined) {
+          agent = await this.loadProfileAgent(member);
+          if (!agent) {
+            return res.status(404).json({
+              error: `Agent not found: ${member.agentId}${member.agentVersion !== undefined ? ` version ${member.agentVersion}` : ''}`,
+            });
+          }
+        } else {
+          agent = { ...member, id: v4() };
+        }
+
+        const invalid = validateSessionAgent(
+          agent,
+          `agents[${index}]`,
+          promptScope,
+        );
+        if (invalid) {
+          return res.status(400).json(invalid);
+        }
+        agents.push(agent);
+      }
+
+      // Agents are told apart, and addressed, by name
+      const names = agents.map((agent) =>
+        typeof agent.name === 'string' ? agent.name.trim().toLowerCase() : '',
+      );
+      if (names.some((name, index) => !name || names.indexOf(name) !== index)) {
+        return res
+          .status(400)
+          .json({ error: 'Agents must have distinct names' });
+      }
+    }
+
+    if (req.body.turnTaking !== undefined) {
+      const turnTakingErrors: ConfigUpdateError[] = [];
+      turnTaking = validateTurnTaking(
+        req.body.turnTaking,
+        'turnTaking',
+        turnTakingErrors,
+      );
+      if (!agents) {
+        turnTakingErrors.push({
+          field: 'turnTaking',
+          message: 'only applies to sessions with agents',
+        });
+      }
+      if (turnTakingErrors.length) {
+        return res.status(400).json({
+          error: 'Invalid turnTaking',
+          errors: turnTakingErrors,
+        });
+      }
+    }
+
+    // The first agent starts, until a user message picks one
+    const agent = agents
+      ? agents[0]
+      : {
+          ...(profile ? toSessionAgent(agentId, profile) : req.body.agent),
+          id: v4(),
+        };
+    if (!agents) {
+      const invalid = validateSessionAgent(agent, 'agent', promptScope);
+      if (invalid) {
+        return res.status(400).json(invalid);
+      }
+    }
+
+    // Agent profiles the session can be handed off to, with the first agent
+    // if it comes from a profile so that the session can go back to it
+    let handoff: HandoffState | undefined;
+    if (req.body.handoff !== undefined) {
+      if (agents) {
+        return res.status(400).json({
+          error: 'handoff only applies to sessions with a single agent',
+        });
+      }
+      const handoffAgents: Agent[] = profile ? [agent] : [];
+      for (const [index, target] of req.body.handoff.agents.entries()) {
+        if (handoffAgents.some((a) => a.profileId === target.agentId)) {
+          continue;
+        }
+        const handoffAgent = await this.loadProfileAgent(target);
+        if (!handoffAgent) {
+          return res.status(404).json({
+            error: `Agent not found: ${target.agentId}${target.agentVersion !== undefined ? ` version ${target.agentVersion}` : ''}`,
+          });
+        }
+        const invalid = validateSessionAgent(
+          handoffAgent,
+          `handoff.agents[${index}]`,
+          promptScope,
+        );
+        if (invalid) {
+          return res.status(400).json(invalid);
+        }
+        handoffAgents.push(handoffAgent);
+      }
+
+      const handoffErrors: ConfigUpdateError[] = [];
+      const config = validateHandoff(
+        req.body.handoff,
+        handoffAgents.map((a) => a.profileId),
+        'handoff',
+        handoffErrors,
+      );
+      if (handoffErrors.length) {
+        return res.status(400).json({
+          error: 'Invalid handoff',
+          errors: handoffErrors,
+        });
+      }
+      handoff = { agents: handoffAgents, ...config };
+    }
+
+    const promptContext = { ...promptScope, agent };
+
+    // The profile's first message, shown before the user says anything
+    let greeting: string | undefined;
+    if (profile?.profile.greeting !== undefined) {
+      const greetingErrors: ConfigUpdateError[] = [];
+      if (
+        !validatePromptTemplate(
+          profile.profile.greeting,
+          promptContext,
+          'greeting',
+          greetingErrors,
+        )
+      ) {
+        return res.status(400).json({
+          error: 'Invalid greeting',
+          errors: greetingErrors,
+        });
+      }
+      greeting = renderPromptTemplate(profile.profile.greeting, promptContext);
+    }
 
     const sessionId = req.query.sessionId;
     const systemMessageId = v4();
-    const sttService = req.body.sttService || 'assemblyai'; // Default to Assembly.AI
+    const sttService = req.body.sttService || this.env.defaultSTTService;
 
     // Validate STT service availability BEFORE creating session
-    if (sttService !== 'assemblyai') {
+    const availableServices = this.getAvailableSTTServices();
+    if (!availableServices.includes(sttService)) {
       return res.status(400).json({
-        error: `Only Assembly.AI STT is supported`,
-        availableServices: ['assemblyai'],
+        error: `STT service ${sttService} is not available`,
+        availableServices,
         requestedService: sttService,
       });
     }
 
-    if (!this.env.assemblyAIApiKey) {
-      return res.status(400).json({
-        error: `Assembly.AI STT requested but ASSEMBLY_AI_API_KEY is not configured`,
-        availableServices: ['assemblyai'],
-        requestedService: sttService,
-      });
+    // Audio the client will stream, decoded and resampled for STT
+    let inputAudioFormat = DEFAULT_INPUT_AUDIO_FORMAT;
+    if (req.body.inputAudioFormat !== undefined) {
+      const format = validateAudioFormat(
+        req.body.inputAudioFormat,
+        'inputAudioFormat',
+      );
+      if (format.ok === false) {
+        return res
+          .status(400)
+          .json({ error: format.error, errors: format.errors });
+      }
+      inputAudioFormat = format.message;
+    }
+
+    // Audio the TTS output is transcoded to
+    let outputAudioFormat = DEFAULT_OUTPUT_AUDIO_FORMAT;
+    if (req.body.outputAudioFormat !== undefined) {
+      const format = validateOutputAudioFormat(
+        req.body.outputAudioFormat,
+        'outputAudioFormat',
+      );
+      if (format.ok === false) {
+        return res
+          .status(400)
+          .json({ error: format.error, errors: format.errors });
+      }
+      outputAudioFormat = format.message;
     }
 
     // Get voice from client request (set by template selection)
-    // Falls back to DEFAULT_VOICE_ID only if client doesn't send one
-    // The client should always send a voiceId from template selection
+    // Falls back to the profile's voice, then to DEFAULT_VOICE_ID
     // Store voice in session state for TTSRequestBuilderNode to use
     const sessionVoiceId = req.body.voiceId !== undefined && req.body.voiceId !== null 
       ? req.body.voiceId 
-      : DEFAULT_VOICE_ID;
+      : (profile?.profile.voiceId ?? DEFAULT_VOICE_ID);
+
+    // Loading over an existing session would hand out a token for it and
+    // orphan its socket, STT stream and recorder
+    const stored = await this.sessionStore.get(sessionId);
+    if (stored || this.connections[sessionId]) {
+      return res
+        .status(409)
+        .json({ error: `Session already exists for sessionId: ${sessionId}` });
+    }
 
     this.connections[sessionId] = {
       state: {
@@ -168,26 +655,144 @@ export class InworldApp {
         messages: [
           {
             role: 'system',
-            content: this.createSystemMessage(agent, req.body.userName),
+            content: createSystemMessage(promptContext),
             id: 'system' + systemMessageId,
           },
+          ...(greeting !== undefined
+            ? [
+                {
+                  role: 'assistant',
+                  content: greeting,
+                  id: systemMessageId,
+                  createdAt: Date.now(),
+                },
+              ]
+            : []),
         ],
         agent,
+        agents,
+        turnTaking,
+        handoff,
         userName: req.body.userName,
+        variables,
+        timezone,
         voiceId: sessionVoiceId, // TTSRequestBuilderNode reads this for dynamic voice selection
+        ttsParams: profile?.profile.tts,
+        llmParams: profile?.profile.llm,
       },
-      ws: null,
+      outbox: new SessionOutbox(this.env.replayBufferSize),
       sttService, // Store STT service choice for this session
+      inputAudioFormat,
+      outputAudioFormat,
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+      recorder: this.createRecorder(sessionId),
     };
 
-    res.end(JSON.stringify({ agent }));
+    await saveConnection(
+      this.sessionStore,
+      sessionId,
+      this.connections[sessionId],
+    );
+
+    // The client opens the session WebSocket with this token
+    const sessionToken = this.authenticator?.issueSessionToken(
+      sessionId,
+      PARTICIPANT_ROLE.CONTROLLER,
+    );
+
+    res.end(
+      JSON.stringify({
+        agent: describeSessionAgent(agent),
+        agents: agents?.map(describeSessionAgent),
+        handoffAgents: handoff?.agents.map(describeSessionAgent),
+        greeting,
+        inputAudioFormat,
+        outputAudioFormat,
+        sessionToken: sessionToken?.token,
+        sessionTokenExpiresAt: sessionToken?.expiresAt,
+      }),
+    );
   }
 
-  private createSystemMessage(agent: any, userName: string) {
-    return agent.systemPrompt.replace('{userName}', userName);
+  /**
+   * A session agent for an agent profile, with a voice of its own: the
+   * given one, else the profile's. Undefined if the profile version doesn't
+   * exist. Greetings and LLM settings of the profile are not used.
+   */
+  private async loadProfileAgent(member: {
+    agentId: string;
+    agentVersion?: number;
+    voiceId?: string;
+  }): Promise<Agent | undefined> {
+    const version = await this.agentRegistry.getVersion(
+      member.agentId,
+      member.agentVersion,
+    );
+    if (!version) {
+      return undefined;
+    }
+    return {
+      ...toSessionAgent(member.agentId, version),
+      id: v4(),
+      voiceId: member.voiceId ?? version.profile.voiceId,
+    };
   }
 
-  unload(req: any, res: any) {
+  /**
+   * Make sure a session is present in memory, restoring it from the
+   * session store if needed (e.g. after a server restart or after the
+   * lifecycle manager released a disconnected session).
+   * Returns false if the session is unknown or ended.
+   */
+  async restoreConnection(sessionId: string): Promise<boolean> {
+    if (this.connections[sessionId]) {
+      return !this.connections[sessionId].unloaded;
+    }
+
+    const stored = await this.sessionStore?.get(sessionId);
+    if (!stored || stored.endedAt) {
+      return false;
+    }
+
+    this.connections[sessionId] = {
+      state: stored.state,
+      outbox: new SessionOutbox(this.env.replayBufferSize),
+      sttService: stored.sttService,
+      inputAudioFormat: stored.inputAudioFormat,
+      outputAudioFormat: stored.outputAudioFormat,
+      createdAt: stored.createdAt,
+      lastActivityAt: Date.now(),
+      recorder: this.createRecorder(sessionId),
+    };
+    console.log(
+      `[Session ${sessionId}] Restored from session store (${stored.state.messages.length} messages)`,
+    );
+
+    return true;
+  }
+
+  /**
+   * State of an active, disconnected or recently ended session, without
+   * restoring it. Ended sessions remain readable until the transcript TTL
+   * passes.
+   */
+  async getSessionState(sessionId: string): Promise<State | undefined> {
+    if (this.connections[sessionId]) {
+      return this.connections[sessionId].state;
+    }
+
+    const stored = await this.sessionStore?.get(sessionId);
+    return stored?.state;
+  }
+
+  private createRecorder(sessionId: string): SessionRecorder | undefined {
+    return this.recordingsPath
+      ? new SessionRecorder(sessionId, this.recordingsPath)
+      : undefined;
+  }
+
+  async unload(req: any, res: any) {
     res.setHeader('Content-Type', 'application/json');
 
     const errors = validationResult(req);
@@ -197,26 +802,61 @@ export class InworldApp {
     }
 
     const sessionId = req.query.sessionId;
-
-    // Check if connection exists before trying to set property
-    if (!this.connections[sessionId]) {
+    const connection = this.connections[sessionId];
+
+    // The stored state is kept, marked ended, for the session's transcript
+    if (connection) {
+      this.sessionLifecycleManager.markUnloaded(sessionId);
+      await saveConnection(this.sessionStore, sessionId, connection);
+      await connection.recorder?.save();
+    } else if (!(await markSessionEnded(this.sessionStore, sessionId))) {
       return res
         .status(404)
         .json({ error: `Session not found for sessionId: ${sessionId}` });
     }
 
-    this.connections[sessionId].unloaded = true;
-
     res.end(JSON.stringify({ message: 'Session unloaded' }));
   }
 
-  shutdown() {
+  async shutdown() {
+    this.sessionLifecycleManager?.stop();
+    await Promise.all(
+      Object.values(this.connections).map((connection) =>
+        connection.recorder?.save(),
+      ),
+    );
     this.connections = {};
-    this.graphWithTextInput.destroy();
-
-    // Destroy audio graph if it was created
-    this.graphWithAudioInputAssemblyAI?.destroy();
+    await this.sessionStore?.close();
+    await this.agentRegistry?.close();
+    await this.summarizer?.destroy();
+    await this.speakerSelector?.destroy();
+
+    // Every graph that was created, including audio graphs and LLM variants,
+    // is torn down before the runtime stops
+    await Promise.all(
+      [
+        this.graphWithTextInput,
+        ...this.getAudioGraphs(),
+        ...Object.values(this.llmGraphVariants).map(
+          (variant) => variant.graphWithTextInput,
+        ),
+      ]
+        .filter(Boolean)
+        .map((graph) =>
+          graph
+            .destroy()
+            .catch((error) => console.error('Failed to destroy graph:', error)),
+        ),
+    );
 
     stopInworldRuntime();
   }
 }
+
+// An agent as returned by /load
+function describeSessionAgent(agent: Agent) {
+  return {
+    ...agent,
+    documents: agent.documents?.map(describeKnowledgeDocument),
+  };
+}
@@ -0,0 +1,422 @@
+import OpusScript = require('opusscript');
+
+import { INPUT_SAMPLE_RATE, TTS_SAMPLE_RATE } from '../../constants';
+import {
+  AUDIO_CONTAINER,
+  AUDIO_ENCODING,
+  AudioFormat,
+  OutputAudioFormat,
+} from '../../protocol';
+
+// What the browser client sends unless it declares otherwise
+export const DEFAULT_INPUT_AUDIO_FORMAT: AudioFormat = {
+  encoding: AUDIO_ENCODING.PCM_F32LE,
+  sampleRate: INPUT_SAMPLE_RATE,
+};
+
+// What the TTS node produces, sent as is unless the session asks otherwise
+export const DEFAULT_OUTPUT_AUDIO_FORMAT: OutputAudioFormat = {
+  encoding: AUDIO_ENCODING.PCM_F32LE,
+  sampleRate: TTS_SAMPLE_RATE,
+};
+
+export const isSameAudioFormat = (a: AudioFormat, b: AudioFormat) =>
+  a.encoding === b.encoding && a.sampleRate === b.sampleRate;
+
+/**
+ * Resampler converts a stream of chunks between sample rates with linear
+ * interpolation, which is good enough for speech. It keeps its position
+ * across chunks so there are no discontinuities at chunk boundaries.
+ */
+export class Resampler {
+  // Read position relative to the current chunk, where 0 is the last
+  // sample of the previous chunk
+  private position = 1;
+  private lastSample = 0;
+
+  constructor(
+    readonly fromRate: number,
+    readonly toRate: number,
+  ) {}
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate || !input.length) {
+      return input;
+    }
+
+    const step = this.fromRate / this.toRate;
+    const output = new Float32Array(
+      Math.max(0, Math.ceil((input.length - this.position) / step)),
+    );
+
+    let position = this.position;
+    for (let i = 0; i < output.length; i++, position += step) {
+      const index = Math.floor(position);
+      const previous = index === 0 ? this.lastSample : input[index - 1];
+      output[i] = previous + (input[index] - previous) * (position - index);
+    }
+
+    this.position = position - input.length;
+    this.lastSample = input[input.length - 1];
+    return output;
+  }
+}
+
+/**
+ * AudioInputDecoder turns a session's input audio, in the format the client
+ * declared, into Float32 samples at the rate the STT node expects.
+ * Opus decoding is stateful, so there is one decoder per audio stream.
+ */
+export class AudioInputDecoder {
+  private resampler: Resampler;
+  private opus?: OpusScript;
+
+  constructor(
+    readonly format: AudioFormat,
+    targetSampleRate: number = INPUT_SAMPLE_RATE,
+  ) {
+    this.resampler = new Resampler(format.sampleRate, targetSampleRate);
+    if (format.encoding === AUDIO_ENCODING.OPUS) {
+      this.opus = new OpusScript(
+        format.sampleRate as ConstructorParameters<typeof OpusScript>[0],
+        1,
+      );
+    }
+  }
+
+  /**
+   * Decode encoded audio (binary frames)
+   */
+  decode(data: Uint8Array): Float32Array {
+    return this.resampler.process(this.toSamples(data));
+  }
+
+  /**
+   * Resample Float32 samples at the declared rate (JSON audio messages)
+   */
+  resample(samples: Float32Array): Float32Array {
+    return this.resampler.process(samples);
+  }
+
+  destroy() {
+    this.opus?.delete();
+    this.opus = undefined;
+  }
+
+  private toSamples(data: Uint8Array): Float32Array {
+    switch (this.format.encoding) {
+      case AUDIO_ENCODING.PCM_F32LE: {
+        const bytes = aligned(data);
+        return new Float32Array(
+          bytes.buffer,
+          bytes.byteOffset,
+          bytes.byteLength / Float32Array.BYTES_PER_ELEMENT,
+        );
+      }
+
+      case AUDIO_ENCODING.PCM_S16LE:
+        return int16ToFloat32(data);
+
+      case AUDIO_ENCODING.MULAW:
+        return expand(data, MULAW_TABLE);
+
+      case AUDIO_ENCODING.ALAW:
+        return expand(data, ALAW_TABLE);
+
+      case AUDIO_ENCODING.OPUS:
+        // Decodes to Int16 PCM
+        return int16ToFloat32(
+          this.opus!.decode(
+            Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+          ),
+        );
+    }
+  }
+}
+
+// Opus only encodes whole frames
+const OPUS_FRAME_DURATION_MS = 20;
+
+/**
+ * AudioOutputEncoder turns the Float32 samples of a TTS stream into the
+ * output format the session requested.
+ * Resampling and Opus encoding are stateful, so there is one encoder per TTS
+ * stream. Opus frames are buffered until complete; flush() encodes what's
+ * left at the end of the stream.
+ */
+export class AudioOutputEncoder {
+  private resampler: Resampler;
+  private opus?: OpusScript;
+  private opusFrameSize = 0;
+  private pending = new Int16Array(0);
+
+  constructor(
+    readonly format: OutputAudioFormat,
+    sourceSampleRate: number = TTS_SAMPLE_RATE,
+  ) {
+    this.resampler = new Resampler(sourceSampleRate, format.sampleRate);
+    if (format.encoding === AUDIO_ENCODING.OPUS) {
+      this.opus = new OpusScript(
+        format.sampleRate as ConstructorParameters<typeof OpusScript>[0],
+        1,
+        OpusScript.Application.AUDIO,
+      );
+      this.opusFrameSize = (format.sampleRate * OPUS_FRAME_DURATION_MS) / 1000;
+    }
+  }
+
+  /**
+   * Encode a chunk of Float32 sample bytes. May be empty while Opus frames
+   * are incomplete.
+   */
+  encode(data: Uint8Array): Uint8Array {
+    const bytes = aligned(data);
+    const resampled = this.resampler.process(
+      new Float32Array(
+        bytes.buffer,
+        bytes.byteOffset,
+        bytes.byteLength / Float32Array.BYTES_PER_ELEMENT,
+      ),
+    );
+    return this.format.encoding === AUDIO_ENCODING.OPUS
+      ? this.encodeOpus(float32ToInt16(resampled))
+      : this.frame(toBytes(resampled, this.format.encoding));
+  }
+
+  /**
+   * Encode the buffered Opus samples, padded with silence to a whole frame.
+   * Returns undefined if there is nothing left.
+   */
+  flush(): Uint8Array | undefined {
+    if (!this.opus || !this.pending.length) {
+      return undefined;
+    }
+
+    const padding = this.opusFrameSize - this.pending.length;
+    return this.encodeOpus(new Int16Array(padding));
+  }
+
+  destroy() {
+    this.opus?.delete();
+    this.opus = undefined;
+  }
+
+  private encodeOpus(pcm: Int16Array): Uint8Array {
+    const samples = new Int16Array(this.pending.length + pcm.length);
+    samples.set(this.pending);
+    samples.set(pcm, this.pending.length);
+
+    const packets: Uint8Array[] = [];
+    let offset = 0;
+    while (offset + this.opusFrameSize <= samples.length) {
+      const frame = samples.subarray(offset, (offset += this.opusFrameSize));
+      packets.push(
+        this.opus!.encode(
+          Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength),
+          this.opusFrameSize,
+        ),
+      );
+    }
+    this.pending = samples.slice(offset);
+
+    // Each packet is prefixed with its length
+    const output = new Uint8Array(
+      packets.reduce((length, packet) => length + 2 + packet.length, 0),
+    );
+    const view = new DataView(output.buffer);
+    let position = 0;
+    for (const packet of packets) {
+      view.setUint16(position, packet.length, true);
+      output.set(packet, position + 2);
+      position += 2 + packet.length;
+    }
+    return output;
+  }
+
+  private frame(data: Uint8Array): Uint8Array {
+    if (this.format.container !== AUDIO_CONTAINER.WAV) {
+      return data;
+    }
+
+    const header = wavHeader(this.format, data.byteLength);
+    const file = new Uint8Array(header.byteLength + data.byteLength);
+    file.set(header);
+    file.set(data, header.byteLength);
+    return file;
+  }
+}
+
+function toBytes(samples: Float32Array, encoding: AUDIO_ENCODING): Uint8Array {
+  switch (encoding) {
+    case AUDIO_ENCODING.PCM_F32LE:
+      return new Uint8Array(
+        samples.buffer,
+        samples.byteOffset,
+        samples.byteLength,
+      );
+
+    case AUDIO_ENCODING.PCM_S16LE: {
+      const pcm = float32ToInt16(samples);
+      return new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    }
+
+    case AUDIO_ENCODING.MULAW:
+      return compress(samples, linearToMulaw);
+
+    case AUDIO_ENCODING.ALAW:
+      return compress(samples, linearToAlaw);
+
+    default:
+      throw new Error(`Cannot convert samples to ${encoding}`);
+  }
+}
+
+// WAV format tags and bits per sample of the encodings that can be framed
+const WAV_FORMATS: {
+  [encoding in AUDIO_ENCODING]?: { tag: number; bits: number };
+} = {
+  [AUDIO_ENCODING.PCM_S16LE]: { tag: 1, bits: 16 },
+  [AUDIO_ENCODING.PCM_F32LE]: { tag: 3, bits: 32 },
+  [AUDIO_ENCODING.ALAW]: { tag: 6, bits: 8 },
+  [AUDIO_ENCODING.MULAW]: { tag: 7, bits: 8 },
+};
+
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * Header of a mono WAV file holding dataLength bytes of audio
+ */
+export function wavHeader(
+  format: AudioFormat,
+  dataLength: number,
+): Uint8Array {
+  const { tag, bits } = WAV_FORMATS[format.encoding]!;
+  const blockAlign = bits / 8;
+
+  const header = new Uint8Array(WAV_HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  const writeTag = (offset: number, value: string) =>
+    header.set(Buffer.from(value, 'ascii'), offset);
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, WAV_HEADER_SIZE - 8 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, tag, true);
+  view.setUint16(22, 1, true); // Channels
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint32(28, format.sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bits, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+  return header;
+}
+
+function float32ToInt16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.round(samples[i] * 0x8000);
+    pcm[i] = Math.max(-0x8000, Math.min(0x7fff, value));
+  }
+  return pcm;
+}
+
+function compress(
+  samples: Float32Array,
+  encode: (pcm: number) => number,
+): Uint8Array {
+  const pcm = float32ToInt16(samples);
+  const data = new Uint8Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    data[i] = encode(pcm[i]);
+  }
+  return data;
+}
+
+// G.711 compression of a 16-bit sample, as in the ITU reference code
+
+function linearToMulaw(pcm: number): number {
+  const mask = pcm < 0 ? 0x7f : 0xff;
+  const magnitude = Math.min(Math.abs(pcm >> 2), 8159) + 0x21;
+  const segment = segmentOf(magnitude, 0x3f);
+  if (segment >= 8) {
+    return 0x7f ^ mask;
+  }
+  return ((segment << 4) | ((magnitude >> (segment + 1)) & 0x0f)) ^ mask;
+}
+
+function linearToAlaw(pcm: number): number {
+  let value = pcm >> 3;
+  const mask = value >= 0 ? 0xd5 : 0x55;
+  if (value < 0) {
+    value = -value - 1;
+  }
+  const segment = segmentOf(value, 0x1f);
+  if (segment >= 8) {
+    return 0x7f ^ mask;
+  }
+  const shift = segment < 2 ? 1 : segment;
+  return ((segment << 4) | ((value >> shift) & 0x0f)) ^ mask;
+}
+
+// Index of the first segment whose end (firstEnd doubled at each segment)
+// is at least value
+function segmentOf(value: number, firstEnd: number): number {
+  let segment = 0;
+  for (let end = firstEnd; segment < 8 && value > end; end = end * 2 + 1) {
+    segment++;
+  }
+  return segment;
+}
+
+function int16ToFloat32(data: Uint8Array): Float32Array {
+  const bytes = aligned(data);
+  const pcm = new Int16Array(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength / Int16Array.BYTES_PER_ELEMENT,
+  );
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 0x8000;
+  }
+  return samples;
+}
+
+function expand(data: Uint8Array, table: Float32Array): Float32Array {
+  const samples = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    samples[i] = table[data[i]];
+  }
+  return samples;
+}
+
+// Typed arrays need an aligned offset, copy the bytes when it isn't
+// (not with slice(), which doesn't copy Buffers)
+function aligned(data: Uint8Array): Uint8Array {
+  return data.byteOffset % Float32Array.BYTES_PER_ELEMENT
+    ? new Uint8Array(data)
+    : data;
+}
+
+// G.711 expansion tables, indexed by the encoded byte
+
+const MULAW_TABLE = Float32Array.from({ length: 256 }, (_, byte) => {
+  const value = ~byte & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const magnitude = ((((value & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return (value & 0x80 ? -magnitude : magnitude) / 0x8000;
+});
+
+const ALAW_TABLE = Float32Array.from({ length: 256 }, (_, byte) => {
+  const value = byte ^ 0x55;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const magnitude =
+    exponent === 0
+      ? (mantissa << 4) + 8
+      : ((mantissa << 4) + 0x108) << (exponent - 1);
+  return (value & 0x80 ? magnitude : -magnitude) / 0x8000;
+});
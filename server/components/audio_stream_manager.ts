@@ -1,5 +1,3 @@
-import { AudioChunkInterface } from '@inworld/runtime/common';
-
 /**
  * Manages a stream of audio chunks that can be fed asynchronously
  * as data arrives from websocket connections.
@@ -11,9 +9,14 @@ import { AudioChunkInterface } from '@inworld/runtime/common';
 // Type for plain audio objects expected by the framework
 type PlainAudioChunk = {
   _iw_type: 'Audio';
-  data: { data: number[]; sampleRate: number };
+  data: { data: Float32Array; sampleRate: number };
 };
 
+export interface AudioSamplesChunk {
+  data: Float32Array;
+  sampleRate: number;
+}
+
 export class AudioStreamManager {
   private queue: PlainAudioChunk[] = [];
   private waitingResolvers: Array<
@@ -21,19 +24,26 @@ export class AudioStreamManager {
   > = [];
   private ended = false;
 
+  /**
+   * @param onChunk Taps the chunks pushed to the stream, e.g. to record them
+   */
+  constructor(private onChunk?: (chunk: AudioSamplesChunk) => void) {}
+
   /**
    * Add an audio chunk to the stream
    */
-  pushChunk(chunk: AudioChunkInterface): void {
+  pushChunk(chunk: AudioSamplesChunk): void {
     if (this.ended) {
       return;
     }
+    this.onChunk?.(chunk);
 
-    // Create plain audio object matching framework expectations
+    // Create plain audio object matching framework expectations. The
+    // framework accepts typed arrays, so the samples are passed without a copy
     const audioData: PlainAudioChunk = {
       _iw_type: 'Audio',
       data: {
-        data: Array.isArray(chunk.data) ? chunk.data : Array.from(chunk.data),
+        data: chunk.data,
         sampleRate: chunk.sampleRate,
       },
     };
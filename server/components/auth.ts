@@ -0,0 +1,354 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+import { PARTICIPANT_ROLE } from '../types';
+
+export enum AUTH_SCOPE {
+  CHAT = 'chat', // Create and use chat sessions, generate characters
+  VOICE_CLONE = 'voice-clone', // Clone voices
+  ADMIN = 'admin', // Session stats, token issuing, observing sessions
+  AGENTS = 'agents', // Create, edit and delete agent profiles
+}
+
+export const AUTH_SCOPES = Object.values(AUTH_SCOPE);
+
+export interface ApiKeyConfig {
+  key: string;
+  scopes: AUTH_SCOPE[];
+}
+
+export interface AuthConfig {
+  /** Authentication is enforced only if API keys or a token secret are configured */
+  enabled: boolean;
+  apiKeys: ApiKeyConfig[];
+  /** HMAC secret used to sign bearer and session tokens */
+  tokenSecret?: string;
+  sessionTokenTtlMs: number;
+  /** Expired session tokens still open read-only session routes this long */
+  sessionTokenReadGraceMs: number;
+  accessTokenTtlMs: number;
+  maxAccessTokenTtlMs: number;
+}
+
+export interface AuthPrincipal {
+  subject: string;
+  scopes: AUTH_SCOPE[];
+  /** API keys are shared by every client of an app, tokens are per user */
+  credential: 'api-key' | 'token';
+  /** Expiry of the access token, undefined for API keys */
+  expiresAt?: number;
+}
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: number;
+}
+
+interface TokenClaims {
+  typ: 'access' | 'session';
+  exp: number;
+  // Access tokens
+  sub?: string;
+  scopes?: AUTH_SCOPE[];
+  // Session tokens
+  sid?: string;
+  role?: PARTICIPANT_ROLE;
+}
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403,
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Authenticator verifies API keys and HMAC-signed tokens.
+ *
+ * - HTTP routes accept an API key (`X-API-Key` or `Authorization: Bearer`)
+ *   or a signed access token (`Authorization: Bearer`) carrying scopes
+ * - `/load` issues a short-lived session token bound to the session and
+ *   participant role, which the WebSocket upgrade verifies
+ * - Routes of one session (`requireSessionAccess`) accept its controller
+ *   session token (`X-Session-Token`), or credentials with the admin scope.
+ *   Read-only routes accept tokens that expired within the read grace, so
+ *   the transcript of an ended session can still be fetched by its owner.
+ *
+ * Tokens are `<base64url claims>.<base64url HMAC-SHA256 signature>`.
+ */
+export class Authenticator {
+  private tokenSecret: Buffer;
+  private apiKeyDigests: { digest: Buffer; principal: AuthPrincipal }[];
+
+  constructor(private config: AuthConfig) {
+    if (config.enabled && !config.tokenSecret) {
+      console.warn(
+        '⚠️ AUTH_TOKEN_SECRET is not set: using a random secret, session tokens will not survive a restart',
+      );
+    }
+    this.tokenSecret = config.tokenSecret
+      ? Buffer.from(config.tokenSecret)
+      : randomBytes(32);
+
+    this.apiKeyDigests = config.apiKeys.map(({ key, scopes }) => {
+      const digest = sha256(key);
+      return {
+        digest,
+        principal: {
+          subject: `api-key:${digest.toString('hex').slice(0, 8)}`,
+          scopes,
+          credential: 'api-key',
+        },
+      };
+    });
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get sessionTokenTtlMs(): number {
+    return this.config.sessionTokenTtlMs;
+  }
+
+  /**
+   * Express middleware that lets the request through only if its
+   * credentials carry the scope. The principal is stored in res.locals.auth.
+   */
+  requireScope(scope: AUTH_SCOPE) {
+    return (req: any, res: any, next: () => void) => {
+      if (!this.enabled) {
+        return next();
+      }
+
+      try {
+        const principal = this.authenticate(req.headers);
+        if (!principal.scopes.includes(scope)) {
+          throw new AuthError(`Missing required scope: ${scope}`, 403);
+        }
+        res.locals.auth = principal;
+        next();
+      } catch (error) {
+        sendAuthError(res, error);
+      }
+    };
+  }
+
+  /**
+   * Express middleware for the routes of one session: lets the request
+   * through with a controller token of the session in `X-Session-Token`,
+   * or with credentials carrying the admin scope
+   */
+  requireSessionAccess(
+    getSessionId: (req: any) => string | undefined,
+    { readOnly = false }: { readOnly?: boolean } = {},
+  ) {
+    return (req: any, res: any, next: () => void) => {
+      if (!this.enabled) {
+        return next();
+      }
+
+      try {
+        const sessionToken = req.headers['x-session-token'];
+        if (sessionToken) {
+          this.verifySessionToken(
+            Array.isArray(sessionToken) ? sessionToken[0] : sessionToken,
+            getSessionId(req),
+            PARTICIPANT_ROLE.CONTROLLER,
+            readOnly ? this.config.sessionTokenReadGraceMs : 0,
+          );
+          return next();
+        }
+
+        const principal = this.authenticate(req.headers);
+        if (!principal.scopes.includes(AUTH_SCOPE.ADMIN)) {
+          throw new AuthError(
+            `A session token or the ${AUTH_SCOPE.ADMIN} scope is required`,
+            403,
+          );
+        }
+        res.locals.auth = principal;
+        next();
+      } catch (error) {
+        sendAuthError(res, error);
+      }
+    };
+  }
+
+  /**
+   * Resolve the principal from the request headers
+   */
+  authenticate(headers: IncomingHttpHeaders): AuthPrincipal {
+    const apiKeyHeader = headers['x-api-key'];
+    const credential =
+      (Array.isArray(apiKeyHeader) ? apiKeyHeader[0] : apiKeyHeader) ??
+      getBearerToken(headers.authorization);
+
+    if (!credential) {
+      throw new AuthError('Missing credentials', 401);
+    }
+
+    // Signed tokens contain a dot, API keys are opaque
+    if (credential.includes('.')) {
+      const claims = this.verify(credential, 'access');
+      return {
+        subject: claims.sub ?? 'token',
+        scopes: claims.scopes ?? [],
+        credential: 'token',
+        expiresAt: claims.exp,
+      };
+    }
+
+    const digest = sha256(credential);
+    const match = this.apiKeyDigests.find((entry) =>
+      timingSafeEqual(entry.digest, digest),
+    );
+    if (!match) {
+      throw new AuthError('Invalid API key', 401);
+    }
+    return match.principal;
+  }
+
+  /**
+   * Issue a bearer token carrying a subset of the issuer's scopes. The token
+   * expires no later than the issuer's own token.
+   */
+  issueAccessToken(
+    issuer: AuthPrincipal,
+    subject: string,
+    scopes: AUTH_SCOPE[],
+    ttlMs: number = this.config.accessTokenTtlMs,
+  ): IssuedToken {
+    const missing = scopes.filter((scope) => !issuer.scopes.includes(scope));
+    if (missing.length) {
+      throw new AuthError(
+        `Cannot issue scopes the caller doesn't hold: ${missing.join(', ')}`,
+        403,
+      );
+    }
+
+    const expiresAt = Math.min(
+      Date.now() + Math.min(ttlMs, this.config.maxAccessTokenTtlMs),
+      issuer.expiresAt ?? Infinity,
+    );
+    return {
+      token: this.sign({ typ: 'access', sub: subject, scopes, exp: expiresAt }),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Issue a token that lets a client open a WebSocket for the session with
+   * the given role. Returns undefined when authentication is disabled.
+   */
+  issueSessionToken(
+    sessionId: string,
+    role: PARTICIPANT_ROLE,
+  ): IssuedToken | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const expiresAt = Date.now() + this.config.sessionTokenTtlMs;
+    return {
+      token: this.sign({
+        typ: 'session',
+        sid: sessionId,
+        role,
+        exp: expiresAt,
+      }),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Check that the token grants access to the session with the given role.
+   * Tokens that expired less than expiredGraceMs ago are accepted.
+   */
+  verifySessionToken(
+    token: string | undefined,
+    sessionId: string | undefined,
+    role: string,
+    expiredGraceMs = 0,
+  ) {
+    if (!this.enabled) {
+      return;
+    }
+    if (!token) {
+      throw new AuthError('Missing session token', 401);
+    }
+
+    const claims = this.verify(token, 'session', expiredGraceMs);
+    if (claims.sid !== sessionId) {
+      throw new AuthError('Session token is for another session', 403);
+    }
+    if (claims.role !== role) {
+      throw new AuthError(`Session token does not allow role: ${role}`, 403);
+    }
+  }
+
+  private sign(claims: TokenClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.signature(payload).toString('base64url')}`;
+  }
+
+  private verify(
+    token: string,
+    type: TokenClaims['typ'],
+    expiredGraceMs = 0,
+  ): TokenClaims {
+    const [payload, signature, ...rest] = token.split('.');
+    const expected = this.signature(payload ?? '');
+    const actual = Buffer.from(signature ?? '', 'base64url');
+
+    if (
+      rest.length ||
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new AuthError('Invalid token signature', 401);
+    }
+
+    let claims: TokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+      throw new AuthError('Malformed token', 401);
+    }
+
+    if (claims.typ !== type) {
+      throw new AuthError(`Expected a ${type} token`, 401);
+    }
+    if (!(claims.exp + expiredGraceMs > Date.now())) {
+      throw new AuthError('Token expired', 401);
+    }
+
+    return claims;
+  }
+
+  private signature(payload: string): Buffer {
+    return createHmac('sha256', this.tokenSecret).update(payload).digest();
+  }
+}
+
+function sendAuthError(res: any, error: unknown) {
+  if (!(error instanceof AuthError)) {
+    throw error;
+  }
+  if (error.status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  res.status(error.status).json({ error: error.message });
+}
+
+export function getBearerToken(authorization?: string): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1].trim();
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
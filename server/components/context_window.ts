@@ -0,0 +1,288 @@
+import {
+  DEFAULT_CONTEXT_KEEP_LAST_TURNS,
+  DEFAULT_CONTEXT_SUMMARIZE_AFTER_TURNS,
+  TEXT_CONFIG,
+} from '../../constants';
+import { getHandoffPrompt } from '../prompts/handoff';
+import { getKnowledgePrompt } from '../prompts/knowledge';
+import { getMultiAgentPrompt } from '../prompts/turn_taking';
+import {
+  Agent,
+  ChatMessage,
+  Connection,
+  ContextWindowConfig,
+  State,
+} from '../types';
+import { saveConnection, SessionStore } from './session_stores/session_store';
+import { ConversationSummarizer } from './summarizers/conversation_summarizer';
+
+// Rough estimate for English text, the LLM's tokenizer isn't available here
+const CHARACTERS_PER_TOKEN = 4;
+// Role and separator tokens the chat template adds to every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+type PromptMessage = Pick<
+  ChatMessage,
+  'role' | 'content' | 'toolCalls' | 'toolCallId'
+>;
+type ContextState = Pick<
+  State,
+  | 'agent'
+  | 'agents'
+  | 'handoff'
+  | 'userName'
+  | 'messages'
+  | 'summary'
+  | 'knowledgePassages'
+>;
+
+/**
+ * Estimate the number of tokens of LLM chat messages
+ */
+export function estimateTokens(messages: PromptMessage[]): number {
+  return messages.reduce(
+    (tokens, msg) =>
+      tokens +
+      MESSAGE_OVERHEAD_TOKENS +
+      Math.ceil(
+        (msg.content.length +
+          (msg.toolCalls ? JSON.stringify(msg.toolCalls).length : 0)) /
+          CHARACTERS_PER_TOKEN,
+      ),
+    0,
+  );
+}
+
+/**
+ * The agent's context window thresholds, with the defaults filled in
+ */
+export function getContextWindowConfig(
+  agent?: Agent,
+): Required<ContextWindowConfig> {
+  return {
+    maxPromptTokens: TEXT_CONFIG.maxPromptLength,
+    keepLastTurns: DEFAULT_CONTEXT_KEEP_LAST_TURNS,
+    summarizeAfterTurns: DEFAULT_CONTEXT_SUMMARIZE_AFTER_TURNS,
+    ...agent?.contextWindow,
+  };
+}
+
+/**
+ * Build the messages sent to the LLM for a session:
+ * - The system prompt, always
+ * - In multi-agent sessions, who else takes part; their messages are
+ *   passed as user messages starting with their name
+ * - After a handoff, who the agent took the conversation over from
+ * - The running summary of the turns it covers, if any
+ * - The knowledge retrieved for the user's last message, if any
+ * - The older turns that aren't summarized yet, newest first while they fit
+ *   the token budget
+ * - The last `keepLastTurns` turns, always, even over the budget
+ */
+export function buildContextMessages(state: ContextState): PromptMessage[] {
+  return fitContext(state).messages;
+}
+
+/**
+ * The turns to fold into the summary: the older turns that aren't
+ * summarized yet, once there are `summarizeAfterTurns` of them or some of
+ * them don't fit the token budget anymore. Undefined if the summary is
+ * current.
+ */
+export function getTurnsToSummarize(
+  state: ContextState,
+): ChatMessage[] | undefined {
+  const { summarizeAfterTurns } = getContextWindowConfig(state.agent);
+  const { older } = splitConversation(state);
+  if (!older.length) {
+    return undefined;
+  }
+
+  return older.length >= summarizeAfterTurns ||
+    fitContext(state).droppedTurns > 0
+    ? older.flat()
+    : undefined;
+}
+
+/**
+ * Refresh the session's summary in the background if turns are waiting to
+ * be summarized. One refresh runs per session at a time; the next turn
+ * picks up what was left.
+ */
+export function updateConversationSummary(
+  sessionId: string,
+  connection: Connection,
+  summarizer: ConversationSummarizer,
+  sessionStore: SessionStore,
+) {
+  if (connection.summaryUpdate) {
+    return;
+  }
+
+  const state = connection.state;
+  const messages = getTurnsToSummarize(state);
+  if (!messages) {
+    return;
+  }
+
+  const throughInteractionId = messages[messages.length - 1].id;
+  console.log(
+    `[Session ${sessionId}] Summarizing ${messages.length} messages with the ${summarizer.name} summarizer`,
+  );
+
+  connection.summaryUpdate = summarizer
+    .summarize({
+      previousSummary: state.summary?.content,
+      messages,
+      userName: state.userName,
+      agentName:
+        state.agents?.map((agent) => agent.name).join(', ') ??
+        state.agent.name,
+    })
+    .then(async (content) => {
+      if (connection.unloaded) {
+        return;
+      }
+      connection.state.summary = {
+        content,
+        throughInteractionId,
+        updatedAt: Date.now(),
+      };
+      await saveConnection(sessionStore, sessionId, connection);
+    })
+    .catch((error) => {
+      console.error(
+        `[Session ${sessionId}] Failed to update the conversation summary:`,
+        error,
+      );
+    })
+    .finally(() => {
+      connection.summaryUpdate = undefined;
+    });
+}
+
+// Fill the token budget, see buildContextMessages
+function fitContext(state: ContextState): {
+  messages: PromptMessage[];
+  droppedTurns: number;
+} {
+  const { maxPromptTokens } = getContextWindowConfig(state.agent);
+  const { system, older, recent } = splitConversation(state);
+
+  const head = system.map((msg) => toPromptMessage(msg, state));
+  if (state.agents) {
+    head.push({
+      role: 'system',
+      content: getMultiAgentPrompt({
+        agent: state.agent,
+        others: state.agents.filter((agent) => agent.id !== state.agent.id),
+        userName: state.userName || 'User',
+      }),
+    });
+  }
+  if (state.handoff?.last) {
+    head.push({
+      role: 'system',
+      content: getHandoffPrompt({
+        agent: state.agent,
+        fromName: state.handoff.last.fromName,
+        reason: state.handoff.last.reason,
+        userName: state.userName || 'User',
+      }),
+    });
+  }
+  if (state.summary) {
+    head.push({
+      role: 'system',
+      content: `Summary of the earlier conversation:\n${state.summary.content}`,
+    });
+  }
+  if (state.knowledgePassages?.length) {
+    head.push({
+      role: 'system',
+      content: getKnowledgePrompt(state.knowledgePassages),
+    });
+  }
+  const tail = toPromptMessages(recent.flat(), state);
+
+  let budget = maxPromptTokens - estimateTokens([...head, ...tail]);
+  const kept: PromptMessage[] = [];
+  let droppedTurns = older.length;
+  for (const turn of [...older].reverse()) {
+    const messages = toPromptMessages(turn, state);
+    budget -= estimateTokens(messages);
+    if (budget < 0) {
+      break;
+    }
+    kept.unshift(...messages);
+    droppedTurns--;
+  }
+
+  return { messages: [...head, ...kept, ...tail], droppedTurns };
+}
+
+/**
+ * Split the conversation into the system messages, the older turns not
+ * covered by the summary and the most recent turns. A turn starts with a
+ * user message and holds the replies to it.
+ */
+function splitConversation(state: ContextState) {
+  const { keepLastTurns } = getContextWindowConfig(state.agent);
+  const system = state.messages.filter((msg) => msg.role === 'system');
+
+  const turns: ChatMessage[][] = [];
+  for (const msg of state.messages) {
+    if (msg.role === 'system') {
+      continue;
+    }
+    if (msg.role === 'user' || !turns.length) {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(msg);
+  }
+
+  // Turns up to the one the summary ends with are covered by it
+  let summarizedTurns = 0;
+  if (state.summary) {
+    const index = turns.findIndex((turn) =>
+      turn.some((msg) => msg.id === state.summary.throughInteractionId),
+    );
+    summarizedTurns = index + 1;
+  }
+
+  const recentStart = Math.max(turns.length - keepLastTurns, summarizedTurns);
+  return {
+    system,
+    older: turns.slice(summarizedTurns, recentStart),
+    recent: turns.slice(recentStart),
+  };
+}
+
+function toPromptMessages(
+  messages: ChatMessage[],
+  state: ContextState,
+): PromptMessage[] {
+  return messages
+    .filter(
+      (msg) =>
+        // The tool calls of the other agents are theirs only
+        !(msg.toolCalls || msg.toolCallId) ||
+        !msg.agentId ||
+        msg.agentId === state.agent.id,
+    )
+    .map((msg) => toPromptMessage(msg, state));
+}
+
+function toPromptMessage(msg: ChatMessage, state: ContextState): PromptMessage {
+  if (state.agents && msg.role === 'user') {
+    return { role: 'user', content: `${state.userName || 'User'}: ${msg.content}` };
+  }
+  if (state.agents && msg.agentId && msg.agentId !== state.agent.id) {
+    return { role: 'user', content: `${msg.agentName}: ${msg.content}` };
+  }
+
+  const { role, content, toolCalls, toolCallId } = msg;
+  return toolCalls || toolCallId
+    ? { role, content, toolCalls, toolCallId }
+    : { role, content };
+}
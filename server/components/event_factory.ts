@@ -1,15 +1,38 @@
 import { v4 } from 'uuid';
 
+import {
+  AgentChangedPacket,
+  AudioPacket,
+  CancelResponsePacket,
+  Citation,
+  CitationsPacket,
+  ConfigUpdateAckPacket,
+  ErrorDetails,
+  ErrorPacket,
+  FieldError,
+  InteractionEndPacket,
+  NewInteractionPacket,
+  OutputAudioFormat,
+  PacketSource,
+  ResumedPacket,
+  SERVER_PACKET_TYPE,
+  SessionTokenPacket,
+  TextPacket,
+  ToolCallPacket,
+  ToolResultPacket,
+  UserSpeechCompletePacket,
+} from '../../protocol';
+
 export class EventFactory {
   static text(
     text: string,
     interactionId: string,
-    source: { isAgent?: boolean; isUser?: boolean; name?: string },
-  ) {
-    const date = new Date();
+    source: PacketSource,
+  ): TextPacket {
+    const date = new Date().toISOString();
 
     return {
-      type: 'TEXT',
+      type: SERVER_PACKET_TYPE.TEXT,
       text: { text, final: true },
       date,
       packetId: { utteranceId: v4(), interactionId },
@@ -17,57 +40,168 @@ export class EventFactory {
     };
   }
 
-  static error(error: Error, interactionId: string) {
-    const date = new Date();
+  static error(
+    error: Error,
+    interactionId: string,
+    details?: ErrorDetails,
+  ): ErrorPacket {
+    const date = new Date().toISOString();
 
     return {
-      type: 'ERROR',
+      type: SERVER_PACKET_TYPE.ERROR,
       error: error.toString(),
       date,
       packetId: { interactionId },
+      ...details,
     };
   }
 
-  static interactionEnd(interactionId: string) {
+  static interactionEnd(interactionId: string): InteractionEndPacket {
     return {
-      type: 'INTERACTION_END',
-      date: new Date(),
+      type: SERVER_PACKET_TYPE.INTERACTION_END,
+      date: new Date().toISOString(),
       packetId: { interactionId },
     };
   }
 
-  static audio(audio: string, interactionId: string, utteranceId: string) {
+  /**
+   * The outbox encodes the audio for each socket's protocol version
+   * (binary frame or base64)
+   */
+  static audio(
+    audio: Uint8Array,
+    format: OutputAudioFormat,
+    interactionId: string,
+    utteranceId: string,
+  ): AudioPacket {
     return {
-      type: 'AUDIO',
-      audio: { chunk: audio },
-      date: new Date(),
+      type: SERVER_PACKET_TYPE.AUDIO,
+      audio: { data: audio },
+      format,
+      date: new Date().toISOString(),
       packetId: { utteranceId, interactionId },
       routing: { source: { isAgent: true } },
     };
   }
 
-  static newInteraction(interactionId: string) {
+  static newInteraction(interactionId: string): NewInteractionPacket {
     return {
-      type: 'NEW_INTERACTION',
-      date: new Date(),
+      type: SERVER_PACKET_TYPE.NEW_INTERACTION,
+      date: new Date().toISOString(),
       packetId: { interactionId },
     };
   }
 
-  static cancelResponse(interactionId: string) {
+  static cancelResponse(interactionId: string): CancelResponsePacket {
     return {
-      type: 'CANCEL_RESPONSE',
-      date: new Date(),
+      type: SERVER_PACKET_TYPE.CANCEL_RESPONSE,
+      date: new Date().toISOString(),
       packetId: { interactionId },
     };
   }
 
-  static userSpeechComplete(interactionId: string, metadata?: any) {
+  static userSpeechComplete(
+    interactionId: string,
+    metadata?: UserSpeechCompletePacket['metadata'],
+  ): UserSpeechCompletePacket {
     return {
-      type: 'USER_SPEECH_COMPLETE',
-      date: new Date(),
+      type: SERVER_PACKET_TYPE.USER_SPEECH_COMPLETE,
+      date: new Date().toISOString(),
       packetId: { interactionId },
       metadata,
     };
   }
+
+  static resumed(resume: {
+    streamId: string;
+    lastSeq: number;
+    replayed: number;
+    gap: boolean;
+  }): ResumedPacket {
+    return {
+      type: SERVER_PACKET_TYPE.RESUMED,
+      date: new Date().toISOString(),
+      ...resume,
+    };
+  }
+
+  static configUpdateAck(
+    requestId: string | undefined,
+    result: {
+      accepted: boolean;
+      fields?: string[];
+      errors?: FieldError[];
+    },
+  ): ConfigUpdateAckPacket {
+    return {
+      type: SERVER_PACKET_TYPE.CONFIG_UPDATE_ACK,
+      date: new Date().toISOString(),
+      requestId,
+      ...result,
+      // Accepted changes never alter a response that is already in progress
+      appliesFrom: result.accepted ? 'next_interaction' : undefined,
+    };
+  }
+
+  static sessionToken(sessionToken: {
+    token: string;
+    expiresAt: number;
+  }): SessionTokenPacket {
+    return {
+      type: SERVER_PACKET_TYPE.SESSION_TOKEN,
+      date: new Date().toISOString(),
+      ...sessionToken,
+    };
+  }
+
+  static citations(
+    citations: Citation[],
+    interactionId: string,
+  ): CitationsPacket {
+    return {
+      type: SERVER_PACKET_TYPE.CITATIONS,
+      date: new Date().toISOString(),
+      citations,
+      packetId: { interactionId },
+    };
+  }
+
+  static toolCall(
+    toolCall: ToolCallPacket['toolCall'],
+    interactionId: string,
+  ): ToolCallPacket {
+    return {
+      type: SERVER_PACKET_TYPE.TOOL_CALL,
+      date: new Date().toISOString(),
+      toolCall,
+      packetId: { interactionId },
+    };
+  }
+
+  static toolResult(
+    toolResult: ToolResultPacket['toolResult'],
+    interactionId: string,
+  ): ToolResultPacket {
+    return {
+      type: SERVER_PACKET_TYPE.TOOL_RESULT,
+      date: new Date().toISOString(),
+      toolResult,
+      packetId: { interactionId },
+    };
+  }
+
+  static agentChanged(
+    change: Pick<
+      AgentChangedPacket,
+      'agent' | 'previousAgent' | 'trigger' | 'reason'
+    >,
+    interactionId: string,
+  ): AgentChangedPacket {
+    return {
+      type: SERVER_PACKET_TYPE.AGENT_CHANGED,
+      date: new Date().toISOString(),
+      ...change,
+      packetId: { interactionId },
+    };
+  }
 }
@@ -11,20 +11,36 @@ import * as os from 'os';
 import * as path from 'path';
 
 import {
+  DEFAULT_TTS_SPEAKING_RATE,
+  DEFAULT_TTS_TEMPERATURE,
   INPUT_SAMPLE_RATE,
+  PAUSE_DURATION_THRESHOLD_MS,
+  SPEECH_THRESHOLD,
   TEXT_CONFIG,
   TTS_SAMPLE_RATE,
 } from '../../constants';
 import { CreateGraphPropsInterface, TextInput } from '../types';
-//import { AssemblyAISTTNode } from './nodes/assembly_ai_stt_node';
-import { AssemblyAISTTWebSocketNode } from './nodes/assembly_ai_stt_ws_node';
+import { AudioExtractorNode } from './nodes/audio_extractor_node';
+import { AudioNormalizerNode } from './nodes/audio_normalizer_node';
+import { AudioStreamSlicerNode } from './nodes/audio_stream_slicer_node';
+import { BatchSTTNode } from './nodes/batch_stt_node';
 import { DialogPromptBuilderNode } from './nodes/dialog_prompt_builder_node';
+import { InteractionInfoNode } from './nodes/interaction_info_node';
 import { InteractionQueueNode } from './nodes/interaction_queue_node';
+import { KnowledgeRetrievalNode } from './nodes/knowledge_retrieval_node';
+import { MockLLMNode } from './nodes/mock_llm_node';
+import { MockTextAggregatorNode } from './nodes/mock_text_aggregator_node';
+import { MockTTSNode } from './nodes/mock_tts_node';
 import { SpeechCompleteNotifierNode } from './nodes/speech_complete_notifier_node';
 import { StateUpdateNode } from './nodes/state_update_node';
+import { STTNode } from './nodes/stt_node';
 import { TextInputNode } from './nodes/text_input_node';
+import { ToolCallingNode } from './nodes/tool_calling_node';
 import { TranscriptExtractorNode } from './nodes/transcript_extractor_node';
 import { TTSRequestBuilderNode } from './nodes/tts_request_builder_node';
+import { LLMToolCallGenerator } from './tools/llm_tool_call_generator';
+import { MockToolCallGenerator } from './tools/mock_tool_call_generator';
+import { ToolCallGenerator } from './tools/tool_call_generator';
 
 //
 // A complete audio-to-speech pipeline with stream slicer and LLM:
@@ -38,9 +54,9 @@ import { TTSRequestBuilderNode } from './nodes/tts_request_builder_node';
 //  │                              │                                               │
 //  │                              v                                               │
 //  │  ┌───────────────────────────────────────────────────────────────────────┐   │
-//  │  │ Assembly.AI STT Pipeline                                              │   │
+//  │  │ Streaming STT Pipeline (e.g. Assembly.AI)                             │   │
 //  │  │                    ┌────────────────┐                                 │   │
-//  │  │                    │ AssemblyAISTT  │◄───┐                            │   │
+//  │  │                    │      STT       │◄───┐                            │   │
 //  │  │                    └────────┬───────┘    │                            │   │
 //  │  │                             │            │ [stream_exhausted!=true]   │   │
 //  │  │                             │            │ (loop)                     │   │
@@ -72,10 +88,22 @@ import { TTSRequestBuilderNode } from './nodes/tts_request_builder_node';
 //  │                              │                       │                      │
 //  │                              v                       │                      │
 //  │                   ┌──────────────────────┐           │                      │
+//  │                   │KnowledgeRetrieval    │           │                      │
+//  │                   │(agent knowledge)     │           │                      │
+//  │                   └──────────┬───────────┘           │                      │
+//  │                              │                       │                      │
+//  │                              v                       │                      │
+//  │                   ┌──────────────────────┐           │                      │
 //  │                   │DialogPromptBuilder   │           │                      │
 //  │                   └──────────┬───────────┘           │                      │
 //  │                              │                       │                      │
 //  │                              v                       │                      │
+//  │                   ┌──────────────────────┐           │                      │
+//  │                   │ToolCalling           │           │                      │
+//  │                   │(runs agent.tools)    │           │                      │
+//  │                   └──────────┬───────────┘           │                      │
+//  │                              │                       │                      │
+//  │                              v                       │                      │
 //  │                          ┌─────┐                     │                      │
 //  │                          │ LLM │                     │                      │
 //  │                          └──┬──┘                     │                      │
@@ -95,6 +123,24 @@ import { TTSRequestBuilderNode } from './nodes/tts_request_builder_node';
 //  │                                                                             │
 //  └─────────────────────────────────────────────────────────────────────────────┘
 //
+// Batch STT providers (e.g. an OpenAI compatible endpoint) replace the STT
+// pipeline with VAD slicing:
+//
+//   AudioInput ──> AudioStreamSlicer ◄──┐ [stream_exhausted!=true] (loop)
+//                        │ [interaction_complete]
+//                        ├──> SpeechCompleteNotifier (terminal node)
+//                        ├──> AudioExtractor ──> AudioNormalizer ──> BatchSTT
+//                        │                                              │
+//                        v                                              │
+//                  InteractionInfo ◄────────────────────────────────────┘
+//                        │
+//                        v
+//                  InteractionQueue
+//
+// With MOCK_PROVIDERS, MockLLMNode replaces the LLM and streams straight to
+// MockTTSNode (in place of TextChunking and TTS) and MockTextAggregator, and
+// ToolCalling uses a mock LLM.
+//
 // Legend:
 // ───> Required edge
 // <──┐
@@ -105,12 +151,38 @@ import { TTSRequestBuilderNode } from './nodes/tts_request_builder_node';
 
 export class InworldGraphWrapper {
   graph: Graph;
+  private sttNode?: STTNode;
+  private toolCallGenerator: ToolCallGenerator;
 
-  private constructor({ graph }: { graph: Graph }) {
+  private constructor({
+    graph,
+    sttNode,
+    toolCallGenerator,
+  }: {
+    graph: Graph;
+    sttNode?: STTNode;
+    toolCallGenerator: ToolCallGenerator;
+  }) {
     this.graph = graph;
+    this.sttNode = sttNode;
+    this.toolCallGenerator = toolCallGenerator;
+  }
+
+  /**
+   * Release per-session resources held by nodes of this graph
+   * (currently the STT provider connection).
+   * Returns the number of STT sockets released.
+   */
+  async releaseSession(sessionId: string): Promise<number> {
+    if (!this.sttNode) {
+      return 0;
+    }
+    return (await this.sttNode.releaseSession(sessionId)) ? 1 : 0;
   }
 
   async destroy() {
+    await this.sttNode?.destroy();
+    await this.toolCallGenerator.destroy();
     await this.graph.stop();
   }
 
@@ -121,6 +193,7 @@ export class InworldGraphWrapper {
       llmProvider,
       voiceId,
       connections,
+      sessionStore,
       withAudioInput = false,
       ttsModelId,
     } = props;
@@ -128,57 +201,56 @@ export class InworldGraphWrapper {
     // Create unique postfix based on audio input and STT provider
     // Voice is now handled dynamically by TTSRequestBuilderNode
     let postfix = withAudioInput ? '-with-audio-input' : '-with-text-input';
-    if (withAudioInput) {
-      postfix += '-assembly-ai';
+    if (withAudioInput && props.sttProvider) {
+      postfix += `-stt-${props.sttProvider.name}`;
+    }
+    if (props.variantId) {
+      postfix += `-llm-${props.variantId}`;
     }
 
+    const knowledgeRetrievalNode = new KnowledgeRetrievalNode({
+      id: `knowledge-retrieval-node${postfix}`,
+      connections,
+    });
+
     const dialogPromptBuilderNode = new DialogPromptBuilderNode({
       id: `dialog-prompt-builder-node${postfix}`,
     });
 
+    // The tool calling generations use the graph's LLM, without streaming
+    const toolCallGenerator: ToolCallGenerator = props.mockProviders
+      ? new MockToolCallGenerator()
+      : new LLMToolCallGenerator({
+          id: postfix.slice(1),
+          apiKey,
+          provider: llmProvider,
+          modelName: llmModelName,
+          textGenerationConfig: props.textGenerationConfig ?? TEXT_CONFIG,
+        });
+
+    const toolCallingNode = new ToolCallingNode({
+      id: `tool-calling-node${postfix}`,
+      connections,
+      sessionStore,
+      generator: toolCallGenerator,
+    });
+
     const textInputNode = new TextInputNode({
       id: `text-input-node${postfix}`,
       connections,
+      sessionStore,
+      speakerSelector: props.speakerSelector,
       reportToClient: true,
     });
 
-    const llmNode = new RemoteLLMChatNode({
-      id: `llm-node${postfix}`,
-      provider: llmProvider,
-      modelName: llmModelName,
-      stream: true,
-      textGenerationConfig: TEXT_CONFIG,
-    });
-
-    const textChunkingNode = new TextChunkingNode({
-      id: `text-chunking-node${postfix}`,
-      //minChunkLength: 40,
-    });
-
-    const textAggregatorNode = new TextAggregatorNode({
-      id: `text-aggregator-node${postfix}`,
-    });
-
     const stateUpdateNode = new StateUpdateNode({
       id: `state-update-node${postfix}`,
       connections,
+      sessionStore,
+      summarizer: props.summarizer,
       reportToClient: true,
     });
 
-    const ttsRequestBuilderNode = new TTSRequestBuilderNode({
-      id: `tts-request-builder-node${postfix}`,
-      connections,
-    });
-
-    const ttsNode = new RemoteTTSNode({
-      id: `tts-node${postfix}`,
-      speakerId: voiceId, // Default voice (fallback only - TTSRequestBuilderNode overrides this per session)
-      modelId: ttsModelId,
-      sampleRate: TTS_SAMPLE_RATE,
-      temperature: 1.1,
-      speakingRate: 1,
-    });
-
     const graphName = `voice-agent${postfix}`;
     const graphBuilder = new GraphBuilder({
       id: graphName,
@@ -188,66 +260,156 @@ export class InworldGraphWrapper {
 
     graphBuilder
       .addNode(textInputNode)
+      .addNode(knowledgeRetrievalNode)
       .addNode(dialogPromptBuilderNode)
-      .addNode(llmNode)
-      .addNode(textChunkingNode)
-      .addNode(textAggregatorNode)
-      .addNode(ttsRequestBuilderNode)
-      .addNode(ttsNode)
+      .addNode(toolCallingNode)
       .addNode(stateUpdateNode)
-      .addEdge(textInputNode, dialogPromptBuilderNode)
-      .addEdge(dialogPromptBuilderNode, llmNode)
-      .addEdge(llmNode, textChunkingNode)
-      .addEdge(textChunkingNode, ttsRequestBuilderNode)
-      .addEdge(ttsRequestBuilderNode, ttsNode)
-      .addEdge(llmNode, textAggregatorNode)
-      .addEdge(textAggregatorNode, stateUpdateNode);
+      .addEdge(textInputNode, knowledgeRetrievalNode)
+      .addEdge(knowledgeRetrievalNode, dialogPromptBuilderNode)
+      .addEdge(dialogPromptBuilderNode, toolCallingNode);
+
+    // ToolCallingNode returns the answer itself when the LLM gave it while
+    // deciding on tools, else the request for the LLM node to stream it.
+    // Optional edges let the nodes after it run on either path.
+    const isAnswer = async (input: any) => typeof input === 'string';
+    const isRequest = async (input: any) => typeof input !== 'string';
+
+    let ttsNode: RemoteTTSNode | MockTTSNode;
+
+    if (props.mockProviders) {
+      // ======================================================================
+      // Mock LLM and TTS (MOCK_PROVIDERS)
+      // ======================================================================
+      // The runtime's TextChunkingNode and TextAggregatorNode only accept the
+      // stream of its own LLM node, so the mocks take the LLM stream directly
+      console.log('Building graph with mock LLM and TTS');
+
+      const llmNode = new MockLLMNode({
+        id: `llm-node${postfix}`,
+        responses: props.mockProviders.llmResponses,
+        connections,
+      });
+
+      const textAggregatorNode = new MockTextAggregatorNode({
+        id: `text-aggregator-node${postfix}`,
+      });
+
+      ttsNode = new MockTTSNode({
+        id: `tts-node${postfix}`,
+      });
+
+      graphBuilder
+        .addNode(llmNode)
+        .addNode(textAggregatorNode)
+        .addNode(ttsNode)
+        .addEdge(toolCallingNode, llmNode, { condition: isRequest })
+        .addEdge(toolCallingNode, ttsNode, {
+          condition: isAnswer,
+          optional: true,
+        })
+        .addEdge(toolCallingNode, stateUpdateNode, {
+          condition: isAnswer,
+          optional: true,
+        })
+        .addEdge(llmNode, ttsNode, { optional: true })
+        .addEdge(llmNode, textAggregatorNode)
+        .addEdge(textAggregatorNode, stateUpdateNode, { optional: true });
+    } else {
+      const llmNode = new RemoteLLMChatNode({
+        id: `llm-node${postfix}`,
+        provider: llmProvider,
+        modelName: llmModelName,
+        stream: true,
+        textGenerationConfig: props.textGenerationConfig ?? TEXT_CONFIG,
+      });
+
+      const textChunkingNode = new TextChunkingNode({
+        id: `text-chunking-node${postfix}`,
+        //minChunkLength: 40,
+      });
+
+      const textAggregatorNode = new TextAggregatorNode({
+        id: `text-aggregator-node${postfix}`,
+      });
+
+      const ttsRequestBuilderNode = new TTSRequestBuilderNode({
+        id: `tts-request-builder-node${postfix}`,
+        connections,
+        sessionStore,
+        ttsModelId,
+      });
+
+      ttsNode = new RemoteTTSNode({
+        id: `tts-node${postfix}`,
+        speakerId: voiceId, // Default voice (fallback only - TTSRequestBuilderNode overrides this per session)
+        modelId: ttsModelId,
+        sampleRate: TTS_SAMPLE_RATE,
+        temperature: DEFAULT_TTS_TEMPERATURE,
+        speakingRate: DEFAULT_TTS_SPEAKING_RATE,
+      });
+
+      graphBuilder
+        .addNode(llmNode)
+        .addNode(textChunkingNode)
+        .addNode(textAggregatorNode)
+        .addNode(ttsRequestBuilderNode)
+        .addNode(ttsNode)
+        .addEdge(toolCallingNode, llmNode, { condition: isRequest })
+        .addEdge(toolCallingNode, ttsRequestBuilderNode, {
+          condition: isAnswer,
+          optional: true,
+        })
+        .addEdge(toolCallingNode, stateUpdateNode, {
+          condition: isAnswer,
+          optional: true,
+        })
+        .addEdge(llmNode, textChunkingNode)
+        .addEdge(textChunkingNode, ttsRequestBuilderNode, { optional: true })
+        .addEdge(ttsRequestBuilderNode, ttsNode)
+        .addEdge(llmNode, textAggregatorNode)
+        .addEdge(textAggregatorNode, stateUpdateNode, { optional: true });
+    }
+
+    let sttNode: STTNode | undefined;
 
     if (withAudioInput) {
       // Validate configuration
-      if (!props.assemblyAIApiKey) {
+      if (!props.sttProvider) {
         throw new Error(
-          'Assembly.AI API key is required for audio processing pipeline',
+          'STT provider is required for audio processing pipeline',
         );
       }
       if (!props.vadClient) {
         throw new Error('VAD client is required for audio processing pipeline');
       }
 
-      // Start node to pass the audio input to Assembly.AI STT
+      // Start node to pass the audio input to STT
       const audioInputNode = new ProxyNode();
       const interactionQueueNode = new InteractionQueueNode();
 
-      // ========================================================================
-      // Assembly.AI Pipeline
-      // ========================================================================
-      console.log('Building graph with Assembly.AI STT pipeline');
-
-        // const assemblyAISTTNode = new AssemblyAISTTNode({
-        //   id: `assembly-ai-stt-node${postfix}`,
-        //   config: {
-        //     apiKey: props.assemblyAIApiKey!,
-        //     connections: connections,
-        //     vadClient: props.vadClient,
-        //     sampleRate: INPUT_SAMPLE_RATE,
-        //     formatTurns: false,
-        //     endOfTurnConfidenceThreshold: 0.4,
-        //     minEndOfTurnSilenceWhenConfident: 160, // milliseconds (AssemblyAI "Balanced" preset)
-        //     maxTurnSilence: 1280, // milliseconds (AssemblyAI "Balanced" preset)
-        //   },
-        // });
-
-        const assemblyAISTTNode = new AssemblyAISTTWebSocketNode({
-          id: `assembly-ai-stt-ws-node${postfix}`,
+      const speechCompleteNotifierNode = new SpeechCompleteNotifierNode({
+        id: `speech-complete-notifier-node${postfix}`,
+      });
+
+      graphBuilder
+        .addNode(audioInputNode)
+        .addNode(speechCompleteNotifierNode)
+        .addNode(interactionQueueNode);
+
+      if (props.sttProvider.mode === 'streaming') {
+        // ======================================================================
+        // Streaming STT Pipeline
+        // ======================================================================
+        console.log(
+          `Building graph with ${props.sttProvider.name} streaming STT pipeline`,
+        );
+
+        sttNode = new STTNode({
+          id: `stt-node${postfix}`,
           config: {
-            apiKey: props.assemblyAIApiKey!,
+            provider: props.sttProvider,
             connections: connections,
             vadClient: props.vadClient,
-            sampleRate: INPUT_SAMPLE_RATE,
-            formatTurns: false,
-            endOfTurnConfidenceThreshold: 0.5,
-            minEndOfTurnSilenceWhenConfident: 100,
-            maxTurnSilence: 640,
           },
         });
 
@@ -257,49 +419,115 @@ export class InworldGraphWrapper {
           disableAutoInterruption: props.disableAutoInterruption,
         });
 
-        const speechCompleteNotifierNode = new SpeechCompleteNotifierNode({
-          id: `speech-complete-notifier-node${postfix}`,
-        });
-
         graphBuilder
-          .addNode(audioInputNode)
-          .addNode(assemblyAISTTNode)
+          .addNode(sttNode)
           .addNode(transcriptExtractorNode)
-          .addNode(speechCompleteNotifierNode)
-          .addNode(interactionQueueNode)
-          .addEdge(audioInputNode, assemblyAISTTNode)
-          .addEdge(assemblyAISTTNode, assemblyAISTTNode, {
+          .addEdge(audioInputNode, sttNode)
+          .addEdge(sttNode, sttNode, {
             condition: async (input: any) => {
               return input?.stream_exhausted !== true;
             },
             loop: true,
             optional: true,
           })
-          // Two separate edges from assemblyAISTTNode when interaction is complete:
+          // Two separate edges from sttNode when interaction is complete:
           // 1. To speechCompleteNotifierNode for client notification (terminal node)
-          .addEdge(assemblyAISTTNode, speechCompleteNotifierNode, {
+          .addEdge(sttNode, speechCompleteNotifierNode, {
             condition: async (input: any) => {
               return input?.interaction_complete === true;
             },
           })
           // 2. To transcriptExtractorNode for continued processing
-          .addEdge(assemblyAISTTNode, transcriptExtractorNode, {
+          .addEdge(sttNode, transcriptExtractorNode, {
             condition: async (input: any) => {
               return input?.interaction_complete === true;
             },
           })
-          .addEdge(transcriptExtractorNode, interactionQueueNode)
-          .addEdge(interactionQueueNode, textInputNode, {
-            condition: (input: TextInput) => {
-              console.log('InteractionQueueNode: condition', input);
-              return input.text && input.text.trim().length > 0;
+          .addEdge(transcriptExtractorNode, interactionQueueNode);
+      } else {
+        // ======================================================================
+        // Batch STT Pipeline (VAD slicing)
+        // ======================================================================
+        console.log(
+          `Building graph with ${props.sttProvider.name} batch STT pipeline`,
+        );
+
+        const audioStreamSlicerNode = new AudioStreamSlicerNode({
+          id: `audio-stream-slicer-node${postfix}`,
+          config: {
+            vadClient: props.vadClient,
+            connections: connections,
+            sampleRate: INPUT_SAMPLE_RATE,
+            speechThreshold: SPEECH_THRESHOLD,
+            pauseDurationMs: PAUSE_DURATION_THRESHOLD_MS,
+          },
+        });
+
+        const audioExtractorNode = new AudioExtractorNode({
+          id: `audio-extractor-node${postfix}`,
+        });
+
+        const audioNormalizerNode = new AudioNormalizerNode({
+          id: `audio-normalizer-node${postfix}`,
+        });
+
+        const batchSTTNode = new BatchSTTNode({
+          id: `batch-stt-node${postfix}`,
+          provider: props.sttProvider,
+        });
+
+        const interactionInfoNode = new InteractionInfoNode({
+          id: `interaction-info-node${postfix}`,
+          disableAutoInterruption: props.disableAutoInterruption,
+          reportToClient: true,
+        });
+
+        const isInteractionComplete = async (input: any) => {
+          return input?.interaction_complete === true;
+        };
+
+        graphBuilder
+          .addNode(audioStreamSlicerNode)
+          .addNode(audioExtractorNode)
+          .addNode(audioNormalizerNode)
+          .addNode(batchSTTNode)
+          .addNode(interactionInfoNode)
+          .addEdge(audioInputNode, audioStreamSlicerNode)
+          .addEdge(audioStreamSlicerNode, audioStreamSlicerNode, {
+            condition: async (input: any) => {
+              return input?.stream_exhausted !== true;
             },
-          })
-          .addEdge(stateUpdateNode, interactionQueueNode, {
             loop: true,
             optional: true,
           })
-          .setStartNode(audioInputNode);
+          .addEdge(audioStreamSlicerNode, speechCompleteNotifierNode, {
+            condition: isInteractionComplete,
+          })
+          .addEdge(audioStreamSlicerNode, audioExtractorNode, {
+            condition: isInteractionComplete,
+          })
+          .addEdge(audioExtractorNode, audioNormalizerNode)
+          .addEdge(audioNormalizerNode, batchSTTNode)
+          // InteractionInfoNode joins the transcript with the slicer metadata
+          .addEdge(batchSTTNode, interactionInfoNode)
+          .addEdge(audioStreamSlicerNode, interactionInfoNode, {
+            condition: isInteractionComplete,
+          })
+          .addEdge(interactionInfoNode, interactionQueueNode);
+      }
+
+      graphBuilder
+        .addEdge(interactionQueueNode, textInputNode, {
+          condition: (input: TextInput) => {
+            console.log('InteractionQueueNode: condition', input);
+            return input.text && input.text.trim().length > 0;
+          },
+        })
+        .addEdge(stateUpdateNode, interactionQueueNode, {
+          loop: true,
+          optional: true,
+        })
+        .setStartNode(audioInputNode);
     } else {
       graphBuilder.setStartNode(textInputNode);
     }
@@ -316,6 +544,8 @@ export class InworldGraphWrapper {
 
     return new InworldGraphWrapper({
       graph,
+      sttNode,
+      toolCallGenerator,
     });
   }
 }
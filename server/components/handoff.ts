@@ -0,0 +1,144 @@
+import { getHandoffToolDescription } from '../prompts/handoff';
+import { Agent, Connection, HandoffTrigger, State } from '../types';
+import { EventFactory } from './event_factory';
+import { refreshSystemMessage } from './session_config';
+import { ToolDefinition } from './tools/tool_registry';
+import { findAddressedAgent } from './turn_taking/turn_taking';
+
+/**
+ * Agent handoff: a session moves from one agent to another, e.g. from a
+ * triage agent to a specialist, and the conversation goes on.
+ *
+ * The agents a session can go to are agent profiles, loaded at /load into
+ * `state.handoff`. The agent decides with the transfer_to_agent tool (see
+ * ToolCallingNode), or the server with a rule matching the user's message
+ * (see TextInputNode). Either way `state.agent` is replaced: the system
+ * prompt, knowledge, tools and voice of the next turns are the new
+ * agent's, while the WebSocket, the graphs and the history stay.
+ */
+
+export const HANDOFF_TOOL_NAME = 'transfer_to_agent';
+
+/**
+ * The agents the session can be transferred to from the current one
+ */
+export function getHandoffTargets(state: State): Agent[] {
+  return (state.handoff?.agents ?? []).filter(
+    (agent) => agent.profileId !== state.agent.profileId,
+  );
+}
+
+/**
+ * The agent a handoff rule sends the user's message to, if any. Rules are
+ * checked in order.
+ */
+export function findHandoffRule(
+  state: State,
+  text: string,
+): Agent | undefined {
+  const targets = getHandoffTargets(state);
+  for (const rule of state.handoff?.rules ?? []) {
+    const target = targets.find((agent) => agent.profileId === rule.agentId);
+    const keywords = rule.keywords.map((keyword) => ({
+      id: keyword,
+      name: keyword,
+    }));
+    if (target && findAddressedAgent(keywords, text)) {
+      return target;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The transfer_to_agent tool for the current agent, undefined if it can't
+ * transfer the session. One handoff happens per interaction at most.
+ */
+export function createHandoffTool(
+  sessionId: string,
+  connection: Connection,
+): ToolDefinition<{ agentId: string; reason?: string }> | undefined {
+  const state = connection.state;
+  const targets = getHandoffTargets(state);
+  if (
+    !state.handoff?.transferTool ||
+    !targets.length ||
+    state.handoff.last?.interactionId === state.interactionId
+  ) {
+    return undefined;
+  }
+
+  return {
+    name: HANDOFF_TOOL_NAME,
+    description: getHandoffToolDescription(targets),
+    parameters: {
+      type: 'object',
+      properties: {
+        agentId: {
+          type: 'string',
+          description: 'Id of the agent to transfer to',
+          enum: targets.map((agent) => agent.profileId),
+        },
+        reason: {
+          type: 'string',
+          description: 'What the user needs, in a few words, for the agent',
+        },
+      },
+      required: ['agentId'],
+    },
+    handler: async ({ agentId, reason }) => {
+      const target = targets.find((agent) => agent.profileId === agentId);
+      handOff(sessionId, connection, target, 'agent', reason);
+      return { transferredTo: target.name };
+    },
+  };
+}
+
+/**
+ * Make the target the session's agent and tell the client
+ */
+export function handOff(
+  sessionId: string,
+  connection: Connection,
+  target: Agent,
+  trigger: HandoffTrigger,
+  reason?: string,
+) {
+  const state = connection.state;
+  const previous = state.agent;
+
+  // Changes made to the current agent (e.g. its documents) are kept for
+  // when the session comes back to it
+  state.handoff.agents = state.handoff.agents.map((agent) =>
+    agent.id === previous.id ? previous : agent,
+  );
+  state.agent = target;
+  state.handoff.last = {
+    fromAgentId: previous.id,
+    fromName: previous.name,
+    trigger,
+    reason,
+    interactionId: state.interactionId,
+  };
+  refreshSystemMessage(state);
+
+  console.log(
+    `[Session ${sessionId}] Handoff from ${previous.name} to ${target.name} (${trigger}${reason ? `: ${reason}` : ''})`,
+  );
+  connection.outbox.send(
+    EventFactory.agentChanged(
+      {
+        agent: {
+          id: target.id,
+          name: target.name,
+          profileId: target.profileId,
+          profileVersion: target.profileVersion,
+        },
+        previousAgent: { id: previous.id, name: previous.name },
+        trigger,
+        reason,
+      },
+      state.interactionId,
+    ),
+  );
+}
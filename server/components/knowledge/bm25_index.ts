@@ -0,0 +1,114 @@
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Frequent English words that carry no meaning for retrieval
+const STOP_WORDS = new Set(
+  (
+    'a about after all also am an and any are as at be because been before ' +
+    'being but by can could did do does doing for from had has have having ' +
+    'he her here hers him his how i if in into is it its just me more most ' +
+    'my no nor not of on or other our ours out over own same she should so ' +
+    'some such than that the their theirs them then there these they this ' +
+    'those through to too under until up very was we were what when where ' +
+    'which while who whom why will with would you your yours'
+  ).split(' '),
+);
+
+/**
+ * Split text into the terms that are indexed: lower case words and numbers,
+ * without stop words, possessives and plural s
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) ?? []) {
+    let term = word.replace(/'s$/, '').replace(/'/g, '');
+    if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) {
+      term = term.slice(0, -1);
+    }
+    if (!STOP_WORDS.has(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * BM25Index ranks passages against a query with Okapi BM25. It's built
+ * once from all the passages and kept in memory.
+ */
+export class BM25Index<T extends { text: string }> {
+  private termFrequencies: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(private passages: T[]) {
+    for (const passage of passages) {
+      const frequencies = new Map<string, number>();
+      const terms = tokenize(passage.text);
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) ?? 0) + 1,
+        );
+      }
+      this.termFrequencies.push(frequencies);
+      this.lengths.push(terms.length);
+    }
+
+    this.averageLength =
+      this.lengths.reduce((sum, length) => sum + length, 0) /
+      Math.max(passages.length, 1);
+  }
+
+  get size() {
+    return this.passages.length;
+  }
+
+  /**
+   * The best matching passages, best first. Passages sharing no term with
+   * the query are never returned.
+   */
+  search(query: string, limit: number): { passage: T; score: number }[] {
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length) {
+      return [];
+    }
+
+    const results: { passage: T; score: number }[] = [];
+    this.passages.forEach((passage, index) => {
+      const frequencies = this.termFrequencies[index];
+      const lengthRatio = this.lengths[index] / (this.averageLength || 1);
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        score +=
+          this.inverseDocumentFrequency(term) *
+          ((frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + B * lengthRatio)));
+      }
+
+      if (score > 0) {
+        results.push({ passage, score });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Always positive, so common terms still count a little
+  private inverseDocumentFrequency(term: string) {
+    const frequency = this.documentFrequencies.get(term) ?? 0;
+    return Math.log(
+      1 + (this.passages.length - frequency + 0.5) / (frequency + 0.5),
+    );
+  }
+}
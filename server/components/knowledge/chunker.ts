@@ -0,0 +1,145 @@
+import {
+  KNOWLEDGE_CHUNK_OVERLAP_WORDS,
+  KNOWLEDGE_CHUNK_WORDS,
+} from '../../../constants';
+import { KnowledgeFormat } from '../../types';
+
+/**
+ * Split a document into passages of about KNOWLEDGE_CHUNK_WORDS words.
+ *
+ * Paragraphs are kept together while they fit; longer paragraphs are cut
+ * into overlapping windows. Markdown is split at headings, and each passage
+ * starts with the headings it falls under so it makes sense on its own.
+ */
+export function chunkDocument(content: string, format: KnowledgeFormat): string[] {
+  const sections =
+    format === 'markdown'
+      ? splitMarkdownSections(content)
+      : [{ headings: [] as string[], text: content }];
+
+  const chunks: string[] = [];
+  for (const section of sections) {
+    const prefix = section.headings.length
+      ? `${section.headings.join(' > ')}: `
+      : '';
+    for (const passage of packParagraphs(splitParagraphs(section.text))) {
+      chunks.push(prefix + passage);
+    }
+  }
+  return chunks;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+// Group consecutive paragraphs into passages up to the target length
+function packParagraphs(paragraphs: string[]): string[] {
+  const passages: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+
+  const flush = () => {
+    if (current.length) {
+      passages.push(current.join(' '));
+      current = [];
+      currentWords = 0;
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(' ');
+    if (words.length > KNOWLEDGE_CHUNK_WORDS) {
+      flush();
+      passages.push(...splitWords(words));
+      continue;
+    }
+    if (currentWords + words.length > KNOWLEDGE_CHUNK_WORDS) {
+      flush();
+    }
+    current.push(paragraph);
+    currentWords += words.length;
+  }
+  flush();
+
+  return passages;
+}
+
+function splitWords(words: string[]): string[] {
+  const step = KNOWLEDGE_CHUNK_WORDS - KNOWLEDGE_CHUNK_OVERLAP_WORDS;
+  const passages: string[] = [];
+  for (let start = 0; start < words.length; start += step) {
+    passages.push(words.slice(start, start + KNOWLEDGE_CHUNK_WORDS).join(' '));
+    if (start + KNOWLEDGE_CHUNK_WORDS >= words.length) {
+      break;
+    }
+  }
+  return passages;
+}
+
+/**
+ * Split Markdown at its headings, with the markup that doesn't help
+ * retrieval (emphasis, link targets, images, list markers) removed
+ */
+function splitMarkdownSections(
+  content: string,
+): { headings: string[]; text: string }[] {
+  const sections: { headings: string[]; text: string }[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n');
+    if (text.trim()) {
+      sections.push({ headings: headings.map((h) => h.text), text });
+    }
+    lines = [];
+  };
+
+  let inCodeBlock = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+
+    const heading = !inCodeBlock && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (headings.length && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: stripInlineMarkdown(heading[2]) });
+      continue;
+    }
+
+    lines.push(inCodeBlock ? line : stripMarkdownLine(line));
+  }
+  flush();
+
+  return sections;
+}
+
+function stripMarkdownLine(line: string): string {
+  return stripInlineMarkdown(
+    line
+      .replace(/^\s{0,3}>\s?/, '') // Blockquotes
+      .replace(/^\s*([-*+]|\d+[.)])\s+/, '') // List markers
+      .replace(/^\s*([-*_]\s*){3,}$/, '') // Horizontal rules
+      .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/, '') // Table separators
+      .replace(/\|/g, ' '),
+  );
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images, keeping the alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links, keeping the text
+    .replace(/<[^>]+>/g, '') // HTML tags
+    .replace(/(\*\*|\*|~~|`)(\S(?:.*?\S)?)\1/g, '$2') // Emphasis and code spans
+    .replace(/(?<!\w)(__|_)(\S(?:.*?\S)?)\1(?!\w)/g, '$2'); // Underscore emphasis, not snake_case
+}
@@ -0,0 +1,156 @@
+import { v4 } from 'uuid';
+
+import {
+  KNOWLEDGE_TOP_K,
+  MAX_KNOWLEDGE_DOCUMENT_LENGTH,
+} from '../../../constants';
+import {
+  Agent,
+  Citation,
+  Connection,
+  KnowledgeDocument,
+  KnowledgeFormat,
+  KnowledgePassage,
+} from '../../types';
+import { ConfigUpdateError } from '../session_config';
+import { BM25Index } from './bm25_index';
+import { chunkDocument } from './chunker';
+
+export const KNOWLEDGE_FORMATS: KnowledgeFormat[] = ['text', 'markdown'];
+
+const MAX_DOCUMENT_NAME_LENGTH = 200;
+
+export interface KnowledgeIndex {
+  key: string; // The knowledge the index was built from, see indexKey
+  index: BM25Index<KnowledgePassage>;
+}
+
+/**
+ * The agent's knowledge as passages: the `agent.knowledge` snippets, then
+ * the uploaded documents, chunked
+ */
+export function getKnowledgePassages(agent: Agent): KnowledgePassage[] {
+  const passages: KnowledgePassage[] = [];
+
+  let snippetIndex = 0;
+  for (const snippet of agent.knowledge ?? []) {
+    for (const text of chunkDocument(snippet, 'text')) {
+      passages.push({
+        id: `knowledge#${snippetIndex++}`,
+        source: 'knowledge',
+        text,
+      });
+    }
+  }
+
+  for (const document of agent.documents ?? []) {
+    const chunks = chunkDocument(document.content, document.format);
+    chunks.forEach((text, index) => {
+      passages.push({
+        id: `${document.id}#${index}`,
+        source: document.name,
+        text,
+      });
+    });
+  }
+
+  return passages;
+}
+
+/**
+ * The passages of the session agent's knowledge that best match the query.
+ * The index is built on first use and rebuilt when the knowledge changes.
+ */
+export function retrieveKnowledge(
+  connection: Connection,
+  query: string,
+  limit = KNOWLEDGE_TOP_K,
+): Citation[] {
+  const agent = connection.state.agent;
+  if (!agent.knowledge?.length && !agent.documents?.length) {
+    return [];
+  }
+
+  const key = indexKey(agent);
+  if (connection.knowledgeIndex?.key !== key) {
+    connection.knowledgeIndex = {
+      key,
+      index: new BM25Index(getKnowledgePassages(agent)),
+    };
+  }
+
+  return connection.knowledgeIndex.index
+    .search(query, limit)
+    .map(({ passage, score }) => ({
+      ...passage,
+      score: Math.round(score * 1000) / 1000,
+    }));
+}
+
+/**
+ * Validate an uploaded document: a name, the text and its format (from the
+ * file extension when not given)
+ */
+export function createKnowledgeDocument(
+  raw: any,
+  errors: ConfigUpdateError[],
+): KnowledgeDocument | undefined {
+  const { name, content } = raw ?? {};
+
+  if (
+    typeof name !== 'string' ||
+    !name.trim() ||
+    name.length > MAX_DOCUMENT_NAME_LENGTH
+  ) {
+    errors.push({
+      field: 'name',
+      message: `must be a non-empty string of at most ${MAX_DOCUMENT_NAME_LENGTH} characters`,
+    });
+  }
+  if (
+    typeof content !== 'string' ||
+    !content.trim() ||
+    content.length > MAX_KNOWLEDGE_DOCUMENT_LENGTH
+  ) {
+    errors.push({
+      field: 'content',
+      message: `must be a non-empty string of at most ${MAX_KNOWLEDGE_DOCUMENT_LENGTH} characters`,
+    });
+  }
+
+  const isMarkdownFile = /\.(md|markdown)$/i.test(name ?? '');
+  const format = raw?.format ?? (isMarkdownFile ? 'markdown' : 'text');
+  if (!KNOWLEDGE_FORMATS.includes(format)) {
+    errors.push({
+      field: 'format',
+      message: `must be one of ${KNOWLEDGE_FORMATS.join(', ')}`,
+    });
+  }
+
+  if (errors.length) {
+    return undefined;
+  }
+
+  return { id: v4(), name: name.trim(), format, content, addedAt: Date.now() };
+}
+
+/**
+ * A document as listed by the API, without its content
+ */
+export function describeKnowledgeDocument(document: KnowledgeDocument) {
+  return {
+    id: document.id,
+    name: document.name,
+    format: document.format,
+    length: document.content.length,
+    passages: chunkDocument(document.content, document.format).length,
+    addedAt: new Date(document.addedAt).toISOString(),
+  };
+}
+
+function indexKey(agent: Agent) {
+  return JSON.stringify([
+    agent.knowledge ?? [],
+    (agent.documents ?? []).map((document) => document.id),
+  ]);
+}
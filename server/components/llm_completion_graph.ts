@@ -0,0 +1,113 @@
+import {
+  ContentInterface,
+  ToolCallInterface,
+} from '@inworld/runtime/common';
+import {
+  CustomNode,
+  Graph,
+  GraphBuilder,
+  GraphTypes,
+  ProcessContext,
+  RemoteLLMChatNode,
+} from '@inworld/runtime/graph';
+
+export interface LLMCompletionGraphConfig<TRequest> {
+  id: string; // Prefix of the graph and node ids
+  apiKey: string;
+  provider: string;
+  modelName: string;
+  textGenerationConfig: { [key: string]: any };
+  // Turns the input of complete() into the LLM request
+  buildRequest: (request: TRequest) => GraphTypes.LLMChatRequest;
+}
+
+class LLMRequestNode<TRequest> extends CustomNode {
+  private buildRequest: (request: TRequest) => GraphTypes.LLMChatRequest;
+
+  constructor(props: {
+    id: string;
+    buildRequest: (request: TRequest) => GraphTypes.LLMChatRequest;
+  }) {
+    super({ id: props.id });
+    this.buildRequest = props.buildRequest;
+  }
+
+  process(
+    _context: ProcessContext,
+    request: TRequest,
+  ): GraphTypes.LLMChatRequest {
+    return this.buildRequest(request);
+  }
+}
+
+/**
+ * LLMCompletionGraph calls an LLM without streaming, for answers that are
+ * used whole rather than spoken: conversation summaries, tool calls and
+ * speaker selection. The graph is built on first use and reused.
+ */
+export class LLMCompletionGraph<TRequest> {
+  private graph?: Graph;
+
+  constructor(private config: LLMCompletionGraphConfig<TRequest>) {}
+
+  /**
+   * The LLM's answer to the request. Graph errors are thrown.
+   */
+  async complete(request: TRequest): Promise<ContentInterface> {
+    const { outputStream } = await this.getGraph().start(request);
+
+    let content = '';
+    const toolCalls: ToolCallInterface[] = [];
+    for await (const result of outputStream) {
+      await result.processResponse({
+        Content: (response: GraphTypes.Content) => {
+          content += response.content ?? '';
+          toolCalls.push(...(response.toolCalls ?? []));
+        },
+        string: (text: string) => {
+          content += text;
+        },
+        error: (error: GraphTypes.GraphError) => {
+          throw new Error(error.message);
+        },
+      });
+    }
+
+    return { content, toolCalls: toolCalls.length ? toolCalls : undefined };
+  }
+
+  async destroy() {
+    await this.graph?.stop();
+    this.graph = undefined;
+  }
+
+  private getGraph(): Graph {
+    if (!this.graph) {
+      const { id } = this.config;
+      const requestNode = new LLMRequestNode({
+        id: `${id}-request-node`,
+        buildRequest: this.config.buildRequest,
+      });
+      const llmNode = new RemoteLLMChatNode({
+        id: `${id}-llm-node`,
+        provider: this.config.provider,
+        modelName: this.config.modelName,
+        stream: false,
+        textGenerationConfig: this.config.textGenerationConfig,
+      });
+
+      this.graph = new GraphBuilder({
+        id: `${id}-graph`,
+        apiKey: this.config.apiKey,
+        enableRemoteConfig: false,
+      })
+        .addNode(requestNode)
+        .addNode(llmNode)
+        .addEdge(requestNode, llmNode)
+        .setStartNode(requestNode)
+        .setEndNode(llmNode)
+        .build();
+    }
+    return this.graph;
+  }
+}
@@ -1,15 +1,59 @@
 import { GraphOutputStream, GraphTypes } from '@inworld/runtime/graph';
 import { v4 } from 'uuid';
-import { RawData } from 'ws';
-
-import { INPUT_SAMPLE_RATE } from '../../constants';
-import { AudioInput, AudioStreamInput, EVENT_TYPE, TextInput } from '../types';
+import WebSocket, { RawData } from 'ws';
+
+import { INPUT_SAMPLE_RATE, TTS_SAMPLE_RATE } from '../../constants';
+import {
+  AUDIO_ENCODING,
+  AudioFormat,
+  AudioFrameMessage,
+  AudioMessage,
+  AudioSamples,
+  CLIENT_MESSAGE_TYPE,
+  ClientMessage,
+  ConfigUpdateMessage,
+  ERROR_CODE,
+  ErrorDetails,
+  parseClientMessage,
+  ServerPacket,
+} from '../../protocol';
+import {
+  AudioInput,
+  AudioStreamInput,
+  ChatMessage,
+  PARTICIPANT_ROLE,
+  TextInput,
+} from '../types';
 import { Connection } from '../types';
 import { InworldApp } from './app';
+import {
+  AudioInputDecoder,
+  AudioOutputEncoder,
+  DEFAULT_INPUT_AUDIO_FORMAT,
+  DEFAULT_OUTPUT_AUDIO_FORMAT,
+  isSameAudioFormat,
+} from './audio_codecs';
 import { AudioStreamManager } from './audio_stream_manager';
 import { EventFactory } from './event_factory';
 import { InworldGraphWrapper } from './graph';
-
+import { recordPlaybackProgress, trackAnswerChunk } from './playback';
+import { RateLimiter, RateLimiters } from './rate_limiter';
+import {
+  applyPendingConfigUpdate,
+  describeConfigUpdate,
+  mergeConfigUpdates,
+  validateConfigUpdate,
+  validateSystemPromptUpdate,
+} from './session_config';
+import { saveConnection } from './session_stores/session_store';
+import { recordTurnTiming } from './transcript';
+import { chooseReplySpeaker } from './turn_taking/turn_taking';
+
+/**
+ * MessageHandler processes client messages for one session.
+ * A single instance is shared by every socket attached to the session, so
+ * input from all of them goes through the same processing queue.
+ */
 export class MessageHandler {
   private INPUT_SAMPLE_RATE = INPUT_SAMPLE_RATE;
   private currentInteractionId: string = v4();
@@ -19,9 +63,17 @@ export class MessageHandler {
   private processingQueue: (() => Promise<void>)[] = [];
   private isProcessing = false;
 
+  // When the client was last told about each repeated error (tripped rate
+  // limits, undecodable audio)
+  private errorNotifiedAt: { [key: string]: number } = {};
+
+  // The answer an agent reply was last considered for, see queueAgentReply
+  private agentReplyConsideredFor?: ChatMessage;
+
   constructor(
     private inworldApp: InworldApp,
-    private send: (data: any) => void,
+    private send: (packet: ServerPacket) => void,
+    private rateLimiters: RateLimiters,
   ) {}
 
   private createNewInteraction(logMessage: string): string {
@@ -31,11 +83,78 @@ export class MessageHandler {
     return this.currentInteractionId;
   }
 
-  async handleMessage(data: RawData, sessionId: string) {
-    const message = JSON.parse(data.toString());
+  async handleMessage(
+    data: RawData,
+    isBinary: boolean,
+    sessionId: string,
+    ws: WebSocket,
+  ) {
+    const connection = this.inworldApp.connections[sessionId];
+
+    // Malformed frames are answered on the sending socket only, the
+    // session carries on. Binary frames carry audio.
+    const parsed = parseClientMessage(
+      isBinary ? (data as Buffer) : data.toString(),
+    );
+    // Compared explicitly: `!parsed.ok` only narrows under strictNullChecks
+    if (parsed.ok === false) {
+      console.log(`[Session ${sessionId}] Rejected message: ${parsed.error}`);
+      connection?.outbox.sendControl(
+        EventFactory.error(new Error(parsed.error), this.currentInteractionId, {
+          code: parsed.code,
+          errors: parsed.errors,
+        }),
+        ws,
+      );
+      return;
+    }
+
+    await this.handleClientMessage(parsed.message, sessionId, ws);
+  }
+
+  /**
+   * Handle a validated message. Sockets that don't speak the session
+   * protocol (e.g. telephony media streams) translate their input into
+   * messages and hand them here.
+   */
+  async handleClientMessage(
+    message: ClientMessage,
+    sessionId: string,
+    ws: WebSocket,
+  ) {
+    const connection = this.inworldApp.connections[sessionId];
+    const role = connection?.outbox.roleOf(ws);
+
+    // Input of any attached socket keeps the session alive
+    if (role) {
+      this.inworldApp.sessionLifecycleManager.touch(sessionId);
+    }
+
+    // Observers may only resume their event stream
+    if (
+      role !== PARTICIPANT_ROLE.CONTROLLER &&
+      message.type !== CLIENT_MESSAGE_TYPE.RESUME
+    ) {
+      console.log(
+        `[Session ${sessionId}] Ignoring ${message.type} from ${role ?? 'detached'} socket`,
+      );
+      connection?.outbox.sendControl(
+        EventFactory.error(
+          new Error('Observers cannot send input to the session'),
+          this.currentInteractionId,
+          { code: ERROR_CODE.FORBIDDEN },
+        ),
+        ws,
+      );
+      return;
+    }
+
     switch (message.type) {
-      case 'text':
-      case EVENT_TYPE.TEXT:
+      case CLIENT_MESSAGE_TYPE.TEXT:
+        if (!this.checkRateLimit(this.rateLimiters.wsText, sessionId)) {
+          break;
+        }
+
         this.createNewInteraction('Starting a new interaction from text input');
         const textInteractionId = this.currentInteractionId;
 
@@ -45,26 +164,57 @@ export class MessageHandler {
           sessionId,
         } as TextInput;
 
-        // Use shared text graph
+        // Use shared text graph (or the one for the session's LLM settings)
         // Voice is selected dynamically by TTSRequestBuilderNode based on session state
         this.addToQueue(() =>
           this.executeGraph({
             sessionId,
             input: textInput,
             interactionId: textInteractionId,
-            graphWrapper: this.inworldApp.graphWithTextInput,
           }),
         );
 
         break;
 
-      case 'audio':
-      case EVENT_TYPE.AUDIO:
+      case CLIENT_MESSAGE_TYPE.AUDIO:
+      case CLIENT_MESSAGE_TYPE.AUDIO_FRAME:
         // Process audio chunk - send directly to graph for VAD processing
         await this.processAudioChunk(message, sessionId);
         break;
 
-      case EVENT_TYPE.AUDIO_SESSION_END:
+      case CLIENT_MESSAGE_TYPE.RESUME:
+        // Reconnecting client asks for everything after the last packet it saw
+        if (connection) {
+          const result = connection.outbox.resume(
+            ws,
+            message.lastSeq,
+            message.streamId,
+          );
+          console.log(
+            `[Session ${sessionId}] Resumed ${role} from seq ${message.lastSeq}: replayed ${result.replayed} packet(s)${result.gap ? ' (some packets were lost)' : ''}`,
+          );
+        }
+        break;
+
+      case CLIENT_MESSAGE_TYPE.CONFIG_UPDATE:
+        await this.handleConfigUpdate(message, sessionId);
+        break;
+
+      case CLIENT_MESSAGE_TYPE.PLAYBACK_PROGRESS:
+        // The stored answer keeps what the user heard of it
+        if (
+          connection &&
+          recordPlaybackProgress(sessionId, connection, message)
+        ) {
+          await saveConnection(
+            this.inworldApp.sessionStore,
+            sessionId,
+            connection,
+          );
+        }
+        break;
+
+      case CLIENT_MESSAGE_TYPE.AUDIO_SESSION_END:
         // Audio session ended - close the stream and wait for graph completion
         console.log('Audio session ended for sessionId:', sessionId);
         const audioConnection = this.inworldApp.connections[sessionId];
@@ -81,7 +231,127 @@ export class MessageHandler {
     }
   }
 
-  private async processAudioChunk(message: any, sessionId: string) {
+  /**
+   * Validate a config_update message and stage it on the session state.
+   * The change is applied when the next interaction starts (TextInputNode)
+   * and confirmed to the client with a CONFIG_UPDATE_ACK event.
+   */
+  private async handleConfigUpdate(
+    message: ConfigUpdateMessage,
+    sessionId: string,
+  ) {
+    const connection = this.inworldApp.connections[sessionId];
+    if (!connection) {
+      console.error(`No connection found for sessionId: ${sessionId}`);
+      return;
+    }
+
+    const requestId = message.requestId;
+    const { update, errors } = validateConfigUpdate(message.config);
+
+    const pendingUpdate = update
+      ? mergeConfigUpdates(connection.state.pendingConfigUpdate, update)
+      : undefined;
+    if (pendingUpdate) {
+      validateSystemPromptUpdate(connection.state, pendingUpdate, errors);
+    }
+    if (
+      update?.llm &&
+      !this.inworldApp.canUseLLMParams({
+        ...connection.state.llmParams,
+        ...pendingUpdate?.llm,
+      })
+    ) {
+      errors.push({
+        field: 'llm',
+        message: 'Too many distinct LLM configurations in use',
+      });
+    }
+
+    if (errors.length || !update || !pendingUpdate) {
+      console.log(`[Session ${sessionId}] Rejected config update:`, errors);
+      this.send(
+        EventFactory.configUpdateAck(requestId, { accepted: false, errors }),
+      );
+      return;
+    }
+
+    connection.state.pendingConfigUpdate = pendingUpdate;
+    await saveConnection(this.inworldApp.sessionStore, sessionId, connection);
+
+    const fields = describeConfigUpdate(update);
+    console.log(
+      `[Session ${sessionId}] Staged config update: ${fields.join(', ')}`,
+    );
+
+    // The LLM is fixed for the lifetime of a graph execution, so end the
+    // running audio stream; the next audio chunk starts a new execution on
+    // the graph for the new LLM settings
+    if (update.llm && connection.audioStreamManager) {
+      console.log(
+        `[Session ${sessionId}] Restarting audio stream for new LLM settings`,
+      );
+      connection.audioStreamManager.end();
+      connection.audioStreamManager = undefined;
+    }
+
+    this.send(
+      EventFactory.configUpdateAck(requestId, { accepted: true, fields }),
+    );
+  }
+
+  /**
+   * Consume from the session's bucket. Rejected input is dropped and the
+   * client gets a RATE_LIMITED error, at most once per second per limit
+   * since audio chunks arrive many times a second.
+   */
+  private checkRateLimit(
+    limiter: RateLimiter,
+    sessionId: string,
+    cost = 1,
+  ): boolean {
+    const result = limiter.consume(sessionId, cost);
+    if (result.allowed) {
+      return true;
+    }
+
+    this.notifyError(
+      sessionId,
+      `rate-limit:${limiter.name}`,
+      new Error(`Rate limit exceeded for ${limiter.name}`),
+      {
+        code: ERROR_CODE.RATE_LIMITED,
+        limit: limiter.name,
+        retryAfterMs: result.retryAfterMs,
+      },
+    );
+    return false;
+  }
+
+  /**
+   * Send an error that can repeat with every message (e.g. every audio
+   * chunk) at most once per second
+   */
+  private notifyError(
+    sessionId: string,
+    key: string,
+    error: Error,
+    details: ErrorDetails,
+  ) {
+    const now = Date.now();
+    if (now - (this.errorNotifiedAt[key] ?? 0) < 1000) {
+      return;
+    }
+
+    this.errorNotifiedAt[key] = now;
+    console.log(`[Session ${sessionId}] ${error.message}`);
+    this.send(EventFactory.error(error, this.currentInteractionId, details));
+  }
+
+  private async processAudioChunk(
+    message: AudioMessage | AudioFrameMessage,
+    sessionId: string,
+  ) {
     try {
       const connection = this.inworldApp.connections[sessionId];
       if (!connection) {
@@ -89,17 +359,39 @@ export class MessageHandler {
         return;
       }
 
-      // Flatten audio array into single buffer
-      const audioData: number[] = [];
-      for (let i = 0; i < message.audio.length; i++) {
-        Object.values(message.audio[i]).forEach((value) => {
-          audioData.push(value as number);
-        });
+      const audioData = this.decodeAudio(message, connection, sessionId);
+      if (!audioData?.length) {
+        return;
+      }
+
+      // Audio is limited by its decoded size (Float32 samples)
+      if (
+        !this.checkRateLimit(
+          this.rateLimiters.wsAudioBytes,
+          sessionId,
+          audioData.length * Float32Array.BYTES_PER_ELEMENT,
+        )
+      ) {
+        return;
       }
 
       // Initialize audio stream manager if not already present
       if (!connection.audioStreamManager) {
-        connection.audioStreamManager = new AudioStreamManager();
+        const audioStreamManager = new AudioStreamManager(
+          connection.recorder &&
+            ((chunk) => connection.recorder.recordUserAudio(chunk)),
+        );
+        connection.audioStreamManager = audioStreamManager;
+
+        // LLM settings are picked per graph, so pending changes to them
+        // have to be applied before choosing the graph
+        if (applyPendingConfigUpdate(connection.state)) {
+          await saveConnection(
+            this.inworldApp.sessionStore,
+            sessionId,
+            connection,
+          );
+        }
 
         // Start the graph execution with the stream
         const audioStreamInput: AudioStreamInput = {
@@ -111,6 +403,7 @@ export class MessageHandler {
         // Voice is selected dynamically by TTSRequestBuilderNode based on session state
         const graphWrapper = await this.inworldApp.getGraphForSTTService(
           connection.sttService,
+          connection.state.llmParams,
         );
 
         // Start graph execution in the background - it will consume from the stream
@@ -119,20 +412,22 @@ export class MessageHandler {
             sessionId,
             input: audioStreamInput,
             graphWrapper,
-            audioStreamManager: connection.audioStreamManager,
+            audioStreamManager,
           }).catch((error) => {
             console.error('Error in audio graph execution:', error);
             // Clean up on error
-            if (connection.audioStreamManager) {
-              connection.audioStreamManager.end();
+            audioStreamManager.end();
+            // A newer stream may have replaced this one (e.g. after a config update)
+            if (connection.audioStreamManager === audioStreamManager) {
               connection.audioStreamManager = undefined;
+              connection.currentAudioGraphExecution = undefined;
             }
-            connection.currentAudioGraphExecution = undefined;
           });
       }
 
-      // Push the audio chunk to the stream
-      connection.audioStreamManager.pushChunk({
+      // Push the audio chunk to the stream (a config update may have ended it
+      // meanwhile; the next chunk then starts a new one)
+      connection.audioStreamManager?.pushChunk({
         data: audioData,
         sampleRate: this.INPUT_SAMPLE_RATE,
       });
@@ -141,22 +436,78 @@ export class MessageHandler {
     }
   }
 
+  /**
+   * Decode audio in the session's declared input format to Float32 samples
+   * at INPUT_SAMPLE_RATE. Returns undefined (and tells the client) if the
+   * audio doesn't match the declared format or can't be decoded.
+   */
+  private decodeAudio(
+    message: AudioMessage | AudioFrameMessage,
+    connection: Connection,
+    sessionId: string,
+  ): Float32Array | undefined {
+    const format = connection.inputAudioFormat ?? DEFAULT_INPUT_AUDIO_FORMAT;
+    const describe = (format: AudioFormat) =>
+      `${format.encoding} at ${format.sampleRate} Hz`;
+
+    const received =
+      message.type === CLIENT_MESSAGE_TYPE.AUDIO_FRAME
+        ? message.format
+        : { encoding: AUDIO_ENCODING.PCM_F32LE, sampleRate: format.sampleRate };
+    if (!isSameAudioFormat(received, format)) {
+      this.notifyError(
+        sessionId,
+        'audio-format',
+        new Error(
+          `Received ${describe(received)} audio, the session input format is ${describe(format)}`,
+        ),
+        { code: ERROR_CODE.INVALID_MESSAGE },
+      );
+      return undefined;
+    }
+
+    connection.audioDecoder ??= new AudioInputDecoder(
+      format,
+      this.INPUT_SAMPLE_RATE,
+    );
+    try {
+      return message.type === CLIENT_MESSAGE_TYPE.AUDIO_FRAME
+        ? connection.audioDecoder.decode(message.data)
+        : connection.audioDecoder.resample(toFloat32Samples(message.audio));
+    } catch (error) {
+      this.notifyError(
+        sessionId,
+        'audio-decode',
+        new Error(`Failed to decode ${describe(format)} audio: ${error}`),
+        { code: ERROR_CODE.INVALID_MESSAGE },
+      );
+      return undefined;
+    }
+  }
+
   private async executeGraph({
     sessionId,
     input,
     interactionId,
-    graphWrapper,
   }: {
     sessionId: string;
     input: TextInput | AudioInput;
     interactionId: string;
-    graphWrapper: InworldGraphWrapper;
   }) {
     const connection = this.inworldApp.connections[sessionId];
     if (!connection) {
       throw new Error(`Failed to get connection for sessionId:${sessionId}`);
     }
 
+    // LLM settings are picked per graph, so pending changes to them
+    // have to be applied before choosing the graph
+    if (applyPendingConfigUpdate(connection.state)) {
+      await saveConnection(this.inworldApp.sessionStore, sessionId, connection);
+    }
+    const graphWrapper = await this.inworldApp.getGraphWithTextInput(
+      connection.state.llmParams,
+    );
+
     // Log state for debugging
     console.log(`[Session ${sessionId}] Executing graph with state:`, {
       messageCount: connection.state.messages?.length,
@@ -180,6 +531,54 @@ export class MessageHandler {
     );
 
     this.send(EventFactory.interactionEnd(interactionId));
+    await this.queueAgentReply(sessionId);
+  }
+
+  /**
+   * In multi-agent sessions, let another agent reply to the answer just
+   * given, see chooseReplySpeaker. Replies run on the text graph, also in
+   * audio sessions, and are dropped if the user speaks first.
+   */
+  private async queueAgentReply(sessionId: string) {
+    const connection = this.inworldApp.connections[sessionId];
+    const messages = connection?.state.messages ?? [];
+    const answer = messages[messages.length - 1];
+    if (
+      !connection?.state.agents ||
+      connection.unloaded ||
+      answer?.role !== 'assistant' ||
+      answer === this.agentReplyConsideredFor
+    ) {
+      return;
+    }
+    this.agentReplyConsideredFor = answer;
+
+    const speaker = await chooseReplySpeaker(
+      connection.state,
+      this.inworldApp.speakerSelector,
+    );
+    if (!speaker) {
+      return;
+    }
+
+    const interactionId = this.createNewInteraction(
+      `Starting a new interaction for the reply of ${speaker.name}`,
+    );
+    this.addToQueue(async () => {
+      const { messages } = connection.state;
+      if (messages[messages.length - 1] !== answer) {
+        console.log(
+          `[Session ${sessionId}] Dropped the reply of ${speaker.name}, the conversation moved on`,
+        );
+        this.send(EventFactory.interactionEnd(interactionId));
+        return;
+      }
+      await this.executeGraph({
+        sessionId,
+        input: { sessionId, text: '', interactionId, speakerId: speaker.id },
+        interactionId,
+      });
+    });
   }
 
   private async executeGraphWithAudioStream({
@@ -216,8 +615,11 @@ export class MessageHandler {
 
     const connection = this.inworldApp.connections[sessionId];
     if (!connection) {
+      outputStream.abort();
       throw new Error(`Failed to get connection for sessionId:${sessionId}`);
     }
+    // Kept on the connection so the lifecycle manager can abort it on teardown
+    connection.currentAudioOutputStream = outputStream;
 
     // Handle multiple interactions from the stream
     // Each loop iteration in AudioStreamSlicerNode produces one output
@@ -285,6 +687,7 @@ export class MessageHandler {
         if (currentGraphInteractionId) {
           this.send(EventFactory.interactionEnd(currentGraphInteractionId));
         }
+        await this.queueAgentReply(sessionId);
       }
 
       console.log(
@@ -294,9 +697,14 @@ export class MessageHandler {
       console.error('Error processing audio stream interactions:', error);
       throw error;
     } finally {
-      // Clean up stream manager
-      connection.audioStreamManager = undefined;
-      connection.currentAudioGraphExecution = undefined;
+      // Clean up stream manager unless a newer stream already replaced it
+      if (connection.audioStreamManager === audioStreamManager) {
+        connection.audioStreamManager = undefined;
+        connection.currentAudioGraphExecution = undefined;
+      }
+      if (connection.currentAudioOutputStream === outputStream) {
+        connection.currentAudioOutputStream = undefined;
+      }
     }
   }
 
@@ -323,60 +731,116 @@ export class MessageHandler {
     try {
       await result.processResponse({
         TTSOutputStream: async (ttsStream: GraphTypes.TTSOutputStream) => {
-          for await (const chunk of ttsStream) {
-            // Validate audio data exists
-            if (!chunk.audio?.data) {
-              console.warn(
-                `[Session ${sessionId}] Skipping chunk with missing audio data`,
+          // Transcodes the Float32 TTS output to the session's output format
+          const encoder = new AudioOutputEncoder(
+            connection.outputAudioFormat ?? DEFAULT_OUTPUT_AUDIO_FORMAT,
+          );
+          let lastPacketId: { interactionId: string; utteranceId: string };
+          // Times the agent's turn in the transcript
+          let audioStartedAt: number;
+          let audioDurationMs = 0;
+
+          try {
+            for await (const chunk of ttsStream) {
+              // Validate audio data exists
+              if (!chunk.audio?.data) {
+                console.warn(
+                  `[Session ${sessionId}] Skipping chunk with missing audio data`,
+                );
+                continue;
+              }
+
+              let audioBuffer: Buffer;
+
+              if (Array.isArray(chunk.audio.data)) {
+                // The array contains byte values from a Buffer, not float values
+                // Interpret these bytes as Float32 data (4 bytes per float)
+                audioBuffer = Buffer.from(chunk.audio.data);
+              } else if (typeof chunk.audio.data === 'string') {
+                // If it's a base64 string (legacy format)
+                audioBuffer = Buffer.from(chunk.audio.data, 'base64');
+              } else if (Buffer.isBuffer(chunk.audio.data)) {
+                // If it's already a Buffer
+                audioBuffer = chunk.audio.data;
+              } else {
+                console.error(
+                  `[Session ${sessionId}] Unsupported audio data type:`,
+                  typeof chunk.audio.data,
+                );
+                continue;
+              }
+
+              if (audioBuffer.byteLength === 0) {
+                console.warn(
+                  `[Session ${sessionId}] Skipping chunk with zero-length audio buffer`,
+                );
+                continue;
+              }
+
+              const effectiveInteractionId = currentGraphInteractionId || v4();
+              const textPacket = EventFactory.text(
+                chunk.text,
+                effectiveInteractionId,
+                {
+                  isAgent: true,
+                  name: connection.state.agent.id,
+                },
               );
-              continue;
-            }
 
-            let audioBuffer: Buffer;
-
-            if (Array.isArray(chunk.audio.data)) {
-              // The array contains byte values from a Buffer, not float values
-              // Interpret these bytes as Float32 data (4 bytes per float)
-              audioBuffer = Buffer.from(chunk.audio.data);
-            } else if (typeof chunk.audio.data === 'string') {
-              // If it's a base64 string (legacy format)
-              audioBuffer = Buffer.from(chunk.audio.data, 'base64');
-            } else if (Buffer.isBuffer(chunk.audio.data)) {
-              // If it's already a Buffer
-              audioBuffer = chunk.audio.data;
-            } else {
-              console.error(
-                `[Session ${sessionId}] Unsupported audio data type:`,
-                typeof chunk.audio.data,
+              lastPacketId = textPacket.packetId;
+              trackAnswerChunk(
+                connection,
+                effectiveInteractionId,
+                textPacket.packetId.utteranceId,
+                chunk.text,
               );
-              continue;
+
+              audioStartedAt = audioStartedAt ?? Date.now();
+              // Float32 samples, 4 bytes each
+              audioDurationMs +=
+                (audioBuffer.byteLength / 4 / TTS_SAMPLE_RATE) * 1000;
+
+              connection.recorder?.recordAgentAudio(audioBuffer);
+              const audio = encoder.encode(audioBuffer);
+              if (audio.byteLength) {
+                this.send(
+                  EventFactory.audio(
+                    audio,
+                    encoder.format,
+                    effectiveInteractionId,
+                    textPacket.packetId.utteranceId,
+                  ),
+                );
+              }
+              this.send(textPacket);
             }
 
-            if (audioBuffer.byteLength === 0) {
-              console.warn(
-                `[Session ${sessionId}] Skipping chunk with zero-length audio buffer`,
+            // The end of the last utterance, padded to a whole Opus frame
+            const rest = encoder.flush();
+            if (rest && lastPacketId) {
+              this.send(
+                EventFactory.audio(
+                  rest,
+                  encoder.format,
+                  lastPacketId.interactionId,
+                  lastPacketId.utteranceId,
+                ),
               );
-              continue;
             }
 
-            const effectiveInteractionId = currentGraphInteractionId || v4();
-            const textPacket = EventFactory.text(
-              chunk.text,
-              effectiveInteractionId,
-              {
-                isAgent: true,
-                name: connection.state.agent.id,
-              },
-            );
-
-            this.send(
-              EventFactory.audio(
-                audioBuffer.toString('base64'),
-                effectiveInteractionId,
-                textPacket.packetId.utteranceId,
-              ),
-            );
-            this.send(textPacket);
+            if (lastPacketId) {
+              recordTurnTiming(connection.state, lastPacketId.interactionId, {
+                agentAudioStartedAt: audioStartedAt,
+                agentAudioEndedAt: audioStartedAt + audioDurationMs,
+              });
+              await saveConnection(
+                this.inworldApp.sessionStore,
+                sessionId,
+                connection,
+              );
+            }
+          } finally {
+            encoder.destroy();
           }
         },
         Custom: async (customData: GraphTypes.Custom<any>) => {
@@ -390,6 +854,10 @@ export class MessageHandler {
                 `Iteration: ${customData.iteration}, Samples: ${customData.totalSamples}, Endpointing Latency: ${customData.endpointingLatencyMs}ms`,
             );
 
+            recordTurnTiming(connection.state, effectiveInteractionId, {
+              userSpeechEndedAt: Date.now(),
+            });
+
             // Send USER_SPEECH_COMPLETE event to client for latency tracking
             this.send(
               EventFactory.userSpeechComplete(effectiveInteractionId, {
@@ -414,6 +882,7 @@ export class MessageHandler {
             );
             // Send cancel event to client to stop audio playback
             this.send(EventFactory.cancelResponse(effectiveInteractionId));
+            connection.recorder?.cancelAgentAudio();
             return;
           }
 
@@ -593,3 +1062,22 @@ export class MessageHandler {
     this.isProcessing = false;
   }
 }
+
+/**
+ * Join the chunks of a JSON audio message into one buffer
+ */
+function toFloat32Samples(audio: AudioSamples[]): Float32Array {
+  // Serialized Float32Arrays are objects keyed by index
+  const chunks = audio.map((chunk) =>
+    'length' in chunk ? (chunk as ArrayLike<number>) : Object.values(chunk),
+  );
+  const samples = new Float32Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+}
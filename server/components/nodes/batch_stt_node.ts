@@ -0,0 +1,44 @@
+import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
+
+import { BatchSTTProvider } from '../stt_providers/stt_provider';
+
+/**
+ * BatchSTTNode transcribes a complete utterance with a batch STT provider.
+ *
+ * It takes the audio cut by AudioStreamSlicerNode (through AudioExtractorNode
+ * and AudioNormalizerNode) and returns the transcript for InteractionInfoNode.
+ * Failed requests are thrown, so the graph reports them to the client.
+ */
+export class BatchSTTNode extends CustomNode<GraphTypes.Audio, string> {
+  private provider: BatchSTTProvider;
+
+  constructor(props: { id?: string; provider: BatchSTTProvider }) {
+    if (!props.provider) {
+      throw new Error('BatchSTTNode requires an STT provider.');
+    }
+
+    super({
+      id: props.id || 'batch-stt-node',
+      executionConfig: {
+        sttService: props.provider.name,
+      },
+    });
+
+    this.provider = props.provider;
+  }
+
+  /**
+   * Transcribe the utterance
+   */
+  async process(
+    context: ProcessContext,
+    audio: GraphTypes.Audio,
+  ): Promise<string> {
+    const sessionId = context.getDatastore().get('sessionId') as string;
+
+    return this.provider.transcribe(
+      { data: audio.data, sampleRate: audio.sampleRate },
+      sessionId,
+    );
+  }
+}
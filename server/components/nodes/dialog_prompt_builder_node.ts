@@ -1,23 +1,22 @@
 import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
 
 import { State } from '../../types';
+import { buildContextMessages } from '../context_window';
 
 /**
  * DialogPromptBuilderNode builds a LLM chat request from the state.
  *
  * This node:
  * - Receives the current conversation state
- * - Converts state messages to LLM message format
+ * - Fits the conversation into the agent's context window: the system
+ *   prompt, the running summary, and as many turns as the token budget
+ *   allows (see context_window.ts)
  * - Returns a formatted LLMChatRequest for the LLM node
  */
 export class DialogPromptBuilderNode extends CustomNode {
   process(_context: ProcessContext, state: State): GraphTypes.LLMChatRequest {
     console.log('DialogPromptBuilderNode');
-    // Convert state messages to LLMMessageInterface format
-    const conversationMessages = state.messages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }));
+    const conversationMessages = buildContextMessages(state);
 
     return new GraphTypes.LLMChatRequest({
       messages: conversationMessages,
@@ -0,0 +1,49 @@
+import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
+
+import { ConnectionsMap, State } from '../../types';
+import { EventFactory } from '../event_factory';
+import { retrieveKnowledge } from '../knowledge/knowledge_base';
+
+/**
+ * KnowledgeRetrievalNode looks up the agent's knowledge for the user's
+ * message.
+ *
+ * This node:
+ * - Receives the state updated by TextInputNode
+ * - Searches the agent's knowledge snippets and documents (BM25, see
+ *   knowledge_base.ts) with the user's message
+ * - Sends the passages found to the client as CITATIONS
+ * - Returns the state with the passages for DialogPromptBuilderNode
+ */
+export class KnowledgeRetrievalNode extends CustomNode {
+  private connections: ConnectionsMap;
+
+  constructor(props: { id: string; connections: ConnectionsMap }) {
+    super({ id: props.id });
+    this.connections = props.connections;
+  }
+
+  process(context: ProcessContext, state: State): State {
+    const sessionId = context.getDatastore().get('sessionId') as string;
+    const connection = this.connections[sessionId];
+    const lastMessage = state.messages[state.messages.length - 1];
+    if (!connection || lastMessage?.role !== 'user') {
+      return state;
+    }
+
+    const passages = retrieveKnowledge(connection, lastMessage.content);
+    if (!passages.length) {
+      return state;
+    }
+
+    console.log(
+      `[Session ${sessionId}] Retrieved ${passages.length} knowledge passages: ${passages.map((p) => p.id).join(', ')}`,
+    );
+    connection.outbox.send(
+      EventFactory.citations(passages, state.interactionId),
+    );
+
+    // A copy, the passages are only for this turn's prompt
+    return { ...state, knowledgePassages: passages };
+  }
+}
@@ -0,0 +1,83 @@
+import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
+
+import { ConnectionsMap } from '../../types';
+
+/**
+ * MockLLMNode stands in for the remote LLM node when MOCK_PROVIDERS is
+ * enabled, so the graph runs without network access.
+ *
+ * This node:
+ * - Receives the chat request built by DialogPromptBuilderNode
+ * - Picks the scripted response of the turn (the number of assistant
+ *   messages in the session so far, cycling through the script; the request
+ *   may only hold the last turns), or echoes the last user message when
+ *   there is no script, or the results of the tools called this turn
+ * - Streams the response word by word, like a streaming LLM
+ */
+export class MockLLMNode extends CustomNode<
+  GraphTypes.LLMChatRequest,
+  AsyncGenerator<GraphTypes.Content>
+> {
+  private responses: string[];
+  private connections: ConnectionsMap;
+
+  constructor(props: {
+    id: string;
+    responses?: string[];
+    connections: ConnectionsMap;
+  }) {
+    super({ id: props.id });
+    this.responses = props.responses || [];
+    this.connections = props.connections;
+  }
+
+  protected static getStreamType(): string {
+    return 'Content';
+  }
+
+  async *process(
+    context: ProcessContext,
+    request: GraphTypes.LLMChatRequest,
+  ): AsyncGenerator<GraphTypes.Content> {
+    const sessionId = context.getDatastore().get('sessionId') as string;
+    const response = this.getResponse(
+      request.messages,
+      this.connections[sessionId]?.state.messages ?? request.messages,
+    );
+    console.log(`MockLLMNode: ${response}`);
+
+    for (const word of response.match(/\S+\s*/g) || []) {
+      yield new GraphTypes.Content({ content: word });
+    }
+  }
+
+  private getResponse(
+    messages: GraphTypes.LLMChatRequest['messages'],
+    history: { role: string; toolCalls?: unknown[] }[],
+  ): string {
+    if (this.responses.length) {
+      // Assistant messages with tool calls are part of the turn's answer
+      const turn = history.filter(
+        (msg) => msg.role === 'assistant' && !msg.toolCalls,
+      ).length;
+      return this.responses[turn % this.responses.length];
+    }
+
+    const lastUserIndex = messages.map((msg) => msg.role).lastIndexOf('user');
+    const toolResults = messages
+      .slice(lastUserIndex + 1)
+      .filter((msg) => msg.role === 'tool')
+      .map((msg) => msg.content);
+    if (toolResults.length) {
+      return `The tools returned: ${toolResults.join(', ')}`;
+    }
+
+    const lastUserMessage = messages[lastUserIndex];
+    const text =
+      typeof lastUserMessage?.content === 'string'
+        ? lastUserMessage.content.trim()
+        : '';
+
+    return text ? `You said: ${text}` : 'Hello! This is a mock response.';
+  }
+}
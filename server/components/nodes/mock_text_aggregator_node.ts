@@ -0,0 +1,24 @@
+import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
+
+/**
+ * MockTextAggregatorNode collects the content stream of MockLLMNode into the
+ * complete response for StateUpdateNode.
+ *
+ * It replaces TextAggregatorNode when MOCK_PROVIDERS is enabled, as the
+ * runtime's node only accepts the stream of its own LLM node.
+ */
+export class MockTextAggregatorNode extends CustomNode<
+  GraphTypes.ContentStream,
+  string
+> {
+  async process(
+    _context: ProcessContext,
+    contentStream: GraphTypes.ContentStream,
+  ): Promise<string> {
+    let text = '';
+    for await (const chunk of contentStream) {
+      text += chunk.text || '';
+    }
+    return text;
+  }
+}
@@ -0,0 +1,68 @@
+import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
+
+import { TTS_SAMPLE_RATE } from '../../../constants';
+
+// Synthetic speech is a quiet tone, its length proportional to the text
+const TONE_FREQUENCY_HZ = 220;
+const TONE_AMPLITUDE = 0.1;
+const SPEECH_MS_PER_CHARACTER = 60;
+
+/**
+ * MockTTSNode stands in for the TTS request builder and remote TTS nodes
+ * when MOCK_PROVIDERS is enabled, so the graph runs without network access.
+ *
+ * This node:
+ * - Receives the LLM content stream directly (the runtime's TextChunkingNode
+ *   only accepts the stream of its own LLM node), or the whole answer from
+ *   ToolCallingNode
+ * - Splits it into sentences, like TextChunkingNode
+ * - Yields one TTS output chunk per sentence, with the sentence text and
+ *   deterministic Float32 PCM at TTS_SAMPLE_RATE, like RemoteTTSNode
+ */
+export class MockTTSNode extends CustomNode<
+  GraphTypes.ContentStream | string,
+  AsyncGenerator<{
+    text: string;
+    audio: { data: Float32Array; sampleRate: number };
+  }>
+> {
+  protected static getStreamType(): string {
+    return 'TTSOutput';
+  }
+
+  async *process(
+    _context: ProcessContext,
+    content: GraphTypes.ContentStream | string,
+  ) {
+    let pending = '';
+    const chunks = typeof content === 'string' ? [{ text: content }] : content;
+
+    for await (const chunk of chunks) {
+      pending += chunk.text || '';
+
+      let sentence: RegExpMatchArray | null;
+      while ((sentence = pending.match(/^[\s\S]*?[.!?]+\s+/))) {
+        pending = pending.slice(sentence[0].length);
+        yield this.synthesize(sentence[0]);
+      }
+    }
+
+    if (pending.trim()) {
+      yield this.synthesize(pending);
+    }
+  }
+
+  private synthesize(text: string) {
+    const length = Math.round(
+      (text.trim().length * SPEECH_MS_PER_CHARACTER * TTS_SAMPLE_RATE) / 1000,
+    );
+    const data = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      data[i] =
+        TONE_AMPLITUDE *
+        Math.sin((2 * Math.PI * TONE_FREQUENCY_HZ * i) / TTS_SAMPLE_RATE);
+    }
+
+    return { text, audio: { data, sampleRate: TTS_SAMPLE_RATE } };
+  }
+}
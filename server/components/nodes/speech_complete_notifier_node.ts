@@ -3,7 +3,7 @@ import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
 
 /**
  * SpeechCompleteNotifierNode monitors audio processing nodes (AudioStreamSlicerNode
- * or AssemblyAISTTWebSocketNode) and reports a notification event to the client
+ * or STTNode) and reports a notification event to the client
  * when user speech is complete.
  *
  * This is a terminal reporting node with no outgoing edges. It extracts metadata
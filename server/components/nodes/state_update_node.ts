@@ -1,22 +1,38 @@
 import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
 
 import { ConnectionsMap, State } from '../../types';
+import { updateConversationSummary } from '../context_window';
+import { truncateInterruptedAnswer } from '../playback';
+import {
+  saveConnection,
+  SessionStore,
+} from '../session_stores/session_store';
+import { ConversationSummarizer } from '../summarizers/conversation_summarizer';
 
 /**
  * StateUpdateNode updates the state with the LLM's response.
  *
  * This node:
  * - Receives the LLM output text
- * - Updates the connection state with the assistant message
+ * - Updates the connection state with the assistant message, attributed
+ *   to the agent that answered, and cut down to what the user heard if
+ *   the client already reported an interruption (see playback.ts)
+ * - Persists the updated state to the session store
+ * - Refreshes the conversation summary in the background when older turns
+ *   left the context window
  * - Marks the interaction as completed in the datastore
  * - Returns the updated state
  */
 export class StateUpdateNode extends CustomNode {
   private connections: ConnectionsMap;
+  private sessionStore: SessionStore;
+  private summarizer?: ConversationSummarizer;
 
   constructor(props: {
     id: string;
     connections: ConnectionsMap;
+    sessionStore: SessionStore;
+    summarizer?: ConversationSummarizer;
     reportToClient?: boolean;
   }) {
     super({
@@ -24,9 +40,14 @@ export class StateUpdateNode extends CustomNode {
       reportToClient: props.reportToClient,
     });
     this.connections = props.connections;
+    this.sessionStore = props.sessionStore;
+    this.summarizer = props.summarizer;
   }
 
-  process(context: ProcessContext, llmOutput: string): State {
+  async process(
+    context: ProcessContext,
+    llmOutput: string,
+  ): Promise<State> {
     console.log('StateUpdateNode', { llmOutput });
 
     // TODO: Use this when DataStore will allow to modify state
@@ -57,7 +78,26 @@ export class StateUpdateNode extends CustomNode {
       role: 'assistant',
       content: llmOutput,
       id: connection.state.interactionId,
+      createdAt: Date.now(),
+      agentId: connection.state.agent.id,
+      agentName: connection.state.agent.name,
     });
+    truncateInterruptedAnswer(
+      sessionId,
+      connection,
+      connection.state.interactionId,
+    );
+
+    await saveConnection(this.sessionStore, sessionId, connection);
+
+    if (this.summarizer) {
+      updateConversationSummary(
+        sessionId,
+        connection,
+        this.summarizer,
+        this.sessionStore,
+      );
+    }
 
     const dataStore = context.getDatastore();
     dataStore.add('c' + connection.state.interactionId, '');
@@ -0,0 +1,444 @@
+import { DataStreamWithMetadata } from '@inworld/runtime';
+import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
+import { VAD } from '@inworld/runtime/primitives/vad';
+import { v4 } from 'uuid';
+
+import { Connection } from '../../types';
+import { EventFactory } from '../event_factory';
+import {
+  STTEvent,
+  STTStream,
+  StreamingSTTProvider,
+} from '../stt_providers/stt_provider';
+
+/**
+ * Configuration interface for STTNode
+ */
+export interface STTNodeConfig {
+  /** Streaming STT provider transcribing the audio */
+  provider: StreamingSTTProvider;
+  /** Connections map to access session state */
+  connections: { [sessionId: string]: Connection };
+  /** Pre-initialized VAD instance from the app (required for silence detection) */
+  vadClient: VAD;
+  /** Speech detection threshold (0.0 - 1.0, higher values increase sensitivity) */
+  speechThreshold?: number;
+}
+
+/**
+ * STTNode processes continuous audio streams with a streaming STT provider.
+ *
+ * This node:
+ * - Feeds audio chunks to the provider's stream for the session
+ * - Forwards partial transcripts to the client for real-time feedback
+ * - Completes the turn when the provider detects its end
+ * - Uses VAD to track silence duration throughout the audio stream
+ * - Returns the transcript and silence metrics in the metadata of the stream
+ */
+export class STTNode extends CustomNode {
+  private provider: StreamingSTTProvider;
+  private connections: { [sessionId: string]: Connection };
+  private vad: VAD;
+  private speechThreshold: number;
+
+  constructor(props: { id?: string; config: STTNodeConfig }) {
+    const { config, ...nodeProps } = props;
+
+    if (!config.provider) {
+      throw new Error('STTNode requires an STT provider.');
+    }
+
+    if (!config.connections) {
+      throw new Error('STTNode requires a connections object.');
+    }
+
+    if (!config.vadClient) {
+      throw new Error(
+        'STTNode requires a VAD client. Pass the shared VAD instance from InworldApp.',
+      );
+    }
+
+    super({
+      id: nodeProps.id || 'stt-node',
+      executionConfig: {
+        sttService: config.provider.name,
+        sampleRate: config.provider.sampleRate,
+        speechThreshold: config.speechThreshold || 0.5,
+      },
+    });
+
+    this.provider = config.provider;
+    this.connections = config.connections;
+    this.vad = config.vadClient;
+    this.speechThreshold = config.speechThreshold || 0.5;
+  }
+
+  /**
+   * Process audio stream and transcribe it with the provider
+   */
+  async process(
+    context: ProcessContext,
+    input0: GraphTypes.AudioChunkStream,
+    input: DataStreamWithMetadata,
+  ): Promise<DataStreamWithMetadata> {
+    // Extract AudioChunkStream from either input type
+    const audioStream =
+      input !== undefined &&
+      input !== null &&
+      input instanceof DataStreamWithMetadata
+        ? (input.toStream() as GraphTypes.AudioChunkStream)
+        : input0;
+
+    const sessionId = context.getDatastore().get('sessionId') as string;
+    const connection = this.connections[sessionId];
+
+    // Get iteration number from metadata, or parse from interactionId, or default to 1
+    // Note: We only READ connection.state.interactionId, never WRITE it (TextInputNode does that)
+    const metadata = input?.getMetadata?.() || {};
+    let previousIteration = (metadata.iteration as number) || 0;
+
+    // If no iteration in metadata, try parsing from interactionId
+    const currentId = connection.state.interactionId;
+    const delimiterIndex = currentId.indexOf('#');
+
+    if (previousIteration === 0 && delimiterIndex !== -1) {
+      // Try to extract iteration from interactionId (e.g., "abc123#2" -> 2)
+      const iterationStr = currentId.substring(delimiterIndex + 1);
+      const parsedIteration = parseInt(iterationStr, 10);
+      if (!isNaN(parsedIteration) && /^\d+$/.test(iterationStr)) {
+        previousIteration = parsedIteration;
+      }
+    }
+
+    const iteration = previousIteration + 1;
+
+    // Get base interactionId (without iteration suffix)
+    const baseId =
+      delimiterIndex !== -1
+        ? currentId.substring(0, delimiterIndex)
+        : currentId;
+
+    // Compute next interactionId (don't write to connection.state yet - TextInputNode will do that)
+    const nextInteractionId = `${baseId}#${iteration}`;
+
+    if (connection?.unloaded) {
+      throw Error(`Session unloaded for sessionId: ${sessionId}`);
+    }
+    if (!connection) {
+      throw Error(`Failed to read connection for sessionId: ${sessionId}`);
+    }
+
+    const logPrefix = `[STT ${this.provider.name} - Iteration ${iteration}]`;
+    console.log(`${logPrefix} Starting transcription for session: ${sessionId}`);
+
+    // State tracking
+    let transcriptText = '';
+    let turnDetected = false;
+    let audioChunkCount = 0;
+    let totalAudioSamples = 0;
+    let isStreamExhausted = false;
+    let errorOccurred = false;
+    let errorMessage = '';
+    let shouldStopProcessing = false;
+    let endpointingLatency = 0;
+    let stream: STTStream | undefined;
+
+    // Promise to capture the turn result
+    let turnResolve: (value: string) => void;
+    const turnPromise = new Promise<string>((resolve) => {
+      turnResolve = resolve;
+    });
+
+    const handleEvent = (event: STTEvent) => {
+      // Ignore events if we've already decided to stop
+      if (shouldStopProcessing) {
+        console.log(
+          `[${new Date().toISOString()}] ${logPrefix} Ignoring ${event.type} event (already stopping): ${event.transcript}`,
+        );
+        return;
+      }
+
+      // The user is speaking over the agent
+      this.sendCancellation(sessionId, nextInteractionId);
+
+      if (event.type === 'partial') {
+        this.sendPartialTranscript(
+          sessionId,
+          nextInteractionId,
+          event.transcript,
+        );
+        console.log(
+          `[${new Date().toISOString()}] ${logPrefix} Partial turn: ${event.transcript}`,
+        );
+        return;
+      }
+
+      console.log(
+        `[${new Date().toISOString()}] ${logPrefix} Turn detected: ${event.transcript}`,
+      );
+
+      transcriptText = event.transcript;
+      turnDetected = true;
+      shouldStopProcessing = true;
+      turnResolve(event.transcript);
+    };
+
+    try {
+      // Reuses the session's connection to the provider, or reconnects
+      stream = await this.provider.openStream(sessionId, handleEvent);
+      console.log(
+        `${logPrefix} Using established connection for session ${sessionId}`,
+      );
+
+      // Send audio chunks to the provider
+      const audioProcessingPromise = (async () => {
+        try {
+          console.log(`${logPrefix} Starting audio processing loop`);
+
+          while (true) {
+            // Check if the provider closed the connection (e.g., due to inactivity)
+            if (stream.closed) {
+              console.log(
+                `${logPrefix} Session closed externally - stopping audio processing`,
+              );
+              break;
+            }
+
+            const result: {
+              data: Float32Array;
+              sampleRate: number;
+              done: boolean;
+            } = await audioStream.next();
+
+            if (result.done) {
+              console.log(
+                `${logPrefix} Audio stream exhausted after ${audioChunkCount} chunks`,
+              );
+              isStreamExhausted = true;
+              break;
+            }
+
+            // Check if turn was detected while we were waiting for the chunk
+            if (shouldStopProcessing) {
+              console.log(
+                `${logPrefix} Turn detected - stopping after processing chunk`,
+              );
+              break;
+            }
+
+            // Double-check session wasn't closed while waiting for chunk
+            if (stream.closed) {
+              console.log(
+                `${logPrefix} Session closed during chunk wait - stopping`,
+              );
+              break;
+            }
+
+            // Check if we have valid audio data
+            if (!result.data || result.data.length === 0) {
+              continue;
+            }
+
+            audioChunkCount++;
+            totalAudioSamples += result.data.length;
+
+            try {
+              stream.sendAudio(result.data);
+            } catch (sendError) {
+              console.error(
+                `${logPrefix} Error sending audio chunk:`,
+                sendError,
+              );
+              // Continue processing other chunks instead of failing completely
+            }
+
+            // Detect speech in this chunk using VAD (after sending to the provider)
+            const isSpeech = await this.detectSpeech({
+              data: result.data,
+              sampleRate: result.sampleRate,
+            });
+
+            const chunkDurationMs =
+              (result.data.length / result.sampleRate) * 1000;
+
+            if (isSpeech) {
+              // Speech detected - reset endpointing latency counter
+              endpointingLatency = 0;
+              console.log(`[${new Date().toISOString()}] Speech detected...`);
+            } else {
+              // No speech - accumulate endpointing latency
+              endpointingLatency += chunkDurationMs;
+            }
+
+            if (audioChunkCount % 20 === 0) {
+              console.log(
+                `${logPrefix} Processed ${audioChunkCount} chunks, ${totalAudioSamples} total samples, endpointing latency: ${endpointingLatency.toFixed(0)}ms`,
+              );
+            }
+          }
+        } catch (error) {
+          console.error(`${logPrefix} Error processing audio:`, error);
+          errorOccurred = true;
+          errorMessage = error instanceof Error ? error.message : String(error);
+          throw error;
+        } finally {
+          console.log(`${logPrefix} Closing provider stream`);
+          stream.close();
+        }
+      })();
+
+      // Wait for either a turn to complete or audio processing to finish
+      await Promise.race([
+        turnPromise,
+        audioProcessingPromise.then(() => ''), // Return empty string if stream ends without turn
+      ]);
+
+      // Return DataStreamWithMetadata with transcript in metadata
+      console.log(
+        `[${new Date().toISOString()}] ${logPrefix} Returning DataStreamWithMetadata with transcript: "${transcriptText}", endpointing latency: ${endpointingLatency.toFixed(0)}ms`,
+      );
+
+      return new DataStreamWithMetadata(audioStream, {
+        elementType: 'Audio',
+        iteration: iteration,
+        interactionId: nextInteractionId,
+        session_id: sessionId,
+        stt_service: this.provider.name,
+        provider_session_id: stream.providerSessionId,
+        transcript: transcriptText,
+        turn_detected: turnDetected,
+        audio_chunk_count: audioChunkCount,
+        total_audio_samples: totalAudioSamples,
+        sample_rate: this.provider.sampleRate,
+        stream_exhausted: isStreamExhausted,
+        interaction_complete: turnDetected && transcriptText.length > 0,
+        error_occurred: errorOccurred,
+        error_message: errorMessage,
+        endpointing_latency_ms: endpointingLatency,
+      });
+    } catch (error) {
+      console.error(`${logPrefix} Transcription failed:`, error);
+
+      // Return DataStreamWithMetadata with error info
+      return new DataStreamWithMetadata(audioStream, {
+        elementType: 'Audio',
+        iteration: iteration,
+        interactionId: nextInteractionId,
+        session_id: sessionId,
+        stt_service: this.provider.name,
+        provider_session_id: stream?.providerSessionId || '',
+        transcript: '',
+        turn_detected: false,
+        audio_chunk_count: audioChunkCount,
+        total_audio_samples: totalAudioSamples,
+        sample_rate: this.provider.sampleRate,
+        stream_exhausted: isStreamExhausted,
+        interaction_complete: false,
+        error_occurred: true,
+        error_message: error instanceof Error ? error.message : String(error),
+        endpointing_latency_ms: endpointingLatency,
+      });
+    }
+  }
+
+  /**
+   * Send cancellation signal to client to stop current interaction
+   */
+  private sendCancellation(sessionId: string, interactionId?: string): void {
+    const connection = this.connections[sessionId];
+    if (!connection) {
+      console.warn(
+        `[STT] Cannot send cancellation - no connection for session: ${sessionId}`,
+      );
+      return;
+    }
+
+    const effectiveInteractionId =
+      interactionId || connection.state?.interactionId || v4();
+    console.log(
+      `[STT] Sending cancellation for interaction: ${effectiveInteractionId}`,
+    );
+
+    try {
+      const cancelEvent = EventFactory.cancelResponse(effectiveInteractionId);
+      connection.outbox.send(cancelEvent);
+      connection.recorder?.cancelAgentAudio();
+    } catch (error) {
+      console.error('[STT] Error sending cancellation:', error);
+    }
+  }
+
+  /**
+   * Send partial transcript update to the client for real-time feedback
+   */
+  private sendPartialTranscript(
+    sessionId: string,
+    interactionId: string,
+    text: string,
+  ): void {
+    const connection = this.connections[sessionId];
+    if (!connection) {
+      console.warn(
+        `[STT] Cannot send partial transcript - no connection for session: ${sessionId}`,
+      );
+      return;
+    }
+
+    try {
+      const textEvent = EventFactory.text(text, interactionId, {
+        isUser: true,
+      });
+      // Mark as non-final for partial transcripts
+      textEvent.text.final = false;
+      connection.outbox.send(textEvent);
+    } catch (error) {
+      console.error('[STT] Error sending partial transcript:', error);
+    }
+  }
+
+  /**
+   * Detect speech in an audio chunk using VAD
+   * @returns true if speech is detected, false otherwise
+   */
+  private async detectSpeech(audioChunk: {
+    data: Float32Array | number[];
+    sampleRate: number;
+  }): Promise<boolean> {
+    if (!this.vad) {
+      throw new Error('VAD not initialized');
+    }
+
+    try {
+      // Convert to array if needed
+      const dataArray = Array.isArray(audioChunk.data)
+        ? audioChunk.data
+        : Array.from(audioChunk.data);
+
+      const vadResult = await this.vad.detectVoiceActivity(
+        {
+          data: dataArray,
+          sampleRate: audioChunk.sampleRate,
+        },
+        this.speechThreshold,
+      );
+
+      // Result is the sample index where speech is detected, or -1 if no speech
+      return vadResult !== -1;
+    } catch (error) {
+      console.error('[STT] VAD detection failed:', error);
+      return false; // Assume no speech on error
+    }
+  }
+
+  /**
+   * Release the provider connection held for a single session.
+   * Returns true if the session had a connection to release.
+   */
+  async releaseSession(sessionId: string): Promise<boolean> {
+    return this.provider.releaseSession(sessionId);
+  }
+
+  async destroy(): Promise<void> {
+    await this.provider.destroy();
+  }
+}
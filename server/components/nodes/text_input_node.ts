@@ -1,21 +1,45 @@
 import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
 
 import { ConnectionsMap, State, TextInput } from '../../types';
+import { findHandoffRule, handOff } from '../handoff';
+import {
+  applyPendingConfigUpdate,
+  refreshSystemMessage,
+} from '../session_config';
+import {
+  saveConnection,
+  SessionStore,
+} from '../session_stores/session_store';
+import { SpeakerSelector } from '../turn_taking/speaker_selector';
+import { chooseSpeaker, switchSpeaker } from '../turn_taking/turn_taking';
 
 /**
  * TextInputNode updates the state with the user's input this turn.
  *
  * This node:
  * - Receives user text input with interaction and session IDs
- * - Updates the connection state with the user message
+ * - Applies any configuration change staged by config_update, since a new
+ *   interaction starts here
+ * - Updates the connection state with the user message (agents replying
+ *   to each other have none)
+ * - In multi-agent sessions, switches to the agent that answers (see
+ *   turn_taking.ts)
+ * - Hands the session off to another agent if a handoff rule matches the
+ *   message (see handoff.ts)
+ * - Renders the system prompt again, so its {date} and {time} are current
+ * - Persists the updated state to the session store
  * - Returns the updated state for downstream processing
  */
 export class TextInputNode extends CustomNode {
   private connections: ConnectionsMap;
+  private sessionStore: SessionStore;
+  private speakerSelector?: SpeakerSelector;
 
   constructor(props: {
     id: string;
     connections: ConnectionsMap;
+    sessionStore: SessionStore;
+    speakerSelector?: SpeakerSelector;
     reportToClient?: boolean;
   }) {
     super({
@@ -23,9 +47,11 @@ export class TextInputNode extends CustomNode {
       reportToClient: props.reportToClient,
     });
     this.connections = props.connections;
+    this.sessionStore = props.sessionStore;
+    this.speakerSelector = props.speakerSelector;
   }
 
-  process(context: ProcessContext, input: TextInput): State {
+  async process(context: ProcessContext, input: TextInput): Promise<State> {
     console.log('TextInputNode', { context, input });
 
     // TODO: Use this when DataStore will allow to modify state
@@ -40,7 +66,7 @@ export class TextInputNode extends CustomNode {
     // });
     // return state;
 
-    const { text, interactionId, sessionId } = input;
+    const { text, interactionId, sessionId, speakerId } = input;
 
     const connection = this.connections[sessionId];
     if (connection?.unloaded) {
@@ -56,13 +82,41 @@ export class TextInputNode extends CustomNode {
       );
     }
 
+    if (applyPendingConfigUpdate(state)) {
+      console.log(`[Session ${sessionId}] Applied pending config update`);
+    }
+
     // Update interactionId and add user message
     connection.state.interactionId = interactionId;
-    connection.state.messages.push({
-      role: 'user',
-      content: text,
-      id: interactionId,
-    });
+    if (!speakerId) {
+      connection.state.messages.push({
+        role: 'user',
+        content: text,
+        id: interactionId,
+        createdAt: Date.now(),
+      });
+    }
+
+    if (state.agents) {
+      const speaker = speakerId
+        ? state.agents.find((agent) => agent.id === speakerId)
+        : await chooseSpeaker(state, this.speakerSelector);
+      if (!speaker) {
+        throw Error(`Unknown agent ${speakerId} for sessionId:${sessionId}`);
+      }
+      switchSpeaker(state, speaker);
+      console.log(
+        `[Session ${sessionId}] ${speaker.name} ${speakerId ? 'replies' : 'answers'}`,
+      );
+    } else if (state.handoff && !speakerId) {
+      const target = findHandoffRule(state, text);
+      if (target) {
+        handOff(sessionId, connection, target, 'rule');
+      }
+    }
+    refreshSystemMessage(state);
+
+    await saveConnection(this.sessionStore, sessionId, connection);
 
     return connection.state;
   }
@@ -0,0 +1,303 @@
+import {
+  LLMMessageInterface,
+  ToolCallInterface,
+} from '@inworld/runtime/common';
+import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
+
+import { MAX_TOOL_CALL_ROUNDS, TOOL_CALL_TIMEOUT_MS } from '../../../constants';
+import { Connection, ConnectionsMap } from '../../types';
+import { buildContextMessages } from '../context_window';
+import { EventFactory } from '../event_factory';
+import { createHandoffTool } from '../handoff';
+import { retrieveKnowledge } from '../knowledge/knowledge_base';
+import {
+  saveConnection,
+  SessionStore,
+} from '../session_stores/session_store';
+import { ToolCallGenerator } from '../tools/tool_call_generator';
+import {
+  ToolContext,
+  ToolDefinition,
+  toLLMTool,
+  toolRegistry,
+  validateToolArgs,
+} from '../tools/tool_registry';
+
+/**
+ * ToolCallingNode lets the agent call its tools before it answers.
+ *
+ * This node:
+ * - Receives the chat request built by DialogPromptBuilderNode
+ * - Passes the conversation on if the agent has no tools, minus the tool
+ *   calls of earlier turns, which providers reject without tools
+ * - Otherwise asks the LLM, advertising the agent's tools and
+ *   transfer_to_agent if the session can be handed off (see handoff.ts),
+ *   up to MAX_TOOL_CALL_ROUNDS times while it calls tools:
+ *   - Sends TOOL_CALL to the client, runs the handler, sends TOOL_RESULT
+ *   - Adds the calls and their results to the request and the session's
+ *     messages, so later turns see them too
+ *   - After a handoff, builds the request again for the new agent, with
+ *     its knowledge and tools, so that it gives the answer
+ * - Returns the LLM's answer once it calls no more tools, for
+ *   TTSRequestBuilderNode and StateUpdateNode, so it isn't generated twice
+ * - Otherwise (no tools, an empty answer, or MAX_TOOL_CALL_ROUNDS reached)
+ *   returns the request for the LLM node to stream the answer, with tool
+ *   calls disabled
+ */
+export class ToolCallingNode extends CustomNode {
+  private connections: ConnectionsMap;
+  private sessionStore: SessionStore;
+  private generator: ToolCallGenerator;
+
+  constructor(props: {
+    id: string;
+    connections: ConnectionsMap;
+    sessionStore: SessionStore;
+    generator: ToolCallGenerator;
+  }) {
+    super({ id: props.id });
+    this.connections = props.connections;
+    this.sessionStore = props.sessionStore;
+    this.generator = props.generator;
+  }
+
+  async process(
+    context: ProcessContext,
+    request: GraphTypes.LLMChatRequest,
+  ): Promise<GraphTypes.LLMChatRequest | string> {
+    const sessionId = context.getDatastore().get('sessionId') as string;
+
+    const connection = this.connections[sessionId];
+    if (connection?.unloaded) {
+      throw Error(`Session unloaded for sessionId:${sessionId}`);
+    }
+    if (!connection) {
+      throw Error(`Failed to read connection for sessionId:${sessionId}`);
+    }
+
+    let sessionTools = getSessionTools(sessionId, connection);
+    let tools = getLLMTools(connection, sessionTools);
+    if (!tools.length) {
+      return new GraphTypes.LLMChatRequest({
+        messages: withoutToolCalls(request.messages),
+      });
+    }
+
+    const interactionId = connection.state.interactionId;
+    let messages = [...request.messages];
+
+    for (let round = 0; round < MAX_TOOL_CALL_ROUNDS; round++) {
+      const response = await this.generator.generate({ messages, tools });
+      if (!response.toolCalls?.length) {
+        if (response.content) {
+          return response.content;
+        }
+        break;
+      }
+
+      console.log(
+        `[Session ${sessionId}] Calling tools: ${response.toolCalls.map((call) => call.name).join(', ')}`,
+      );
+
+      // The calls are the current agent's, even if one hands the session off
+      const agentId = connection.state.agent.id;
+      const assistantMessage = {
+        role: 'assistant',
+        content: response.content ?? '',
+        toolCalls: response.toolCalls,
+      };
+      messages.push(assistantMessage);
+      connection.state.messages.push({
+        ...assistantMessage,
+        id: interactionId,
+        createdAt: Date.now(),
+        agentId,
+      });
+
+      // Calls of one response are independent, they run concurrently
+      const results = await Promise.all(
+        response.toolCalls.map((toolCall) =>
+          this.runToolCall(
+            connection,
+            toolCall,
+            { sessionId, interactionId },
+            sessionTools,
+          ),
+        ),
+      );
+      response.toolCalls.forEach((toolCall, index) => {
+        const toolMessage = {
+          role: 'tool',
+          content: results[index],
+          toolCallId: toolCall.id,
+        };
+        messages.push(toolMessage);
+        connection.state.messages.push({
+          ...toolMessage,
+          id: interactionId,
+          createdAt: Date.now(),
+          agentId,
+        });
+      });
+
+      await saveConnection(this.sessionStore, sessionId, connection);
+
+      if (connection.state.agent.id !== agentId) {
+        messages = buildHandoffMessages(connection);
+        sessionTools = getSessionTools(sessionId, connection);
+        tools = getLLMTools(connection, sessionTools);
+        if (!tools.length) {
+          return new GraphTypes.LLMChatRequest({
+            messages: withoutToolCalls(messages),
+          });
+        }
+      }
+    }
+
+    return new GraphTypes.LLMChatRequest({
+      messages,
+      tools,
+      toolChoice: { choice: 'none' },
+    });
+  }
+
+  /**
+   * Run a tool call, reporting it to the client. Returns the content of the
+   * tool message: the JSON result, or the error for the LLM to explain.
+   */
+  private async runToolCall(
+    connection: Connection,
+    toolCall: ToolCallInterface,
+    context: ToolContext,
+    sessionTools: ToolDefinition[],
+  ): Promise<string> {
+    let args: unknown;
+    try {
+      args = toolCall.args ? JSON.parse(toolCall.args) : {};
+    } catch {
+      args = toolCall.args;
+    }
+
+    connection.outbox.send(
+      EventFactory.toolCall(
+        { id: toolCall.id, name: toolCall.name, args },
+        context.interactionId,
+      ),
+    );
+
+    const startedAt = Date.now();
+    let result: unknown;
+    let error: string | undefined;
+    try {
+      result = await callTool(
+        sessionTools.find((tool) => tool.name === toolCall.name) ??
+          toolRegistry.get(toolCall.name),
+        toolCall.name,
+        args,
+        context,
+      );
+    } catch (e: any) {
+      error = e?.message || String(e);
+      console.warn(
+        `[Session ${context.sessionId}] Tool ${toolCall.name} failed: ${error}`,
+      );
+    }
+
+    connection.outbox.send(
+      EventFactory.toolResult(
+        {
+          id: toolCall.id,
+          name: toolCall.name,
+          result,
+          error,
+          durationMs: Date.now() - startedAt,
+        },
+        context.interactionId,
+      ),
+    );
+
+    return JSON.stringify(error === undefined ? { result } : { error });
+  }
+}
+
+async function callTool(
+  tool: ToolDefinition | undefined,
+  name: string,
+  args: unknown,
+  context: ToolContext,
+): Promise<unknown> {
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  if (typeof args === 'string') {
+    throw new Error('Arguments are not valid JSON');
+  }
+
+  const errors = validateToolArgs(tool.parameters, args);
+  if (errors.length) {
+    throw new Error(`Invalid arguments: ${errors.join('; ')}`);
+  }
+
+  let timeout: NodeJS.Timeout;
+  try {
+    return await Promise.race([
+      tool.handler(args as { [name: string]: any }, context),
+      new Promise((_resolve, reject) => {
+        timeout = setTimeout(
+          () =>
+            reject(new Error(`Timed out after ${TOOL_CALL_TIMEOUT_MS}ms`)),
+          TOOL_CALL_TIMEOUT_MS,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Tools that belong to the session rather than the registry
+function getSessionTools(
+  sessionId: string,
+  connection: Connection,
+): ToolDefinition[] {
+  const handoffTool = createHandoffTool(sessionId, connection);
+  return handoffTool ? [handoffTool as ToolDefinition] : [];
+}
+
+function getLLMTools(connection: Connection, sessionTools: ToolDefinition[]) {
+  return [
+    ...toolRegistry.toLLMTools(connection.state.agent.tools ?? []),
+    ...sessionTools.map(toLLMTool),
+  ];
+}
+
+// The request of the agent that took the session over: its context, with
+// the knowledge it has for the user's message
+function buildHandoffMessages(
+  connection: Connection,
+): LLMMessageInterface[] {
+  const state = connection.state;
+  const userMessage = [...state.messages]
+    .reverse()
+    .find((msg) => msg.role === 'user');
+  const passages = userMessage
+    ? retrieveKnowledge(connection, userMessage.content)
+    : [];
+  if (passages.length) {
+    connection.outbox.send(
+      EventFactory.citations(passages, state.interactionId),
+    );
+  }
+  return buildContextMessages({ ...state, knowledgePassages: passages });
+}
+
+// The conversation without tool calls and results, for agents without tools
+function withoutToolCalls(
+  messages: LLMMessageInterface[],
+): LLMMessageInterface[] {
+  return messages
+    .filter(
+      (msg) => msg.role !== 'tool' && (msg.content || !msg.toolCalls?.length),
+    )
+    .map(({ toolCalls, toolCallId, ...msg }) => msg);
+}
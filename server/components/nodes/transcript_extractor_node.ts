@@ -5,10 +5,10 @@ import { InteractionInfo } from '../../types';
 
 /**
  * TranscriptExtractorNode extracts transcript information from
- * DataStreamWithMetadata (typically output from AssemblyAISTTNode)
+ * DataStreamWithMetadata (typically output from STTNode)
  * and converts it to InteractionInfo for downstream processing.
  *
- * This is a helper node to bridge Assembly.AI STT output with
+ * This is a helper node to bridge STT provider output with
  * the rest of the graph that expects InteractionInfo.
  */
 export class TranscriptExtractorNode extends CustomNode {
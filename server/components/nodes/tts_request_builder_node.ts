@@ -1,22 +1,39 @@
 import { CustomNode, GraphTypes, ProcessContext } from '@inworld/runtime/graph';
 
+import {
+  DEFAULT_TTS_PITCH,
+  DEFAULT_TTS_SPEAKING_RATE,
+  DEFAULT_TTS_TEMPERATURE,
+  DEFAULT_VOICE_ID,
+  TTS_SAMPLE_RATE,
+} from '../../../constants';
 import { ConnectionsMap } from '../../types';
+import { SessionStore } from '../session_stores/session_store';
 
 /**
  * TTSRequestBuilderNode creates TTS requests with dynamic voice selection.
  *
  * This node:
- * - Receives text chunks from the LLM
- * - Reads the session's voiceId from connection state
+ * - Receives text chunks from the LLM, or the whole answer from
+ *   ToolCallingNode when it needs no more generation
+ * - Reads the voice of the agent answering, else the session's voiceId,
+ *   from connection state, falling back to the session store when the
+ *   session is not in memory
  * - Creates a TTSRequest with the appropriate voice
+ * - Applies the session's TTS parameter overrides (temperature, speaking
+ *   rate, pitch) set via config_update
  * - Allows voice selection per session without multiple graphs
  */
 export class TTSRequestBuilderNode extends CustomNode {
   private connections: ConnectionsMap;
+  private sessionStore: SessionStore;
+  private ttsModelId: string;
 
   constructor(props: {
     id: string;
     connections: ConnectionsMap;
+    sessionStore: SessionStore;
+    ttsModelId: string;
     reportToClient?: boolean;
   }) {
     super({
@@ -24,25 +41,50 @@ export class TTSRequestBuilderNode extends CustomNode {
       reportToClient: props.reportToClient,
     });
     this.connections = props.connections;
+    this.sessionStore = props.sessionStore;
+    this.ttsModelId = props.ttsModelId;
   }
 
-  process(
+  async process(
     context: ProcessContext,
-    textStream: GraphTypes.TextStream,
-  ): GraphTypes.TTSRequest {
+    text: GraphTypes.TextStream | string,
+  ): Promise<GraphTypes.TTSRequest> {
     // Get sessionId from context
     const sessionId = context.getDatastore().get('sessionId') as string;
-    
+
     // Get voice from session state
-    const connection = this.connections[sessionId];
-    const voiceId = connection?.state?.voiceId || 'Alex';
+    const state =
+      this.connections[sessionId]?.state ??
+      (await this.sessionStore.get(sessionId))?.state;
+    const voiceId = state?.agent?.voiceId || state?.voiceId || DEFAULT_VOICE_ID;
 
     console.log(`TTSRequestBuilder: Using voice ${voiceId} for session ${sessionId}`);
 
     // Create TTS request with dynamic voice
-    return GraphTypes.TTSRequest.withStream(textStream, {
-      speakerId: voiceId,
-    });
+    const voice = { speakerId: voiceId };
+    const ttsParams = state?.ttsParams;
+    const synthesisConfig = ttsParams && {
+      type: 'inworld' as const,
+      config: {
+        model_id: this.ttsModelId,
+        postprocessing: { sample_rate: TTS_SAMPLE_RATE },
+        inference: {
+          temperature: ttsParams.temperature ?? DEFAULT_TTS_TEMPERATURE,
+          pitch: ttsParams.pitch ?? DEFAULT_TTS_PITCH,
+          speaking_rate: ttsParams.speakingRate ?? DEFAULT_TTS_SPEAKING_RATE,
+        },
+      },
+    };
+
+    if (typeof text === 'string') {
+      return new GraphTypes.TTSRequest({
+        contentType: 'text',
+        text,
+        voice,
+        synthesisConfig,
+      });
+    }
+    return GraphTypes.TTSRequest.withStream(text, voice, synthesisConfig);
   }
 }
 
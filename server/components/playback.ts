@@ -0,0 +1,118 @@
+import { PlaybackProgressMessage } from '../../protocol';
+import { Connection } from '../types';
+
+/**
+ * Playback of the agent's answers, as reported by the client.
+ *
+ * An answer reaches the client as utterances: a TEXT packet with a chunk of
+ * the answer, followed by its AUDIO. The client reports each utterance it
+ * played to the end, and when the user barged in before the answer's end.
+ * The stored answer then keeps only the chunks the user heard, followed by
+ * INTERRUPTION_MARKER, so that the agent doesn't believe it said the rest.
+ * Answers of clients that don't report playback are stored in full.
+ */
+
+// Ends an interrupted answer in the conversation
+export const INTERRUPTION_MARKER = '[interrupted]';
+
+// Answers tracked per session, the oldest are dropped
+const MAX_TRACKED_ANSWERS = 5;
+
+export interface AnswerPlayback {
+  chunks: { utteranceId: string; text: string; played: boolean }[];
+  interrupted: boolean;
+}
+
+/**
+ * Remember the text of an utterance sent to the client
+ */
+export function trackAnswerChunk(
+  connection: Connection,
+  interactionId: string,
+  utteranceId: string,
+  text: string,
+) {
+  connection.playback ??= {};
+  if (!connection.playback[interactionId]) {
+    const interactionIds = Object.keys(connection.playback);
+    if (interactionIds.length >= MAX_TRACKED_ANSWERS) {
+      delete connection.playback[interactionIds[0]];
+    }
+    connection.playback[interactionId] = { chunks: [], interrupted: false };
+  }
+  connection.playback[interactionId].chunks.push({
+    utteranceId,
+    text,
+    played: false,
+  });
+}
+
+/**
+ * Apply a playback report of the client. Returns true if the stored answer
+ * was truncated.
+ */
+export function recordPlaybackProgress(
+  sessionId: string,
+  connection: Connection,
+  progress: Omit<PlaybackProgressMessage, 'type'>,
+): boolean {
+  const playback = connection.playback?.[progress.interactionId];
+  if (!playback) {
+    return false;
+  }
+
+  const chunk = playback.chunks.find(
+    (chunk) => chunk.utteranceId === progress.utteranceId,
+  );
+  if (chunk) {
+    chunk.played = true;
+  }
+  if (!progress.interrupted) {
+    return false;
+  }
+
+  playback.interrupted = true;
+  return truncateInterruptedAnswer(
+    sessionId,
+    connection,
+    progress.interactionId,
+  );
+}
+
+/**
+ * Cut the stored answer of an interrupted interaction down to what the user
+ * heard. Called when the interruption is reported, and when the answer is
+ * stored if that comes later. Returns true if the answer changed.
+ */
+export function truncateInterruptedAnswer(
+  sessionId: string,
+  connection: Connection,
+  interactionId: string,
+): boolean {
+  const playback = connection.playback?.[interactionId];
+  if (!playback?.interrupted) {
+    return false;
+  }
+
+  const answer = [...connection.state.messages]
+    .reverse()
+    .find(
+      (msg) =>
+        msg.id === interactionId && msg.role === 'assistant' && !msg.toolCalls,
+    );
+  if (!answer || answer.interrupted) {
+    return false;
+  }
+
+  const heard = playback.chunks.filter((chunk) => chunk.played);
+  answer.content = [
+    ...heard.map((chunk) => chunk.text.trim()).filter(Boolean),
+    INTERRUPTION_MARKER,
+  ].join(' ');
+  answer.interrupted = true;
+
+  console.log(
+    `[Session ${sessionId}] Interrupted answer stored as heard: ${heard.length} of ${playback.chunks.length} utterances`,
+  );
+  return true;
+}
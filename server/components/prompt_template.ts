@@ -0,0 +1,303 @@
+import { State } from '../types';
+import { ConfigUpdateError } from './session_config';
+
+/**
+ * System prompt templates.
+ *
+ * Tags are written in single braces, anything else is copied as is:
+ * - `{agent.name}`: a variable, see getPromptScope for the list
+ * - `{#if agent.knowledge}...{else}...{/if}`: kept if the value is a
+ *   non-empty text or list
+ * - `{#each agent.knowledge as fact}...{fact}...{/each}`: repeated for each
+ *   item of a list
+ * - `{{`: a literal `{`
+ */
+
+export type PromptTemplateContext = Pick<
+  State,
+  'agent' | 'userName' | 'timezone' | 'variables'
+>;
+
+type TemplateValue = string | string[] | { [key: string]: TemplateValue };
+type TemplateScope = { [key: string]: TemplateValue };
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; path: string; source: string }
+  | {
+      type: 'if';
+      path: string;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | { type: 'each'; path: string; alias: string; body: TemplateNode[] };
+
+// {{ | {#if path} | {#each path as alias} | {/if} | {/each} | {else} | {path}
+const TAG_PATTERN =
+  /\{\{|\{(?:(#if|#each)\s+([\w.]+)(?:\s+as\s+(\w+))?|(\/if|\/each|else)|([A-Za-z_][\w.]*))\s*\}/g;
+
+/**
+ * The variables a system prompt can use, for a session
+ */
+export function getPromptScope(
+  context: PromptTemplateContext,
+  now = new Date(),
+): TemplateScope {
+  const { agent, userName, variables } = context;
+  const timeZone = context.timezone ?? getServerTimezone();
+
+  return {
+    userName: userName ?? '',
+    user: { name: userName ?? '' },
+    agent: {
+      name: agent.name ?? '',
+      description: agent.description ?? '',
+      motivation: agent.motivation ?? '',
+      knowledge: agent.knowledge ?? [],
+      tools: agent.tools ?? [],
+    },
+    date: now.toLocaleDateString('en-US', {
+      timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }),
+    time: now.toLocaleTimeString('en-US', {
+      timeZone,
+      hour: 'numeric',
+      minute: '2-digit',
+    }),
+    timezone: timeZone,
+    vars: { ...variables },
+  };
+}
+
+/**
+ * Check a template against the session's variables: its tags must be well
+ * formed and every variable must exist, with the right kind of value.
+ * With `anyCustomVariables`, for templates saved before there is a session
+ * (agent profiles), every `{vars.<name>}` is accepted.
+ * Returns false if errors were added.
+ */
+export function validatePromptTemplate(
+  template: string,
+  context: PromptTemplateContext,
+  field: string,
+  errors: ConfigUpdateError[],
+  options: { anyCustomVariables?: boolean } = {},
+): boolean {
+  const messages: string[] = [];
+  const nodes = parseTemplate(template, messages);
+  if (!messages.length) {
+    const scope = getPromptScope(context);
+    if (options.anyCustomVariables) {
+      scope.vars = Object.fromEntries(
+        getPaths(nodes)
+          .filter((path) => path.startsWith('vars.'))
+          .map((path) => [path.split('.')[1], '']),
+      );
+    }
+    checkNodes(nodes, scope, messages);
+  }
+
+  errors.push(...messages.map((message) => ({ field, message })));
+  return !messages.length;
+}
+
+/**
+ * Fill in a template. Templates are validated when they're set, so this
+ * never fails: malformed templates are returned as is and unknown
+ * variables are left in place.
+ */
+export function renderPromptTemplate(
+  template: string,
+  context: PromptTemplateContext,
+  now = new Date(),
+): string {
+  const messages: string[] = [];
+  const nodes = parseTemplate(template, messages);
+  if (messages.length) {
+    return template;
+  }
+  return renderNodes(nodes, getPromptScope(context, now));
+}
+
+/**
+ * Whether the name is a time zone known to the runtime, e.g. Europe/Paris
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getServerTimezone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC';
+}
+
+function parseTemplate(template: string, errors: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the list their content goes to
+  const stack: {
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+    children: TemplateNode[];
+  }[] = [];
+  const current = () =>
+    stack.length ? stack[stack.length - 1].children : root;
+
+  const addText = (text: string) => {
+    if (/\{[#/]/.test(text)) {
+      errors.push(`Malformed tag near "${text.match(/\{[#/][^}]{0,30}/)[0]}"`);
+    }
+    if (text) {
+      current().push({ type: 'text', text });
+    }
+  };
+
+  let position = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    addText(template.slice(position, match.index));
+    position = match.index + match[0].length;
+
+    const [tag, open, openPath, alias, close, path] = match;
+    if (tag === '{{') {
+      current().push({ type: 'text', text: '{' });
+    } else if (path) {
+      current().push({ type: 'variable', path, source: tag });
+    } else if (open === '#if') {
+      const node: TemplateNode = {
+        type: 'if',
+        path: openPath,
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, children: node.then });
+    } else if (open === '#each') {
+      if (!alias) {
+        errors.push(`${tag} needs a name for the items: {#each ${openPath} as item}`);
+      }
+      const node: TemplateNode = {
+        type: 'each',
+        path: openPath,
+        alias,
+        body: [],
+      };
+      current().push(node);
+      stack.push({ node, children: node.body });
+    } else if (close === 'else') {
+      const block = stack[stack.length - 1];
+      if (block?.node.type !== 'if' || block.children === block.node.otherwise) {
+        errors.push('{else} outside of an {#if} block');
+      } else {
+        block.children = block.node.otherwise;
+      }
+    } else {
+      const type = close === '/if' ? 'if' : 'each';
+      if (stack[stack.length - 1]?.node.type !== type) {
+        errors.push(`${tag} without a matching {#${type}}`);
+      } else {
+        stack.pop();
+      }
+    }
+  }
+  addText(template.slice(position));
+
+  for (const { node } of stack) {
+    errors.push(`{#${node.type} ${node.path}} is never closed with {/${node.type}}`);
+  }
+
+  return root;
+}
+
+function checkNodes(
+  nodes: TemplateNode[],
+  scope: TemplateScope,
+  errors: string[],
+) {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      continue;
+    }
+
+    const value = resolve(scope, node.path);
+    if (value === undefined) {
+      errors.push(`Unknown variable: ${node.path}`);
+    } else if (node.type === 'variable') {
+      if (typeof value !== 'string') {
+        errors.push(
+          Array.isArray(value)
+            ? `${node.path} is a list, use {#each ${node.path} as item}`
+            : `${node.path} is not a value, use one of its fields`,
+        );
+      }
+    } else if (node.type === 'if') {
+      checkNodes(node.then, scope, errors);
+      checkNodes(node.otherwise, scope, errors);
+    } else if (!Array.isArray(value)) {
+      errors.push(`${node.path} is not a list`);
+    } else {
+      checkNodes(node.body, { ...scope, [node.alias]: '' }, errors);
+    }
+  }
+}
+
+// The variable paths a template uses
+function getPaths(nodes: TemplateNode[]): string[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case 'text':
+        return [];
+      case 'variable':
+        return [node.path];
+      case 'if':
+        return [node.path, ...getPaths(node.then), ...getPaths(node.otherwise)];
+      case 'each':
+        return [node.path, ...getPaths(node.body)];
+    }
+  });
+}
+
+function renderNodes(nodes: TemplateNode[], scope: TemplateScope): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.text;
+      continue;
+    }
+
+    const value = resolve(scope, node.path);
+    if (node.type === 'variable') {
+      output += typeof value === 'string' ? value : node.source;
+    } else if (node.type === 'if') {
+      const isSet = Array.isArray(value)
+        ? value.length > 0
+        : typeof value === 'string' && value.trim() !== '';
+      output += renderNodes(isSet ? node.then : node.otherwise, scope);
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        output += renderNodes(node.body, { ...scope, [node.alias]: item });
+      }
+    }
+  }
+  return output;
+}
+
+function resolve(scope: TemplateScope, path: string): TemplateValue | undefined {
+  let value: TemplateValue | undefined = scope;
+  for (const key of path.split('.')) {
+    if (
+      typeof value !== 'object' ||
+      Array.isArray(value) ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
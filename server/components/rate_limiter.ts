@@ -0,0 +1,177 @@
+import { ERROR_CODE } from '../../protocol';
+import { AuthPrincipal } from './auth';
+
+export interface RateLimit {
+  /** Bucket size: how much can be spent in a burst */
+  limit: number;
+  /** Time for an empty bucket to refill completely */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** How long until the request would be allowed, 0 if it was */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * RateLimiter keeps one token bucket per key (client IP, API key or
+ * session). Each bucket holds up to `limit` tokens and refills at
+ * `limit / windowMs`. A limiter without a limit allows everything.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(
+    readonly name: string,
+    private rateLimit?: RateLimit,
+  ) {
+    if (rateLimit) {
+      // Full buckets carry no information, drop them so the map stays small
+      this.pruneTimer = setInterval(() => this.prune(), rateLimit.windowMs);
+      this.pruneTimer.unref();
+    }
+  }
+
+  get limit(): number | undefined {
+    return this.rateLimit?.limit;
+  }
+
+  /**
+   * Take `cost` tokens from the key's bucket if it has enough
+   */
+  consume(key: string, cost = 1): RateLimitResult {
+    if (!this.rateLimit) {
+      return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+    }
+
+    const { limit, windowMs } = this.rateLimit;
+    const now = Date.now();
+    const bucket = this.refill(key, now);
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return { allowed: true, remaining: bucket.tokens, retryAfterMs: 0 };
+    }
+
+    // A cost above the limit can never be satisfied
+    const missing = Math.min(cost, limit) - bucket.tokens;
+    return {
+      allowed: false,
+      remaining: bucket.tokens,
+      retryAfterMs: Math.ceil((missing * windowMs) / limit),
+    };
+  }
+
+  /**
+   * Express middleware limiting requests per token subject, per API key and
+   * client IP, or per client IP without authentication
+   */
+  middleware() {
+    return (req: any, res: any, next: () => void) => {
+      const key = getRequestKey(res.locals.auth, req.ip);
+      const result = this.consume(key);
+
+      if (this.limit !== undefined) {
+        res.setHeader('RateLimit-Limit', this.limit);
+        res.setHeader('RateLimit-Remaining', Math.floor(result.remaining));
+      }
+
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+        console.log(`[RateLimit] ${this.name} limit exceeded for ${key}`);
+        res.setHeader('Retry-After', retryAfterSeconds);
+        return res.status(429).json({
+          error: `Rate limit exceeded for ${this.name}`,
+          code: ERROR_CODE.RATE_LIMITED,
+          limit: this.name,
+          retryAfterSeconds,
+        });
+      }
+
+      next();
+    };
+  }
+
+  stop() {
+    clearInterval(this.pruneTimer);
+    this.buckets.clear();
+  }
+
+  private refill(key: string, now: number): Bucket {
+    const { limit, windowMs } = this.rateLimit!;
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      bucket = { tokens: limit, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const refilled = ((now - bucket.updatedAt) * limit) / windowMs;
+    bucket.tokens = Math.min(limit, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const key of [...this.buckets.keys()]) {
+      if (this.refill(key, now).tokens >= this.rateLimit!.limit) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Bucket key of an HTTP request. An API key is shared by all the clients
+ * of an app (the browser client ships one), so each client IP gets its own
+ * bucket for it; access tokens are issued per user.
+ */
+export function getRequestKey(
+  principal: AuthPrincipal | undefined,
+  ip: string | undefined,
+): string {
+  const clientIp = ip ?? 'unknown';
+  if (!principal) {
+    return clientIp;
+  }
+  return principal.credential === 'api-key'
+    ? `${principal.subject}@${clientIp}`
+    : principal.subject;
+}
+
+export interface RateLimitsConfig {
+  load?: RateLimit;
+  generateCharacter?: RateLimit;
+  cloneVoice?: RateLimit;
+  wsText?: RateLimit;
+  wsAudioBytes?: RateLimit;
+}
+
+/**
+ * Limiters for the expensive HTTP routes (keyed by API key or IP) and for
+ * inbound WebSocket traffic (keyed by session)
+ */
+export function createRateLimiters(config: RateLimitsConfig) {
+  return {
+    load: new RateLimiter('load', config.load),
+    generateCharacter: new RateLimiter(
+      'generate-character',
+      config.generateCharacter,
+    ),
+    cloneVoice: new RateLimiter('clone-voice', config.cloneVoice),
+    wsText: new RateLimiter('text messages', config.wsText),
+    wsAudioBytes: new RateLimiter('audio', config.wsAudioBytes),
+  };
+}
+
+export type RateLimiters = ReturnType<typeof createRateLimiters>;
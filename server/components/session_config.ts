@@ -0,0 +1,964 @@
+import {
+  MAX_AGENT_REPLIES,
+  MAX_HANDOFF_KEYWORDS,
+  MAX_HANDOFF_RULES,
+  MAX_KNOWLEDGE_DOCUMENT_LENGTH,
+  MAX_KNOWLEDGE_DOCUMENTS,
+  TEXT_CONFIG,
+} from '../../constants';
+import {
+  Agent,
+  AgentProfile,
+  ContextWindowConfig,
+  HandoffRule,
+  HandoffState,
+  LLMParams,
+  SessionConfigUpdate,
+  State,
+  TTSParams,
+  TurnTakingConfig,
+} from '../types';
+import { createKnowledgeDocument } from './knowledge/knowledge_base';
+import {
+  isValidTimezone,
+  PromptTemplateContext,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from './prompt_template';
+import { toolRegistry } from './tools/tool_registry';
+import { TURN_TAKING_POLICIES } from './turn_taking/turn_taking';
+
+export interface ConfigUpdateError {
+  field: string;
+  message: string;
+}
+
+const AGENT_TEXT_FIELDS = ['name', 'description', 'motivation'] as const;
+
+// Allowed ranges for numeric parameters, inclusive
+const TTS_PARAM_RANGES: { [key in keyof TTSParams]-?: [number, number] } = {
+  temperature: [0, 2],
+  speakingRate: [0.5, 1.5],
+  pitch: [-5, 5],
+};
+
+const LLM_NUMERIC_PARAM_RANGES: {
+  [key in Exclude<keyof LLMParams, 'modelName' | 'provider'>]-?: [
+    number,
+    number,
+  ];
+} = {
+  temperature: [0, 2],
+  topP: [0, 1],
+  maxNewTokens: [1, 4096],
+  repetitionPenalty: [0, 2],
+  frequencyPenalty: [-2, 2],
+  presencePenalty: [-2, 2],
+};
+
+// Prompts over the LLM's maxPromptLength would be truncated upstream
+const CONTEXT_WINDOW_RANGES: {
+  [key in keyof ContextWindowConfig]-?: [number, number];
+} = {
+  maxPromptTokens: [100, TEXT_CONFIG.maxPromptLength],
+  keepLastTurns: [1, 50],
+  summarizeAfterTurns: [1, 50],
+};
+
+const MAX_SYSTEM_PROMPT_LENGTH = 20000;
+const MAX_SHORT_TEXT_LENGTH = 200;
+const MAX_PROMPT_VARIABLES = 50;
+const MAX_PROMPT_VARIABLE_LENGTH = 2000;
+const MAX_GREETING_LENGTH = 2000;
+
+/**
+ * Build the system message content for a session: the agent's system
+ * prompt with its template filled in (see prompt_template.ts)
+ */
+export function createSystemMessage(context: PromptTemplateContext) {
+  return renderPromptTemplate(context.agent.systemPrompt ?? '', context);
+}
+
+/**
+ * Render the session's system message again, for a new turn or after its
+ * template or variables changed
+ */
+export function refreshSystemMessage(state: State) {
+  const systemMessage = state.messages.find((m) => m.role === 'system');
+  if (systemMessage) {
+    systemMessage.content = createSystemMessage(state);
+  }
+}
+
+/**
+ * Validate a `config_update` payload received over the WebSocket.
+ * Unknown fields are rejected so that typos don't silently do nothing.
+ */
+export function validateConfigUpdate(raw: any): {
+  update?: SessionConfigUpdate;
+  errors: ConfigUpdateError[];
+} {
+  const errors: ConfigUpdateError[] = [];
+
+  if (!isPlainObject(raw)) {
+    return {
+      errors: [{ field: 'config', message: 'config must be an object' }],
+    };
+  }
+
+  const update: SessionConfigUpdate = {};
+
+  for (const key of Object.keys(raw)) {
+    switch (key) {
+      case 'voiceId':
+        if (checkString(raw.voiceId, 'voiceId', MAX_SHORT_TEXT_LENGTH, errors))
+          update.voiceId = raw.voiceId.trim();
+        break;
+
+      case 'systemPrompt':
+        if (
+          checkString(
+            raw.systemPrompt,
+            'systemPrompt',
+            MAX_SYSTEM_PROMPT_LENGTH,
+            errors,
+          )
+        )
+          update.systemPrompt = raw.systemPrompt;
+        break;
+
+      case 'userName':
+        if (
+          checkString(raw.userName, 'userName', MAX_SHORT_TEXT_LENGTH, errors)
+        )
+          update.userName = raw.userName.trim();
+        break;
+
+      case 'agent':
+        update.agent = validateAgent(raw.agent, errors);
+        break;
+
+      case 'variables':
+        update.variables = validatePromptVariables(
+          raw.variables,
+          'variables',
+          errors,
+        );
+        break;
+
+      case 'timezone':
+        if (validateTimezone(raw.timezone, 'timezone', errors))
+          update.timezone = raw.timezone;
+        break;
+
+      case 'tts':
+        update.tts = validateNumericParams(
+          raw.tts,
+          'tts',
+          TTS_PARAM_RANGES,
+          errors,
+        );
+        break;
+
+      case 'llm':
+        update.llm = validateLLMParams(raw.llm, errors);
+        break;
+
+      default:
+        errors.push({ field: key, message: 'Unknown configuration field' });
+    }
+  }
+
+  if (!errors.length && !Object.keys(update).length) {
+    errors.push({ field: 'config', message: 'No configuration changes' });
+  }
+
+  return errors.length ? { errors } : { update, errors };
+}
+
+/**
+ * Combine two updates, the later one winning field by field
+ */
+export function mergeConfigUpdates(
+  current: SessionConfigUpdate | undefined,
+  next: SessionConfigUpdate,
+): SessionConfigUpdate {
+  if (!current) {
+    return next;
+  }
+
+  return {
+    ...current,
+    ...next,
+    agent:
+      current.agent || next.agent
+        ? {
+            ...current.agent,
+            ...next.agent,
+            contextWindow:
+              current.agent?.contextWindow || next.agent?.contextWindow
+                ? {
+                    ...current.agent?.contextWindow,
+                    ...next.agent?.contextWindow,
+                  }
+                : undefined,
+          }
+        : undefined,
+    tts: current.tts || next.tts ? { ...current.tts, ...next.tts } : undefined,
+    llm: current.llm || next.llm ? { ...current.llm, ...next.llm } : undefined,
+  };
+}
+
+/**
+ * List the fields changed by an update, e.g. ['voiceId', 'tts.speakingRate']
+ */
+export function describeConfigUpdate(update: SessionConfigUpdate): string[] {
+  const fields: string[] = [];
+
+  for (const [key, value] of Object.entries(update)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value)) {
+      fields.push(...Object.keys(value).map((field) => `${key}.${field}`));
+    } else {
+      fields.push(key);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Validate an agent's context window thresholds, given at /load or in a
+ * `config_update`
+ */
+export function validateContextWindow(
+  raw: any,
+  field: string,
+  errors: ConfigUpdateError[],
+): ContextWindowConfig | undefined {
+  const config: ContextWindowConfig | undefined = validateNumericParams(
+    raw,
+    field,
+    CONTEXT_WINDOW_RANGES,
+    errors,
+  );
+
+  for (const [key, value] of Object.entries(config ?? {})) {
+    if (!Number.isInteger(value)) {
+      errors.push({ field: `${field}.${key}`, message: 'must be an integer' });
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Validate an agent's knowledge snippets, given at /load or in a
+ * `config_update`. Together they are limited like an uploaded document.
+ */
+export function validateKnowledge(
+  raw: any,
+  field: string,
+  errors: ConfigUpdateError[],
+): string[] | undefined {
+  if (!Array.isArray(raw) || raw.some((k) => typeof k !== 'string')) {
+    errors.push({ field, message: 'must be an array of strings' });
+    return undefined;
+  }
+
+  const length = raw.reduce((total: number, k: string) => total + k.length, 0);
+  if (length > MAX_KNOWLEDGE_DOCUMENT_LENGTH) {
+    errors.push({
+      field,
+      message: `must be at most ${MAX_KNOWLEDGE_DOCUMENT_LENGTH} characters in total`,
+    });
+    return undefined;
+  }
+
+  return raw.filter((k: string) => k.trim());
+}
+
+/**
+ * Validate the custom system prompt variables given at /load or in a
+ * `config_update`: text values under identifier names
+ */
+export function validatePromptVariables(
+  raw: any,
+  field: string,
+  errors: ConfigUpdateError[],
+): { [name: string]: string } | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field, message: `${field} must be an object` });
+    return undefined;
+  }
+
+  const names = Object.keys(raw);
+  if (names.length > MAX_PROMPT_VARIABLES) {
+    errors.push({
+      field,
+      message: `must have at most ${MAX_PROMPT_VARIABLES} variables`,
+    });
+    return undefined;
+  }
+
+  const variables: { [name: string]: string } = {};
+  for (const name of names) {
+    if (!/^[A-Za-z_]\w{0,63}$/.test(name)) {
+      errors.push({
+        field: `${field}.${name}`,
+        message: 'names must be identifiers of at most 64 characters',
+      });
+    } else if (
+      typeof raw[name] !== 'string' ||
+      raw[name].length > MAX_PROMPT_VARIABLE_LENGTH
+    ) {
+      errors.push({
+        field: `${field}.${name}`,
+        message: `must be a string of at most ${MAX_PROMPT_VARIABLE_LENGTH} characters`,
+      });
+    } else {
+      variables[name] = raw[name];
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Validate the time zone given at /load or in a `config_update`
+ */
+export function validateTimezone(
+  raw: any,
+  field: string,
+  errors: ConfigUpdateError[],
+): boolean {
+  if (typeof raw !== 'string' || !isValidTimezone(raw)) {
+    errors.push({
+      field,
+      message: 'must be an IANA time zone, e.g. Europe/Paris',
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check the system prompt template against the session as the staged
+ * update would leave it, since the prompt, the agent, the user name and
+ * the variables it uses can each change. In multi-agent sessions the
+ * agents are set at /load, the prompts of all of them are checked.
+ */
+export function validateSystemPromptUpdate(
+  state: State,
+  update: SessionConfigUpdate,
+  errors: ConfigUpdateError[],
+) {
+  if (state.agents) {
+    for (const field of ['agent', 'systemPrompt'] as const) {
+      if (update[field] !== undefined) {
+        errors.push({
+          field,
+          message: 'cannot be changed in multi-agent sessions',
+        });
+      }
+    }
+  }
+
+  for (const agent of state.agents ?? [state.agent]) {
+    const context: PromptTemplateContext = {
+      agent: {
+        ...agent,
+        ...update.agent,
+        systemPrompt: update.systemPrompt ?? agent.systemPrompt,
+      },
+      userName: update.userName ?? state.userName,
+      timezone: update.timezone ?? state.timezone,
+      variables: update.variables ?? state.variables,
+    };
+
+    validatePromptTemplate(
+      context.agent.systemPrompt ?? '',
+      context,
+      'systemPrompt',
+      errors,
+    );
+  }
+}
+
+/**
+ * Validate the tools given to an agent at /load or in a `config_update`:
+ * names of registered tools
+ */
+export function validateAgentTools(
+  raw: any,
+  field: string,
+  errors: ConfigUpdateError[],
+): string[] | undefined {
+  if (!Array.isArray(raw) || raw.some((name) => typeof name !== 'string')) {
+    errors.push({ field, message: 'must be an array of strings' });
+    return undefined;
+  }
+
+  const unknown = toolRegistry.findUnknown(raw);
+  if (unknown.length) {
+    errors.push({ field, message: `Unknown tools: ${unknown.join(', ')}` });
+    return undefined;
+  }
+
+  return [...new Set<string>(raw)];
+}
+
+/**
+ * Validate an agent profile created or replaced with the /agents API.
+ * Its templates can use any custom variable, they're checked against the
+ * session's variables at /load.
+ */
+export function validateAgentProfile(
+  raw: any,
+  errors: ConfigUpdateError[],
+): AgentProfile | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field: 'agent', message: 'agent must be an object' });
+    return undefined;
+  }
+
+  const profile: Partial<AgentProfile> = {};
+
+  for (const key of Object.keys(raw)) {
+    switch (key) {
+      case 'name':
+      case 'voiceId':
+        if (checkString(raw[key], key, MAX_SHORT_TEXT_LENGTH, errors))
+          profile[key] = raw[key].trim();
+        break;
+
+      case 'description':
+      case 'motivation':
+      case 'systemPrompt':
+        if (checkString(raw[key], key, MAX_SYSTEM_PROMPT_LENGTH, errors))
+          profile[key] = raw[key];
+        break;
+
+      case 'greeting':
+        if (checkString(raw.greeting, key, MAX_GREETING_LENGTH, errors))
+          profile.greeting = raw.greeting;
+        break;
+
+      case 'knowledge':
+        profile.knowledge = validateKnowledge(raw.knowledge, key, errors);
+        break;
+
+      case 'tools':
+        profile.tools = validateAgentTools(raw.tools, key, errors);
+        break;
+
+      case 'contextWindow':
+        profile.contextWindow = validateContextWindow(
+          raw.contextWindow,
+          key,
+          errors,
+        );
+        break;
+
+      case 'tts':
+        profile.tts = validateNumericParams(
+          raw.tts,
+          'tts',
+          TTS_PARAM_RANGES,
+          errors,
+        );
+        break;
+
+      case 'llm':
+        profile.llm = validateLLMParams(raw.llm, errors);
+        break;
+
+      default:
+        errors.push({ field: key, message: 'Unknown agent profile field' });
+    }
+  }
+
+  if (raw.name === undefined) {
+    errors.push({ field: 'name', message: 'is required' });
+  }
+  if (errors.length) {
+    return undefined;
+  }
+
+  const context: PromptTemplateContext = {
+    agent: { id: '', description: '', motivation: '', ...profile } as Agent,
+    userName: '',
+  };
+  for (const field of ['systemPrompt', 'greeting'] as const) {
+    if (profile[field] !== undefined) {
+      validatePromptTemplate(profile[field], context, field, errors, {
+        anyCustomVariables: true,
+      });
+    }
+  }
+
+  return errors.length ? undefined : (profile as AgentProfile);
+}
+
+/**
+ * Validate an agent given at /load, inline or from a profile, in place:
+ * its context window, knowledge, documents, tools and system prompt.
+ * Returns the error response if it's invalid.
+ */
+export function validateSessionAgent(
+  agent: Agent,
+  field: string,
+  scope: Omit<PromptTemplateContext, 'agent'>,
+): { error: string; errors: ConfigUpdateError[] } | undefined {
+  const invalid = (name: string, errors: ConfigUpdateError[]) => ({
+    error: `Invalid ${field}.${name}`,
+    errors,
+  });
+
+  if (agent.contextWindow !== undefined) {
+    const contextErrors: ConfigUpdateError[] = [];
+    agent.contextWindow = validateContextWindow(
+      agent.contextWindow,
+      `${field}.contextWindow`,
+      contextErrors,
+    );
+    if (contextErrors.length) {
+      return invalid('contextWindow', contextErrors);
+    }
+  }
+
+  if (agent.knowledge !== undefined) {
+    const knowledgeErrors: ConfigUpdateError[] = [];
+    agent.knowledge = validateKnowledge(
+      agent.knowledge,
+      `${field}.knowledge`,
+      knowledgeErrors,
+    );
+    if (knowledgeErrors.length) {
+      return invalid('knowledge', knowledgeErrors);
+    }
+  }
+
+  if (agent.documents !== undefined) {
+    const documentErrors: ConfigUpdateError[] = [];
+    if (
+      !Array.isArray(agent.documents) ||
+      agent.documents.length > MAX_KNOWLEDGE_DOCUMENTS
+    ) {
+      documentErrors.push({
+        field: `${field}.documents`,
+        message: `must be an array of at most ${MAX_KNOWLEDGE_DOCUMENTS} documents`,
+      });
+    } else {
+      agent.documents = agent.documents.map((raw: any, index: number) => {
+        const errors: ConfigUpdateError[] = [];
+        const document = createKnowledgeDocument(raw, errors);
+        documentErrors.push(
+          ...errors.map((error) => ({
+            ...error,
+            field: `${field}.documents[${index}].${error.field}`,
+          })),
+        );
+        return document;
+      });
+    }
+    if (documentErrors.length) {
+      return invalid('documents', documentErrors);
+    }
+  }
+
+  if (agent.tools !== undefined) {
+    const toolErrors: ConfigUpdateError[] = [];
+    agent.tools = validateAgentTools(
+      agent.tools,
+      `${field}.tools`,
+      toolErrors,
+    );
+    if (toolErrors.length) {
+      return invalid('tools', toolErrors);
+    }
+  }
+
+  // Unknown variables would reach the LLM as literal tags
+  if (agent.systemPrompt !== undefined) {
+    const templateErrors: ConfigUpdateError[] = [];
+    if (typeof agent.systemPrompt !== 'string') {
+      templateErrors.push({
+        field: `${field}.systemPrompt`,
+        message: 'must be a string',
+      });
+    } else {
+      validatePromptTemplate(
+        agent.systemPrompt,
+        { ...scope, agent },
+        `${field}.systemPrompt`,
+        templateErrors,
+      );
+    }
+    if (templateErrors.length) {
+      return invalid('systemPrompt', templateErrors);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate the turn-taking of a multi-agent session, given at /load
+ */
+export function validateTurnTaking(
+  raw: any,
+  field: string,
+  errors: ConfigUpdateError[],
+): TurnTakingConfig | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field, message: 'must be an object' });
+    return undefined;
+  }
+
+  const turnTaking: TurnTakingConfig = {};
+  for (const key of Object.keys(raw)) {
+    switch (key) {
+      case 'policy':
+        if (TURN_TAKING_POLICIES.includes(raw.policy)) {
+          turnTaking.policy = raw.policy;
+        } else {
+          errors.push({
+            field: `${field}.policy`,
+            message: `must be one of: ${TURN_TAKING_POLICIES.join(', ')}`,
+          });
+        }
+        break;
+
+      case 'maxAgentReplies':
+        if (
+          Number.isInteger(raw.maxAgentReplies) &&
+          raw.maxAgentReplies >= 0 &&
+          raw.maxAgentReplies <= MAX_AGENT_REPLIES
+        ) {
+          turnTaking.maxAgentReplies = raw.maxAgentReplies;
+        } else {
+          errors.push({
+            field: `${field}.maxAgentReplies`,
+            message: `must be an integer between 0 and ${MAX_AGENT_REPLIES}`,
+          });
+        }
+        break;
+
+      default:
+        errors.push({
+          field: `${field}.${key}`,
+          message: 'Unknown turn-taking field',
+        });
+    }
+  }
+
+  return errors.length ? undefined : turnTaking;
+}
+
+/**
+ * Validate the handoff of a session, given at /load, apart from its agents
+ * (checked by the route). Rules can only send the session to `agentIds`.
+ */
+export function validateHandoff(
+  raw: any,
+  agentIds: string[],
+  field: string,
+  errors: ConfigUpdateError[],
+): Pick<HandoffState, 'rules' | 'transferTool'> | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field, message: 'must be an object' });
+    return undefined;
+  }
+
+  const handoff: Pick<HandoffState, 'rules' | 'transferTool'> = {
+    rules: [],
+    transferTool: true,
+  };
+  for (const key of Object.keys(raw)) {
+    switch (key) {
+      case 'agents':
+        break;
+
+      case 'rules':
+        if (
+          !Array.isArray(raw.rules) ||
+          raw.rules.length > MAX_HANDOFF_RULES
+        ) {
+          errors.push({
+            field: `${field}.rules`,
+            message: `must be an array of at most ${MAX_HANDOFF_RULES} rules`,
+          });
+          break;
+        }
+        raw.rules.forEach((rule: any, index: number) => {
+          const parsed = validateHandoffRule(
+            rule,
+            agentIds,
+            `${field}.rules[${index}]`,
+            errors,
+          );
+          if (parsed) {
+            handoff.rules.push(parsed);
+          }
+        });
+        break;
+
+      case 'transferTool':
+        if (typeof raw.transferTool === 'boolean') {
+          handoff.transferTool = raw.transferTool;
+        } else {
+          errors.push({
+            field: `${field}.transferTool`,
+            message: 'must be a boolean',
+          });
+        }
+        break;
+
+      default:
+        errors.push({
+          field: `${field}.${key}`,
+          message: 'Unknown handoff field',
+        });
+    }
+  }
+
+  return errors.length ? undefined : handoff;
+}
+
+/**
+ * Apply the staged config update (if any) to the session state.
+ * Returns true if the state changed.
+ */
+export function applyPendingConfigUpdate(state: State): boolean {
+  const update = state.pendingConfigUpdate;
+  if (!update) {
+    return false;
+  }
+
+  state.pendingConfigUpdate = undefined;
+
+  if (update.voiceId !== undefined) {
+    state.voiceId = update.voiceId;
+    // An agent with its own voice (e.g. from a profile, in multi-agent or
+    // handoff sessions) would keep speaking with it
+    if (state.agent.voiceId) {
+      state.agent = { ...state.agent, voiceId: update.voiceId };
+    }
+  }
+  if (update.userName !== undefined) {
+    state.userName = update.userName;
+  }
+  if (update.variables !== undefined) {
+    state.variables = update.variables;
+  }
+  if (update.timezone !== undefined) {
+    state.timezone = update.timezone;
+  }
+  if (update.agent) {
+    const { contextWindow, ...agent } = update.agent;
+    state.agent = { ...state.agent, ...agent };
+    if (contextWindow) {
+      state.agent.contextWindow = {
+        ...state.agent.contextWindow,
+        ...contextWindow,
+      };
+    }
+  }
+  if (update.systemPrompt !== undefined) {
+    state.agent = { ...state.agent, systemPrompt: update.systemPrompt };
+  }
+  if (update.tts) {
+    state.ttsParams = { ...state.ttsParams, ...update.tts };
+  }
+  if (update.llm) {
+    state.llmParams = { ...state.llmParams, ...update.llm };
+  }
+
+  // The system message depends on the prompt, the agent, the user name and
+  // the variables
+  refreshSystemMessage(state);
+
+  return true;
+}
+
+/**
+ * Text generation config for a session's LLM parameters
+ */
+export function toTextGenerationConfig(llmParams?: LLMParams) {
+  const { modelName, provider, ...generationParams } = llmParams ?? {};
+  return { ...TEXT_CONFIG, ...generationParams };
+}
+
+function validateAgent(
+  raw: any,
+  errors: ConfigUpdateError[],
+): Partial<Agent> | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field: 'agent', message: 'agent must be an object' });
+    return undefined;
+  }
+
+  const agent: Partial<Agent> = {};
+
+  for (const key of Object.keys(raw)) {
+    const field = `agent.${key}`;
+
+    if ((AGENT_TEXT_FIELDS as readonly string[]).includes(key)) {
+      if (checkString(raw[key], field, MAX_SYSTEM_PROMPT_LENGTH, errors)) {
+        agent[key as (typeof AGENT_TEXT_FIELDS)[number]] = raw[key];
+      }
+    } else if (key === 'contextWindow') {
+      agent.contextWindow = validateContextWindow(raw.contextWindow, field, errors);
+    } else if (key === 'tools') {
+      agent.tools = validateAgentTools(raw.tools, field, errors);
+    } else if (key === 'knowledge') {
+      agent.knowledge = validateKnowledge(raw.knowledge, field, errors);
+    } else {
+      errors.push({ field, message: 'Unknown agent field' });
+    }
+  }
+
+  return agent;
+}
+
+function validateLLMParams(
+  raw: any,
+  errors: ConfigUpdateError[],
+): LLMParams | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field: 'llm', message: 'llm must be an object' });
+    return undefined;
+  }
+
+  const { modelName, provider, ...numeric } = raw;
+  const params: LLMParams =
+    validateNumericParams(numeric, 'llm', LLM_NUMERIC_PARAM_RANGES, errors) ??
+    {};
+
+  if (modelName !== undefined) {
+    if (checkString(modelName, 'llm.modelName', MAX_SHORT_TEXT_LENGTH, errors))
+      params.modelName = modelName.trim();
+  }
+  if (provider !== undefined) {
+    if (checkString(provider, 'llm.provider', MAX_SHORT_TEXT_LENGTH, errors))
+      params.provider = provider.trim();
+  }
+  if (
+    params.maxNewTokens !== undefined &&
+    !Number.isInteger(params.maxNewTokens)
+  ) {
+    errors.push({ field: 'llm.maxNewTokens', message: 'must be an integer' });
+  }
+
+  return params;
+}
+
+function validateNumericParams<T extends { [key: string]: number }>(
+  raw: any,
+  prefix: string,
+  ranges: { [key: string]: [number, number] },
+  errors: ConfigUpdateError[],
+): Partial<T> | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push({ field: prefix, message: `${prefix} must be an object` });
+    return undefined;
+  }
+
+  const params: { [key: string]: number } = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = `${prefix}.${key}`;
+    const range = ranges[key];
+
+    if (!range) {
+      errors.push({ field, message: 'Unknown parameter' });
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ field, message: 'must be a number' });
+    } else if (value < range[0] || value > range[1]) {
+      errors.push({
+        field,
+        message: `must be between ${range[0]} and ${range[1]}`,
+      });
+    } else {
+      params[key] = value;
+    }
+  }
+
+  return params as Partial<T>;
+}
+
+function validateHandoffRule(
+  raw: any,
+  agentIds: string[],
+  field: string,
+  errors: ConfigUpdateError[],
+): HandoffRule | undefined {
+  const errorCount = errors.length;
+  if (!isPlainObject(raw)) {
+    errors.push({ field, message: 'must be an object' });
+    return undefined;
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (key !== 'agentId' && key !== 'keywords') {
+      errors.push({
+        field: `${field}.${key}`,
+        message: 'Unknown handoff rule field',
+      });
+    }
+  }
+  if (!agentIds.includes(raw.agentId)) {
+    errors.push({
+      field: `${field}.agentId`,
+      message: 'must be the agentId of one of handoff.agents',
+    });
+  }
+  if (
+    !Array.isArray(raw.keywords) ||
+    !raw.keywords.length ||
+    raw.keywords.length > MAX_HANDOFF_KEYWORDS
+  ) {
+    errors.push({
+      field: `${field}.keywords`,
+      message: `must be an array of 1 to ${MAX_HANDOFF_KEYWORDS} keywords`,
+    });
+  } else {
+    raw.keywords.forEach((keyword: any, index: number) =>
+      checkString(
+        keyword,
+        `${field}.keywords[${index}]`,
+        MAX_SHORT_TEXT_LENGTH,
+        errors,
+      ),
+    );
+  }
+
+  return errors.length > errorCount
+    ? undefined
+    : {
+        agentId: raw.agentId,
+        keywords: raw.keywords.map((keyword: string) => keyword.trim()),
+      };
+}
+
+function checkString(
+  value: any,
+  field: string,
+  maxLength: number,
+  errors: ConfigUpdateError[],
+): boolean {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push({ field, message: 'must be a non-empty string' });
+    return false;
+  }
+  if (value.length > maxLength) {
+    errors.push({ field, message: `must be at most ${maxLength} characters` });
+    return false;
+  }
+  return true;
+}
+
+function isPlainObject(value: any): value is { [key: string]: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
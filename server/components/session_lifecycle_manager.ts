@@ -0,0 +1,301 @@
+import WebSocket from 'ws';
+
+import { InworldApp } from './app';
+import {
+  markSessionEnded,
+  saveConnection,
+} from './session_stores/session_store';
+
+export interface SessionLifecycleConfig {
+  /** Sessions without client activity or socket for this long are expired */
+  idleTtlMs: number;
+  /** Unloaded sessions and sessions without a client socket are released after this long */
+  unloadedTtlMs: number;
+  /** Ended sessions are removed from the session store after this long */
+  transcriptTtlMs: number;
+  /** How often to look for expired sessions */
+  sweepIntervalMs: number;
+}
+
+/**
+ * Counters of resources released by the lifecycle manager since startup
+ */
+export interface ReclaimedCounts {
+  sessions: number;
+  audioStreams: number;
+  graphExecutions: number;
+  sttSockets: number;
+  clientSockets: number;
+  storedSessions: number;
+}
+
+/**
+ * SessionLifecycleManager expires idle and unloaded sessions.
+ *
+ * It tracks the last client activity and socket state per session and
+ * periodically sweeps InworldApp.connections. An expired session is torn
+ * down completely:
+ * - Its audio stream manager is ended
+ * - Its running audio graph execution is aborted, which drops the
+ *   interaction queue entries held in that execution's datastore
+ * - Its STT provider connection is released
+ * - Its client WebSockets (controller and observers) are closed
+ * - It is removed from connections (and marked ended in the session store
+ *   when it expired for being idle)
+ *
+ * Ended sessions stay in the session store, for their transcript, until
+ * the transcript TTL passes.
+ */
+export class SessionLifecycleManager {
+  private sweepTimer?: NodeJS.Timeout;
+  private isSweeping = false;
+  private lastSweepAt?: number;
+  private reclaimed: ReclaimedCounts = {
+    sessions: 0,
+    audioStreams: 0,
+    graphExecutions: 0,
+    sttSockets: 0,
+    clientSockets: 0,
+    storedSessions: 0,
+  };
+
+  constructor(
+    private inworldApp: InworldApp,
+    private config: SessionLifecycleConfig,
+  ) {}
+
+  start() {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) => {
+        console.error('[SessionLifecycle] Sweep failed:', error);
+      });
+    }, this.config.sweepIntervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.sweepTimer.unref();
+
+    console.log(
+      `[SessionLifecycle] Started (idle TTL ${this.config.idleTtlMs}ms, unloaded TTL ${this.config.unloadedTtlMs}ms)`,
+    );
+  }
+
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Record client activity for a session
+   */
+  touch(sessionId: string) {
+    const connection = this.inworldApp.connections[sessionId];
+    if (connection) {
+      connection.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Record that the controlling socket of a session closed. The session keeps
+   * running (and buffering outbound packets) until the client resumes or
+   * the unloaded TTL passes.
+   */
+  markDisconnected(sessionId: string) {
+    const connection = this.inworldApp.connections[sessionId];
+    if (connection) {
+      connection.disconnectedAt = Date.now();
+    }
+  }
+
+  /**
+   * Record that a controlling socket is attached to a session
+   */
+  markConnected(sessionId: string) {
+    const connection = this.inworldApp.connections[sessionId];
+    if (connection) {
+      connection.disconnectedAt = undefined;
+      connection.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Mark a session as unloaded. It is released on the next sweep after
+   * the unloaded TTL passes.
+   */
+  markUnloaded(sessionId: string) {
+    const connection = this.inworldApp.connections[sessionId];
+    if (connection && !connection.unloaded) {
+      connection.unloaded = true;
+      connection.unloadedAt = Date.now();
+    }
+  }
+
+  /**
+   * Expire idle and unloaded sessions
+   */
+  async sweep() {
+    if (this.isSweeping) {
+      return;
+    }
+    this.isSweeping = true;
+
+    try {
+      const now = Date.now();
+      const connections = this.inworldApp.connections;
+
+      for (const sessionId of Object.keys(connections)) {
+        const connection = connections[sessionId];
+        if (!connection) continue;
+
+        // Sessions created before tracking started count as active now, and
+        // so do sessions with a socket attached (browser, Twilio stream or
+        // observer), even if it's silent
+        connection.lastActivityAt ??= now;
+        if (
+          connection.outbox.sockets.some(
+            (ws) => ws.readyState === WebSocket.OPEN,
+          )
+        ) {
+          connection.lastActivityAt = now;
+        }
+
+        if (now - connection.lastActivityAt >= this.config.idleTtlMs) {
+          await this.reclaim(sessionId, 'idle', { endInStore: true });
+        } else if (
+          connection.unloaded &&
+          now - (connection.unloadedAt ?? now) >= this.config.unloadedTtlMs
+        ) {
+          await this.reclaim(sessionId, 'unloaded', { endInStore: false });
+        } else if (
+          connection.disconnectedAt &&
+          now - connection.disconnectedAt >= this.config.unloadedTtlMs
+        ) {
+          // Keep the stored state so the client can still reconnect later
+          await this.reclaim(sessionId, 'disconnected', {
+            endInStore: false,
+          });
+        }
+      }
+
+      // Expire persisted sessions that are no longer held in memory, and
+      // remove ended ones once their transcript TTL passed
+      const sessionStore = this.inworldApp.sessionStore;
+      if (sessionStore) {
+        for (const sessionId of await sessionStore.list()) {
+          if (this.inworldApp.connections[sessionId]) continue;
+
+          const stored = await sessionStore.get(sessionId);
+          if (!stored) continue;
+
+          if (stored.endedAt) {
+            if (now - stored.endedAt >= this.config.transcriptTtlMs) {
+              await sessionStore.delete(sessionId);
+              this.reclaimed.storedSessions++;
+              console.log(
+                `[SessionLifecycle] Removed ended session ${sessionId} from session store`,
+              );
+            }
+          } else if (now - stored.updatedAt >= this.config.idleTtlMs) {
+            await markSessionEnded(sessionStore, sessionId, now);
+            console.log(
+              `[SessionLifecycle] Expired stored session ${sessionId}`,
+            );
+          }
+        }
+      }
+
+      this.lastSweepAt = now;
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Tear down everything tied to a session and remove it from memory
+   */
+  async reclaim(
+    sessionId: string,
+    reason: string,
+    { endInStore }: { endInStore: boolean },
+  ) {
+    const connection = this.inworldApp.connections[sessionId];
+    if (!connection) {
+      return;
+    }
+
+    console.log(`[Session ${sessionId}] Reclaiming ${reason} session`);
+
+    // Stop any in-flight graph work from touching this session
+    connection.unloaded = true;
+
+    if (connection.audioStreamManager) {
+      connection.audioStreamManager.end();
+      connection.audioStreamManager = undefined;
+      this.reclaimed.audioStreams++;
+    }
+    connection.audioDecoder?.destroy();
+    connection.audioDecoder = undefined;
+    await connection.recorder?.save();
+
+    if (connection.currentAudioOutputStream) {
+      try {
+        connection.currentAudioOutputStream.abort();
+        this.reclaimed.graphExecutions++;
+      } catch (error) {
+        console.error(
+          `[Session ${sessionId}] Failed to abort audio graph execution:`,
+          error,
+        );
+      }
+      connection.currentAudioOutputStream = undefined;
+    }
+
+    for (const graphWrapper of this.inworldApp.getAudioGraphs()) {
+      this.reclaimed.sttSockets += await graphWrapper.releaseSession(sessionId);
+    }
+
+    for (const ws of connection.outbox.sockets) {
+      connection.outbox.detach(ws);
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.close(1000, 'Session expired');
+        this.reclaimed.clientSockets++;
+      }
+    }
+
+    // The connection may have been replaced by a reconnect while we were awaiting
+    if (this.inworldApp.connections[sessionId] === connection) {
+      delete this.inworldApp.connections[sessionId];
+    }
+    this.reclaimed.sessions++;
+
+    // Saves that were in flight keep the end time, it's on the connection
+    if (endInStore && this.inworldApp.sessionStore) {
+      connection.unloadedAt ??= Date.now();
+      await saveConnection(this.inworldApp.sessionStore, sessionId, connection);
+    }
+  }
+
+  getStats() {
+    const connections = Object.values(this.inworldApp.connections);
+
+    return {
+      activeSessions: connections.filter(
+        (c) => !c.unloaded && !c.disconnectedAt,
+      ).length,
+      disconnectedSessions: connections.filter(
+        (c) => !c.unloaded && c.disconnectedAt,
+      ).length,
+      unloadedSessions: connections.filter((c) => c.unloaded).length,
+      observers: connections.reduce(
+        (count, c) => count + c.outbox.observerCount,
+        0,
+      ),
+      reclaimed: { ...this.reclaimed },
+      lastSweepAt: this.lastSweepAt ? new Date(this.lastSweepAt) : null,
+    };
+  }
+}
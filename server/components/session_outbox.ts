@@ -0,0 +1,212 @@
+import { v4 } from 'uuid';
+import WebSocket from 'ws';
+
+import { DEFAULT_REPLAY_BUFFER_SIZE } from '../../constants';
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  encodeAudioPacket,
+  MIN_BINARY_PROTOCOL_VERSION,
+  SERVER_PACKET_TYPE,
+  ServerPacket,
+  subprotocolVersion,
+} from '../../protocol';
+import { PARTICIPANT_ROLE } from '../types';
+import { EventFactory } from './event_factory';
+
+export interface ResumeResult {
+  /** Identifies this outbox; sequence numbers are only comparable within one stream */
+  streamId: string;
+  /** Sequence number of the last packet sent by the server */
+  lastSeq: number;
+  /** Number of packets replayed to the client */
+  replayed: number;
+  /** True if some packets after the client's lastSeq are no longer buffered */
+  gap: boolean;
+}
+
+/**
+ * Turns packets into the frames of a socket that doesn't speak the session
+ * protocol (e.g. a telephony media stream). Packets it has no use for map
+ * to no frames.
+ */
+export type PacketTranscoder = (packet: ServerPacket) => string[];
+
+interface Participant {
+  role: PARTICIPANT_ROLE;
+  transcoder?: PacketTranscoder;
+}
+
+// A packet with its wire encodings, computed when first needed
+interface OutboundPacket {
+  packet: ServerPacket;
+  json?: string;
+  binary?: Uint8Array;
+}
+
+/**
+ * SessionOutbox delivers outbound packets for a session.
+ *
+ * Every packet is stamped with a monotonically increasing `seq` and kept in
+ * a bounded replay buffer. Packets sent while the client is disconnected
+ * are buffered, and a reconnecting client can request everything after the
+ * last sequence number it saw via the `resume` handshake.
+ *
+ * Any number of sockets can be attached: at most one controller, which
+ * drives the conversation, plus read-only observers. All of them receive
+ * the full event stream, encoded for the protocol version each negotiated.
+ */
+export class SessionOutbox {
+  readonly streamId = v4();
+  private nextSeq = 1;
+  private buffer: (OutboundPacket & { seq: number })[] = [];
+  private participants = new Map<WebSocket, Participant>();
+
+  constructor(private bufferSize: number = DEFAULT_REPLAY_BUFFER_SIZE) {}
+
+  get sockets(): WebSocket[] {
+    return [...this.participants.keys()];
+  }
+
+  get controller(): WebSocket | undefined {
+    return this.sockets.find(
+      (ws) => this.participants.get(ws).role === PARTICIPANT_ROLE.CONTROLLER,
+    );
+  }
+
+  get observerCount(): number {
+    return this.sockets.length - (this.controller ? 1 : 0);
+  }
+
+  get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  roleOf(ws: WebSocket): PARTICIPANT_ROLE | undefined {
+    return this.participants.get(ws)?.role;
+  }
+
+  /**
+   * Start delivering packets to the socket, through the transcoder if it
+   * doesn't speak the session protocol.
+   * A new controller takes over from the previous one (e.g. after a network
+   * drop), which is detached and returned so the caller can close it.
+   */
+  attach(
+    ws: WebSocket,
+    role: PARTICIPANT_ROLE,
+    transcoder?: PacketTranscoder,
+  ): WebSocket | undefined {
+    const previous =
+      role === PARTICIPANT_ROLE.CONTROLLER ? this.controller : undefined;
+    if (previous && previous !== ws) {
+      this.participants.delete(previous);
+    }
+
+    this.participants.set(ws, { role, transcoder });
+    return previous !== ws ? previous : undefined;
+  }
+
+  /**
+   * Stop delivering packets to the socket.
+   * Returns the role it was attached with, or undefined if it wasn't attached.
+   */
+  detach(ws: WebSocket): PARTICIPANT_ROLE | undefined {
+    const role = this.roleOf(ws);
+    this.participants.delete(ws);
+    return role;
+  }
+
+  /**
+   * Stamp the packet with the next sequence number, buffer it and deliver it
+   * to every attached socket that is open
+   */
+  send(packet: ServerPacket) {
+    const seq = this.nextSeq++;
+    const entry = { seq, packet: { ...packet, seq } };
+
+    this.buffer.push(entry);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    this.deliver(entry);
+  }
+
+  /**
+   * Send a control packet that is not sequenced nor buffered, to one socket
+   * or to all of them
+   */
+  sendControl(packet: ServerPacket, ws?: WebSocket) {
+    this.deliver({ packet }, ws);
+  }
+
+  /**
+   * Answer a resume request with a RESUMED packet, then replay every buffered
+   * packet after lastSeq to the requesting socket.
+   * A streamId different from ours (e.g. after a server restart) means the
+   * client's lastSeq refers to another stream, so everything buffered is replayed.
+   */
+  resume(ws: WebSocket, lastSeq: number, streamId?: string): ResumeResult {
+    const fromSeq = !streamId || streamId === this.streamId ? lastSeq : 0;
+
+    const pending = this.buffer.filter((entry) => entry.seq > fromSeq);
+    const firstBufferedSeq = this.buffer[0]?.seq ?? this.nextSeq;
+    const result: ResumeResult = {
+      streamId: this.streamId,
+      lastSeq: this.lastSeq,
+      replayed: pending.length,
+      gap: firstBufferedSeq > fromSeq + 1,
+    };
+
+    // RESUMED goes first so the client can reset its sequence tracking
+    // before replayed packets arrive
+    this.sendControl(EventFactory.resumed(result), ws);
+    for (const entry of pending) {
+      this.deliver(entry, ws);
+    }
+
+    return result;
+  }
+
+  private deliver(entry: OutboundPacket, target?: WebSocket) {
+    for (const ws of target ? [target] : this.sockets) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        continue;
+      }
+
+      const transcoder = this.participants.get(ws)?.transcoder;
+      if (transcoder) {
+        transcoder(entry.packet).forEach((frame) => ws.send(frame));
+      } else {
+        ws.send(this.encode(entry, protocolVersionOf(ws)));
+      }
+    }
+  }
+
+  /**
+   * Audio goes as a binary frame to clients that support them, base64 in
+   * JSON to the others; everything else is JSON
+   */
+  private encode(entry: OutboundPacket, version: number): string | Uint8Array {
+    const { packet } = entry;
+    if (packet.type !== SERVER_PACKET_TYPE.AUDIO || !('data' in packet.audio)) {
+      return (entry.json ??= JSON.stringify(packet));
+    }
+
+    const { audio, ...metadata } = packet;
+    if (version >= MIN_BINARY_PROTOCOL_VERSION) {
+      return (entry.binary ??= encodeAudioPacket(metadata, audio.data));
+    }
+
+    const chunk = Buffer.from(
+      audio.data.buffer,
+      audio.data.byteOffset,
+      audio.data.byteLength,
+    ).toString('base64');
+    return (entry.json ??= JSON.stringify({ ...metadata, audio: { chunk } }));
+  }
+}
+
+function protocolVersionOf(ws: WebSocket): number {
+  return subprotocolVersion(ws.protocol) ?? DEFAULT_PROTOCOL_VERSION;
+}
@@ -0,0 +1,280 @@
+const WavEncoder = require('wav-encoder');
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { TTS_SAMPLE_RATE } from '../../constants';
+import { Resampler } from './audio_codecs';
+
+export const RECORDING_TRACKS = ['user', 'agent', 'mix'] as const;
+export type RecordingTrack = (typeof RECORDING_TRACKS)[number];
+
+// Input chunks arriving within this time after the previous one ended are
+// treated as contiguous, so network jitter doesn't insert gaps
+const USER_AUDIO_JITTER_MS = 200;
+
+interface Segment {
+  startMs: number; // Relative to the start of the recording
+  data: Float32Array;
+  sampleRate: number;
+}
+
+export interface RecordingFile {
+  recordingId: string;
+  track: RecordingTrack;
+  name: string;
+  size: number;
+  modifiedAt: string;
+}
+
+/**
+ * SessionRecorder records a session's audio for QA and compliance.
+ *
+ * Inbound audio is placed on the timeline when it arrives, agent audio when
+ * it's played back: right after the previous agent audio, or when it was
+ * sent if the client was idle. Silence fills the gaps in between.
+ *
+ * save() writes three 16-bit WAV files into the session's folder:
+ * - `<recordingId>-user.wav` - the user track at the input sample rate
+ * - `<recordingId>-agent.wav` - the agent track at the TTS sample rate
+ * - `<recordingId>-mix.wav` - stereo, user left and agent right
+ *
+ * All three start at the beginning of the recording, so they are
+ * time-aligned. A session restored after a restart starts a new recording.
+ */
+export class SessionRecorder {
+  readonly recordingId: string;
+  private startedAt = Date.now();
+  private userSegments: Segment[] = [];
+  private agentSegments: Segment[] = [];
+  private userEndMs = 0;
+  private agentEndMs = 0;
+  private saveChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private sessionId: string,
+    private recordingsPath: string,
+  ) {
+    this.recordingId = new Date(this.startedAt)
+      .toISOString()
+      .replace(/[:.]/g, '-');
+  }
+
+  recordUserAudio(chunk: { data: Float32Array; sampleRate: number }) {
+    if (!chunk.data.length) {
+      return;
+    }
+
+    const nowMs = this.elapsedMs();
+    const startMs =
+      nowMs - this.userEndMs < USER_AUDIO_JITTER_MS ? this.userEndMs : nowMs;
+
+    // The stream manager passes the samples on without a copy
+    this.userSegments.push({
+      startMs,
+      data: chunk.data.slice(),
+      sampleRate: chunk.sampleRate,
+    });
+    this.userEndMs = startMs + durationMs(chunk.data, chunk.sampleRate);
+  }
+
+  /**
+   * Record Float32 sample bytes of an agent response, like they are sent to
+   * the client
+   */
+  recordAgentAudio(bytes: Uint8Array, sampleRate = TTS_SAMPLE_RATE) {
+    const length = bytes.byteLength - (bytes.byteLength % 4);
+    if (!length) {
+      return;
+    }
+
+    // Copied, as the bytes may not be aligned to Float32
+    const data = new Float32Array(bytes.slice(0, length).buffer);
+    const startMs = Math.max(this.agentEndMs, this.elapsedMs());
+
+    this.agentSegments.push({ startMs, data, sampleRate });
+    this.agentEndMs = startMs + durationMs(data, sampleRate);
+  }
+
+  /**
+   * Cut the agent audio at the point of cancellation: what would have been
+   * played after now is dropped, as the client stops playback
+   */
+  cancelAgentAudio() {
+    const cutMs = this.elapsedMs();
+    if (this.agentEndMs <= cutMs) {
+      return;
+    }
+
+    this.agentSegments = this.agentSegments
+      .filter((segment) => segment.startMs < cutMs)
+      .map((segment) => ({
+        ...segment,
+        data: segment.data.subarray(
+          0,
+          Math.round(((cutMs - segment.startMs) * segment.sampleRate) / 1000),
+        ),
+      }));
+    this.agentEndMs = cutMs;
+  }
+
+  /**
+   * Write (or rewrite) the recording's WAV files. Nothing is written before
+   * any audio was recorded.
+   */
+  save(): Promise<void> {
+    this.saveChain = this.saveChain
+      .then(() => this.write())
+      .catch((error) => {
+        console.error(
+          `[Session ${this.sessionId}] Failed to save recording:`,
+          error,
+        );
+      });
+    return this.saveChain;
+  }
+
+  private async write() {
+    if (!this.userSegments.length && !this.agentSegments.length) {
+      return;
+    }
+
+    const lengthMs = Math.max(this.userEndMs, this.agentEndMs);
+    const userSampleRate = this.userSegments[0]?.sampleRate ?? TTS_SAMPLE_RATE;
+    const tracks: { [track in RecordingTrack]: WavData } = {
+      user: {
+        sampleRate: userSampleRate,
+        channelData: [render(this.userSegments, userSampleRate, lengthMs)],
+      },
+      agent: {
+        sampleRate: TTS_SAMPLE_RATE,
+        channelData: [render(this.agentSegments, TTS_SAMPLE_RATE, lengthMs)],
+      },
+      mix: {
+        sampleRate: TTS_SAMPLE_RATE,
+        channelData: [
+          render(this.userSegments, TTS_SAMPLE_RATE, lengthMs),
+          render(this.agentSegments, TTS_SAMPLE_RATE, lengthMs),
+        ],
+      },
+    };
+
+    const folder = sessionFolder(this.recordingsPath, this.sessionId);
+    await fs.mkdir(folder, { recursive: true });
+
+    for (const track of RECORDING_TRACKS) {
+      const wav: ArrayBuffer = await WavEncoder.encode(tracks[track], {
+        bitDepth: 16,
+      });
+      await fs.writeFile(
+        path.join(folder, `${this.recordingId}-${track}.wav`),
+        Buffer.from(wav),
+      );
+    }
+
+    console.log(
+      `[Session ${this.sessionId}] Saved recording ${this.recordingId} (${Math.round(lengthMs / 1000)}s)`,
+    );
+  }
+
+  private elapsedMs() {
+    return Date.now() - this.startedAt;
+  }
+}
+
+/**
+ * The WAV files recorded for a session, oldest recording first
+ */
+export async function listRecordings(
+  recordingsPath: string,
+  sessionId: string,
+): Promise<RecordingFile[]> {
+  const folder = sessionFolder(recordingsPath, sessionId);
+
+  let names: string[];
+  try {
+    names = await fs.readdir(folder);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: RecordingFile[] = [];
+  for (const name of names.sort()) {
+    const match = parseRecordingFileName(name);
+    if (!match) {
+      continue;
+    }
+
+    const stats = await fs.stat(path.join(folder, name));
+    files.push({
+      ...match,
+      name,
+      size: stats.size,
+      modifiedAt: stats.mtime.toISOString(),
+    });
+  }
+  return files;
+}
+
+/**
+ * Path of a recorded file, or undefined if the name isn't one of the
+ * recorder's file names
+ */
+export function getRecordingFilePath(
+  recordingsPath: string,
+  sessionId: string,
+  name: string,
+): string | undefined {
+  return parseRecordingFileName(name)
+    ? path.join(sessionFolder(recordingsPath, sessionId), name)
+    : undefined;
+}
+
+function parseRecordingFileName(
+  name: string,
+): { recordingId: string; track: RecordingTrack } | undefined {
+  const match = name.match(/^([\w-]+)-(user|agent|mix)\.wav$/);
+  return match
+    ? { recordingId: match[1], track: match[2] as RecordingTrack }
+    : undefined;
+}
+
+// Session IDs come from clients, so they are encoded to stay in one folder
+function sessionFolder(recordingsPath: string, sessionId: string) {
+  return path.join(
+    recordingsPath,
+    encodeURIComponent(sessionId).replace(/\./g, '%2E'),
+  );
+}
+
+interface WavData {
+  sampleRate: number;
+  channelData: Float32Array[];
+}
+
+function durationMs(data: Float32Array, sampleRate: number) {
+  return (data.length / sampleRate) * 1000;
+}
+
+// Place the segments on a silent track of the given length
+function render(
+  segments: Segment[],
+  sampleRate: number,
+  lengthMs: number,
+): Float32Array {
+  const track = new Float32Array(Math.ceil((lengthMs * sampleRate) / 1000));
+
+  for (const segment of segments) {
+    const data = new Resampler(segment.sampleRate, sampleRate).process(
+      segment.data,
+    );
+    const offset = Math.round((segment.startMs * sampleRate) / 1000);
+    if (offset < track.length) {
+      track.set(data.subarray(0, track.length - offset), offset);
+    }
+  }
+  return track;
+}
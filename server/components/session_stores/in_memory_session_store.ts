@@ -0,0 +1,34 @@
+import { SessionStore, StoredSession } from './session_store';
+
+/**
+ * InMemorySessionStore keeps sessions in process memory.
+ *
+ * Sessions are copied on write and read so that callers never share
+ * references with the store, matching the behavior of persistent stores.
+ * Nothing survives a restart - use JsonFileSessionStore or SqliteSessionStore
+ * for that.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, string>();
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    const serialized = this.sessions.get(sessionId);
+    return serialized ? (JSON.parse(serialized) as StoredSession) : undefined;
+  }
+
+  async save(sessionId: string, session: StoredSession): Promise<void> {
+    this.sessions.set(sessionId, JSON.stringify(session));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+  }
+}
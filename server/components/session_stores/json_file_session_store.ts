@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { SessionStore, StoredSession } from './session_store';
+
+// Changes within this delay are written to the file together
+const WRITE_DELAY_MS = 500;
+
+/**
+ * JsonFileSessionStore persists all sessions into a single JSON file.
+ *
+ * The file is loaded lazily on first access and rewritten atomically
+ * (write to a temporary file, then rename). Saves change the sessions in
+ * memory and return; the file is rewritten once per WRITE_DELAY_MS at most,
+ * with every change made since the last write, and on close. Writes are
+ * serialized so that they never interleave.
+ *
+ * Suitable for single-instance deployments with a moderate number of sessions.
+ */
+export class JsonFileSessionStore implements SessionStore {
+  private sessions: Map<string, StoredSession> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private writeTimer?: NodeJS.Timeout;
+
+  constructor(private filePath: string) {}
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    await this.load();
+    const session = this.sessions!.get(sessionId);
+    return session
+      ? (JSON.parse(JSON.stringify(session)) as StoredSession)
+      : undefined;
+  }
+
+  async save(sessionId: string, session: StoredSession): Promise<void> {
+    await this.load();
+    this.sessions!.set(sessionId, JSON.parse(JSON.stringify(session)));
+    this.persist();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.load();
+    if (this.sessions!.delete(sessionId)) {
+      this.persist();
+    }
+  }
+
+  async list(): Promise<string[]> {
+    await this.load();
+    return Array.from(this.sessions!.keys());
+  }
+
+  async close(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.write();
+    }
+    await this.writeChain;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const content = await fs.readFile(this.filePath, 'utf8');
+          const parsed = JSON.parse(content) as Record<string, StoredSession>;
+          this.sessions = new Map(Object.entries(parsed));
+          console.log(
+            `[JsonFileSessionStore] Loaded ${this.sessions.size} session(s) from ${this.filePath}`,
+          );
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') {
+            console.error(
+              `[JsonFileSessionStore] Failed to read ${this.filePath}, starting empty:`,
+              error,
+            );
+          }
+          this.sessions = new Map();
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Schedule a write of the file, unless one is scheduled already
+   */
+  private persist() {
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => this.write(), WRITE_DELAY_MS);
+    }
+  }
+
+  private write() {
+    this.writeTimer = undefined;
+    // Snapshot now so the write reflects every change made until now
+    const content = JSON.stringify(Object.fromEntries(this.sessions!));
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, content, 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      })
+      .catch((error) => {
+        console.error(
+          `[JsonFileSessionStore] Failed to write ${this.filePath}:`,
+          error,
+        );
+      });
+  }
+}
@@ -0,0 +1,86 @@
+import { AudioFormat, OutputAudioFormat } from '../../../protocol';
+import { Connection, State } from '../../types';
+
+/**
+ * Persistent part of a session.
+ *
+ * Only serializable data lives here. Runtime objects attached to a
+ * Connection (WebSocket, audio stream manager, running graph execution)
+ * are recreated when a client reconnects.
+ */
+export interface StoredSession {
+  state: State;
+  sttService?: string;
+  inputAudioFormat?: AudioFormat;
+  outputAudioFormat?: OutputAudioFormat;
+  createdAt: number;
+  updatedAt: number;
+  /** When the session was unloaded or expired. Ended sessions are kept for
+   * their transcript, and can't be resumed. */
+  endedAt?: number;
+}
+
+/**
+ * SessionStore persists session state so conversations survive
+ * server restarts and deploys.
+ *
+ * InworldApp.connections remains the live cache of sessions; graph nodes
+ * write every state change through the store and fall back to it when a
+ * session is not present in memory.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<StoredSession | undefined>;
+  save(sessionId: string, session: StoredSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  list(): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Build the persistent snapshot of a live connection
+ */
+export function toStoredSession(connection: Connection): StoredSession {
+  const now = Date.now();
+  connection.createdAt ??= now;
+
+  return {
+    state: connection.state,
+    sttService: connection.sttService,
+    inputAudioFormat: connection.inputAudioFormat,
+    outputAudioFormat: connection.outputAudioFormat,
+    createdAt: connection.createdAt,
+    updatedAt: now,
+    endedAt: connection.unloadedAt,
+  };
+}
+
+/**
+ * Persist the current state of a live connection. Its creation and end
+ * times are kept on the connection, so the stored copy isn't read first.
+ */
+export async function saveConnection(
+  sessionStore: SessionStore,
+  sessionId: string,
+  connection: Connection,
+): Promise<void> {
+  await sessionStore.save(sessionId, toStoredSession(connection));
+}
+
+/**
+ * Mark a stored session as ended, keeping its state. Returns false if the
+ * session is not in the store.
+ */
+export async function markSessionEnded(
+  sessionStore: SessionStore,
+  sessionId: string,
+  endedAt: number = Date.now(),
+): Promise<boolean> {
+  const stored = await sessionStore.get(sessionId);
+  if (!stored) {
+    return false;
+  }
+  if (!stored.endedAt) {
+    await sessionStore.save(sessionId, { ...stored, endedAt });
+  }
+  return true;
+}
@@ -0,0 +1,30 @@
+import { InMemorySessionStore } from './in_memory_session_store';
+import { JsonFileSessionStore } from './json_file_session_store';
+import { SessionStore } from './session_store';
+import { SqliteSessionStore } from './sqlite_session_store';
+
+export type SessionStoreType = 'memory' | 'file' | 'sqlite';
+
+export const SESSION_STORE_TYPES: SessionStoreType[] = [
+  'memory',
+  'file',
+  'sqlite',
+];
+
+/**
+ * Create the session store selected by configuration
+ */
+export function createSessionStore(config: {
+  type: SessionStoreType;
+  path: string;
+}): SessionStore {
+  switch (config.type) {
+    case 'file':
+      return new JsonFileSessionStore(config.path);
+    case 'sqlite':
+      return new SqliteSessionStore(config.path);
+    case 'memory':
+    default:
+      return new InMemorySessionStore();
+  }
+}
@@ -0,0 +1,87 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SessionStore, StoredSession } from './session_store';
+
+/**
+ * SqliteSessionStore persists sessions into an SQLite database.
+ *
+ * Each session is stored as a JSON document keyed by sessionId. The
+ * better-sqlite3 native module is loaded lazily, so it is only required
+ * when this store is selected.
+ */
+export class SqliteSessionStore implements SessionStore {
+  private db: BetterSqlite3.Database;
+  private getStatement: BetterSqlite3.Statement<[string]>;
+  private saveStatement: BetterSqlite3.Statement<
+    [string, string, number, number]
+  >;
+  private deleteStatement: BetterSqlite3.Statement<[string]>;
+  private listStatement: BetterSqlite3.Statement<[]>;
+
+  constructor(filePath: string) {
+    const Database = require('better-sqlite3') as typeof BetterSqlite3;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.getStatement = this.db.prepare(
+      'SELECT data FROM sessions WHERE session_id = ?',
+    );
+    this.saveStatement = this.db.prepare(`
+      INSERT INTO sessions (session_id, data, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `);
+    this.deleteStatement = this.db.prepare(
+      'DELETE FROM sessions WHERE session_id = ?',
+    );
+    this.listStatement = this.db.prepare('SELECT session_id FROM sessions');
+
+    console.log(`[SqliteSessionStore] Using database ${filePath}`);
+  }
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    const row = this.getStatement.get(sessionId) as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as StoredSession) : undefined;
+  }
+
+  async save(sessionId: string, session: StoredSession): Promise<void> {
+    this.saveStatement.run(
+      sessionId,
+      JSON.stringify(session),
+      session.createdAt,
+      session.updatedAt,
+    );
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.deleteStatement.run(sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.listStatement.all() as { session_id: string }[];
+    return rows.map((row) => row.session_id);
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+}
@@ -0,0 +1,425 @@
+import WebSocket from 'ws';
+
+import { STTEvent, STTStream, StreamingSTTProvider } from './stt_provider';
+
+/**
+ * Configuration interface for AssemblyAISTTProvider
+ */
+export interface AssemblyAISTTProviderConfig {
+  /** Assembly.AI API key */
+  apiKey: string;
+  /** Sample rate of the audio stream in Hz */
+  sampleRate?: number;
+  /** Enable turn formatting from Assembly.AI */
+  formatTurns?: boolean;
+  /** End of turn confidence threshold (0-1) */
+  endOfTurnConfidenceThreshold?: number;
+  /** Minimum silence duration when confident (in milliseconds) */
+  minEndOfTurnSilenceWhenConfident?: number;
+  /** Maximum turn silence (in milliseconds) */
+  maxTurnSilence?: number;
+  /** Language code (e.g., 'en', 'es') */
+  language?: string;
+  /** Keywords/keyterms to boost recognition */
+  keytermsPrompt?: string[];
+}
+
+interface AssemblyAISession {
+  ws: WebSocket | null;
+  wsReady: boolean;
+  wsConnectionPromise: Promise<void> | null;
+  assemblySessionId: string;
+  sessionExpiresAt: number;
+  inactivityTimeout: NodeJS.Timeout | null;
+  lastActivityTime: number;
+  closed: boolean;
+}
+
+/**
+ * AssemblyAISTTProvider streams audio to Assembly.AI's streaming
+ * Speech-to-Text service via direct WebSocket connection, and relies on
+ * Assembly.AI's turn detection to end turns.
+ *
+ * Connections are kept per session, closed after a minute of inactivity and
+ * reopened when Assembly.AI's session expires.
+ */
+export class AssemblyAISTTProvider implements StreamingSTTProvider {
+  readonly name = 'assemblyai';
+  readonly mode = 'streaming';
+  readonly sampleRate: number;
+
+  private apiKey: string;
+  private formatTurns: boolean;
+  private endOfTurnConfidenceThreshold: number;
+  private minEndOfTurnSilenceWhenConfident: number;
+  private maxTurnSilence: number;
+  private language: string;
+  private keytermsPrompt: string[];
+  private wsEndpointBaseUrl: string = 'wss://streaming.assemblyai.com/v3/ws';
+
+  // Per-session WebSocket connections
+  private readonly INACTIVITY_TIMEOUT_MS = 60000; // 60 seconds
+  private sessions: Map<string, AssemblyAISession> = new Map();
+
+  constructor(config: AssemblyAISTTProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error('AssemblyAISTTProvider requires an API key.');
+    }
+
+    this.apiKey = config.apiKey;
+    this.sampleRate = config.sampleRate || 16000;
+    this.formatTurns = config.formatTurns !== false;
+    this.endOfTurnConfidenceThreshold =
+      config.endOfTurnConfidenceThreshold || 0.4;
+    this.minEndOfTurnSilenceWhenConfident =
+      config.minEndOfTurnSilenceWhenConfident || 400;
+    this.maxTurnSilence = config.maxTurnSilence || 1280;
+    this.language = config.language || 'en';
+    this.keytermsPrompt = config.keytermsPrompt || [];
+  }
+
+  async openStream(
+    sessionId: string,
+    onEvent: (event: STTEvent) => void,
+  ): Promise<STTStream> {
+    // Reuse the existing connection or reconnect
+    await this.ensureConnection(sessionId);
+    const session = this.sessions.get(sessionId)!;
+
+    const messageHandler = (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString());
+
+        if (message.type === 'Turn') {
+          const transcript = message.transcript || '';
+          if (!transcript) {
+            return;
+          }
+
+          if (message.end_of_turn) {
+            onEvent({ type: 'turn', transcript });
+          } else {
+            onEvent({
+              type: 'partial',
+              transcript: message.utterance || transcript,
+            });
+          }
+        } else if (message.type === 'Termination') {
+          console.log(
+            `[AssemblyAI WS STT] Session ${sessionId} Terminated: Audio Duration=${message.audio_duration_seconds}s, Session Duration=${message.session_duration_seconds}s`,
+          );
+        }
+      } catch (error) {
+        console.error(
+          `[AssemblyAI WS STT] Session ${sessionId} Error handling message:`,
+          error,
+        );
+      }
+    };
+    session.ws?.on('message', messageHandler);
+
+    return {
+      // Begin may arrive after the connection opened
+      get providerSessionId() {
+        return session.assemblySessionId;
+      },
+      get closed() {
+        return session.closed;
+      },
+      sendAudio: (samples: Float32Array) => {
+        if (session.ws && session.ws.readyState === WebSocket.OPEN) {
+          // Assembly.AI expects PCM16 audio data
+          session.ws.send(Buffer.from(this.convertToPCM16(samples).buffer));
+        } else {
+          console.warn(
+            `[AssemblyAI WS STT] Session ${sessionId} WebSocket not open, skipping chunk`,
+          );
+        }
+      },
+      close: () => {
+        session.ws?.off('message', messageHandler);
+      },
+    };
+  }
+
+  /**
+   * Build WebSocket URL with query parameters
+   */
+  private buildWebSocketUrl(): string {
+    const params = new URLSearchParams({
+      sample_rate: this.sampleRate.toString(),
+      format_turns: this.formatTurns.toString(),
+      end_of_turn_confidence_threshold:
+        this.endOfTurnConfidenceThreshold.toString(),
+      min_end_of_turn_silence_when_confident:
+        this.minEndOfTurnSilenceWhenConfident.toString(),
+      max_turn_silence: this.maxTurnSilence.toString(),
+      language: this.language,
+    });
+
+    // Add keyterms if provided
+    if (this.keytermsPrompt.length > 0) {
+      this.keytermsPrompt.forEach((term) => {
+        params.append('keyterms_prompt', term);
+      });
+    }
+
+    return `${this.wsEndpointBaseUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Initialize persistent WebSocket connection for a session
+   */
+  private initializeWebSocket(sessionId: string): void {
+    console.log(
+      `[AssemblyAI WS STT] Initializing persistent WebSocket connection for session: ${sessionId}`,
+    );
+
+    const session: AssemblyAISession = {
+      ws: null,
+      wsReady: false,
+      wsConnectionPromise: null,
+      assemblySessionId: '',
+      sessionExpiresAt: 0,
+      inactivityTimeout: null,
+      lastActivityTime: Date.now(),
+      closed: false,
+    };
+
+    session.wsConnectionPromise = new Promise<void>((resolve, reject) => {
+      const wsUrl = this.buildWebSocketUrl();
+      console.log(
+        `[AssemblyAI WS STT] Connecting session ${sessionId} to: ${wsUrl}`,
+      );
+
+      session.ws = new WebSocket(wsUrl, {
+        headers: {
+          Authorization: this.apiKey,
+        },
+      });
+
+      session.ws.on('open', () => {
+        console.log(
+          `[AssemblyAI WS STT] Session ${sessionId} WebSocket connection opened`,
+        );
+        session.wsReady = true;
+        resolve();
+      });
+
+      session.ws.on('message', (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString());
+          const msgType = message.type;
+
+          if (msgType === 'Begin') {
+            session.assemblySessionId = message.id || message.session_id || '';
+            session.sessionExpiresAt = message.expires_at || 0;
+            console.log(
+              `[AssemblyAI WS STT] Session ${sessionId} began: Assembly ID=${session.assemblySessionId}, ExpiresAt=${session.sessionExpiresAt ? new Date(session.sessionExpiresAt * 1000).toISOString() : 'unknown'}`,
+            );
+          }
+        } catch (error) {
+          console.error(
+            `[AssemblyAI WS STT] Session ${sessionId} Error handling message:`,
+            error,
+          );
+        }
+      });
+
+      session.ws.on('error', (error: Error) => {
+        console.error(
+          `[AssemblyAI WS STT] Session ${sessionId} WebSocket Error:`,
+          error,
+        );
+        session.wsReady = false;
+        reject(error);
+      });
+
+      session.ws.on('close', (code: number, reason: Buffer) => {
+        console.log(
+          `[AssemblyAI WS STT] Session ${sessionId} WebSocket closed: Status=${code}, Reason=${reason.toString()}`,
+        );
+        session.wsReady = false;
+      });
+    });
+
+    this.sessions.set(sessionId, session);
+  }
+
+  /**
+   * Reset the inactivity timer for a session
+   */
+  private resetInactivityTimer(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    // Clear existing timeout
+    if (session.inactivityTimeout) {
+      clearTimeout(session.inactivityTimeout);
+    }
+
+    // Update last activity time
+    session.lastActivityTime = Date.now();
+
+    // Set new timeout
+    session.inactivityTimeout = setTimeout(() => {
+      this.closeConnectionDueToInactivity(sessionId);
+    }, this.INACTIVITY_TIMEOUT_MS);
+  }
+
+  /**
+   * Close connection due to inactivity for a session
+   */
+  private async closeConnectionDueToInactivity(
+    sessionId: string,
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    const inactiveFor = Date.now() - session.lastActivityTime;
+    console.log(
+      `[AssemblyAI WS STT] Closing connection for session ${sessionId} due to inactivity (inactive for ${inactiveFor}ms)`,
+    );
+
+    // Signal any running audio processing loops to stop
+    session.closed = true;
+
+    if (session.ws && session.wsReady) {
+      try {
+        session.ws.close();
+        session.wsReady = false;
+        console.log(
+          `[AssemblyAI WS STT] Session ${sessionId} connection closed due to inactivity`,
+        );
+        this.sessions.delete(sessionId);
+      } catch (error) {
+        console.error(
+          `[AssemblyAI WS STT] Error closing session ${sessionId} connection due to inactivity:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Ensure WebSocket connection is ready for a session, reconnect if needed
+   */
+  private async ensureConnection(sessionId: string): Promise<void> {
+    let session = this.sessions.get(sessionId);
+
+    // Check if connection is expired
+    const now = Math.floor(Date.now() / 1000);
+    const isExpired =
+      session &&
+      session.sessionExpiresAt > 0 &&
+      now >= session.sessionExpiresAt;
+
+    if (
+      !session ||
+      !session.ws ||
+      !session.wsReady ||
+      session.ws.readyState !== WebSocket.OPEN ||
+      isExpired
+    ) {
+      if (isExpired) {
+        console.log(
+          `[AssemblyAI WS STT] Session ${sessionId} expired, reconnecting...`,
+        );
+      } else {
+        console.log(
+          `[AssemblyAI WS STT] Session ${sessionId} connection not ready, connecting...`,
+        );
+      }
+
+      // Close existing connection if any
+      if (session?.ws && session.ws.readyState === WebSocket.OPEN) {
+        try {
+          session.ws.close();
+        } catch (e) {
+          console.warn(
+            `[AssemblyAI WS STT] Error closing old connection for session ${sessionId}:`,
+            e,
+          );
+        }
+      }
+
+      this.initializeWebSocket(sessionId);
+      session = this.sessions.get(sessionId)!;
+    }
+
+    await session.wsConnectionPromise;
+
+    // Reset the stop flag for new processing
+    session.closed = false;
+
+    // Reset inactivity timer on successful connection
+    this.resetInactivityTimer(sessionId);
+  }
+
+  /**
+   * Convert Float32Array audio data to Int16Array PCM16 format
+   */
+  private convertToPCM16(float32Data: Float32Array): Int16Array {
+    const pcm16 = new Int16Array(float32Data.length);
+    for (let i = 0; i < float32Data.length; i++) {
+      // Clamp values to [-1, 1] range
+      const clamped = Math.max(-1, Math.min(1, float32Data[i]));
+      // Convert to 16-bit PCM
+      pcm16[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    }
+    return pcm16;
+  }
+
+  async releaseSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    // Clear inactivity timeout
+    if (session.inactivityTimeout) {
+      clearTimeout(session.inactivityTimeout);
+      console.log(
+        `[AssemblyAI WS STT] Inactivity timeout cleared for session ${sessionId}`,
+      );
+    }
+
+    // Signal any running audio processing loops to stop
+    session.closed = true;
+    this.sessions.delete(sessionId);
+
+    if (session.ws && session.ws.readyState === WebSocket.OPEN) {
+      try {
+        // Send termination message
+        const terminateMessage = { type: 'Terminate' };
+        session.ws.send(JSON.stringify(terminateMessage));
+
+        // Wait a bit for the message to be sent, then close
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        session.ws.close();
+        session.wsReady = false;
+        console.log(
+          `[AssemblyAI WS STT] Session ${sessionId} WebSocket connection closed`,
+        );
+      } catch (error) {
+        console.error(
+          `[AssemblyAI WS STT] Error closing WebSocket for session ${sessionId}:`,
+          error,
+        );
+      }
+    }
+
+    return true;
+  }
+
+  async destroy(): Promise<void> {
+    console.log(
+      `[AssemblyAI WS STT] Destroying provider and closing ${this.sessions.size} WebSocket connection(s)`,
+    );
+
+    // Clean up all sessions
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.releaseSession(sessionId);
+    }
+
+    console.log('[AssemblyAI WS STT] All sessions cleaned up');
+  }
+}
@@ -0,0 +1,204 @@
+import { MIN_SPEECH_DURATION_MS } from '../../../constants';
+import { STTEvent, STTStream, StreamingSTTProvider } from './stt_provider';
+
+/**
+ * Configuration interface for MockSTTProvider
+ */
+export interface MockSTTProviderConfig {
+  /** Sample rate of the audio stream in Hz */
+  sampleRate: number;
+  /** Transcripts of the utterances of a pre-recorded audio fixture, in order */
+  fixtures?: string[];
+}
+
+interface MockSTTSession {
+  // Index of the next fixture transcript
+  fixtureIndex: number;
+  // Energy based endpointing of the fixture audio
+  speechMs: number;
+  silenceMs: number;
+  // Marker decoding, see encodeTranscriptMarker
+  preambleIndex: number;
+  markerBytes: number[] | null;
+  onEvent: ((event: STTEvent) => void) | null;
+}
+
+// A marker is this preamble, the UTF-8 bytes of the transcript and a 0 byte,
+// one byte per sample. Byte values are multiples of 1/128 so markers survive
+// Float32 and 16-bit PCM input unchanged.
+const MARKER_PREAMBLE = [0xff, 0x01, 0xff, 0x01, 0xff, 0x01];
+const byteToSample = (byte: number) => (byte - 128) / 128;
+const sampleToByte = (sample: number) => Math.round(sample * 128) + 128;
+
+// Fixture audio is speech while a chunk's RMS is above this level
+const SPEECH_RMS_THRESHOLD = 0.01;
+// Silence ending a fixture utterance
+const END_OF_TURN_SILENCE_MS = 640;
+
+/**
+ * Encode a transcript as a text-in-audio marker understood by
+ * MockSTTProvider. The samples can be sent as they are (Float32) or as
+ * 16-bit PCM, at the input sample rate: resampling or lossy codecs
+ * (mu-law, Opus) destroy the marker.
+ */
+export function encodeTranscriptMarker(transcript: string): Float32Array {
+  const bytes = [...MARKER_PREAMBLE, ...Buffer.from(transcript, 'utf8'), 0];
+  return Float32Array.from(bytes, byteToSample);
+}
+
+/**
+ * MockSTTProvider transcribes audio without any network access, for
+ * development and CI (MOCK_PROVIDERS=true).
+ *
+ * - Text-in-audio markers (see encodeTranscriptMarker) end the turn with
+ *   their transcript as soon as they are received.
+ * - Other audio is treated as a pre-recorded fixture: utterances are cut
+ *   with a simple energy threshold and each one gets the next transcript of
+ *   the configured fixtures. Without fixtures such audio is ignored.
+ */
+export class MockSTTProvider implements StreamingSTTProvider {
+  readonly name = 'mock';
+  readonly mode = 'streaming';
+  readonly sampleRate: number;
+
+  private fixtures: string[];
+  private sessions: Map<string, MockSTTSession> = new Map();
+
+  constructor(config: MockSTTProviderConfig) {
+    this.sampleRate = config.sampleRate;
+    this.fixtures = config.fixtures || [];
+  }
+
+  async openStream(
+    sessionId: string,
+    onEvent: (event: STTEvent) => void,
+  ): Promise<STTStream> {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = {
+        fixtureIndex: 0,
+        speechMs: 0,
+        silenceMs: 0,
+        preambleIndex: 0,
+        markerBytes: null,
+        onEvent: null,
+      };
+      this.sessions.set(sessionId, session);
+    }
+    session.onEvent = onEvent;
+
+    const provider = this;
+    const activeSession = session;
+    let streamClosed = false;
+
+    return {
+      providerSessionId: `mock-${sessionId}`,
+      get closed() {
+        return streamClosed || !provider.sessions.has(sessionId);
+      },
+      sendAudio(samples: Float32Array) {
+        if (!streamClosed) {
+          provider.processAudio(activeSession, samples);
+        }
+      },
+      close() {
+        streamClosed = true;
+        if (activeSession.onEvent === onEvent) {
+          activeSession.onEvent = null;
+        }
+      },
+    };
+  }
+
+  async releaseSession(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async destroy(): Promise<void> {
+    this.sessions.clear();
+  }
+
+  private processAudio(session: MockSTTSession, samples: Float32Array) {
+    let hasMarker = session.markerBytes !== null || session.preambleIndex > 0;
+
+    for (const sample of samples) {
+      const byte = sampleToByte(sample);
+
+      if (session.markerBytes) {
+        if (byte === 0) {
+          const transcript = Buffer.from(session.markerBytes)
+            .toString('utf8')
+            .trim();
+          session.markerBytes = null;
+          console.log(`[Mock STT] Marker transcript: ${transcript}`);
+          this.emit(session, { type: 'turn', transcript });
+        } else if (byte > 0 && byte <= 0xff) {
+          session.markerBytes.push(byte);
+        } else {
+          session.markerBytes = null;
+        }
+        continue;
+      }
+
+      if (byte === MARKER_PREAMBLE[session.preambleIndex]) {
+        session.preambleIndex++;
+        if (session.preambleIndex === MARKER_PREAMBLE.length) {
+          session.preambleIndex = 0;
+          session.markerBytes = [];
+          hasMarker = true;
+        }
+      } else {
+        session.preambleIndex = byte === MARKER_PREAMBLE[0] ? 1 : 0;
+      }
+    }
+
+    // Marker samples are loud, they are not fixture speech
+    if (!hasMarker && this.fixtures.length) {
+      this.detectFixtureTurn(session, samples);
+    }
+  }
+
+  private detectFixtureTurn(session: MockSTTSession, samples: Float32Array) {
+    const chunkMs = (samples.length / this.sampleRate) * 1000;
+    const rms = Math.sqrt(
+      samples.reduce((sum, sample) => sum + sample * sample, 0) /
+        Math.max(samples.length, 1),
+    );
+
+    if (rms >= SPEECH_RMS_THRESHOLD) {
+      session.speechMs += chunkMs;
+      session.silenceMs = 0;
+      return;
+    }
+
+    if (!session.speechMs) {
+      return;
+    }
+
+    session.silenceMs += chunkMs;
+    if (session.silenceMs < END_OF_TURN_SILENCE_MS) {
+      return;
+    }
+
+    const speechMs = session.speechMs;
+    session.speechMs = 0;
+    session.silenceMs = 0;
+    if (speechMs < MIN_SPEECH_DURATION_MS) {
+      return;
+    }
+
+    const transcript =
+      this.fixtures[session.fixtureIndex % this.fixtures.length];
+    session.fixtureIndex++;
+    console.log(
+      `[Mock STT] Fixture utterance of ${speechMs.toFixed(0)}ms: ${transcript}`,
+    );
+    this.emit(session, { type: 'turn', transcript });
+  }
+
+  private emit(session: MockSTTSession, event: STTEvent) {
+    if (event.transcript) {
+      session.onEvent?.(event);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+const WavEncoder = require('wav-encoder');
+
+import { BatchSTTProvider } from './stt_provider';
+
+/**
+ * Configuration interface for OpenAICompatibleSTTProvider
+ */
+export interface OpenAICompatibleSTTProviderConfig {
+  /** Base URL of the API, e.g. http://localhost:8000/v1 */
+  baseUrl: string;
+  /** API key, sent as a bearer token when set */
+  apiKey?: string;
+  /** Transcription model */
+  model: string;
+  /** Language code (e.g., 'en', 'es'), detected by the server when not set */
+  language?: string;
+  /** Time allowed for one transcription request (in milliseconds) */
+  timeoutMs?: number;
+}
+
+/**
+ * OpenAICompatibleSTTProvider transcribes utterances with an OpenAI
+ * compatible `/audio/transcriptions` endpoint, such as OpenAI itself or a
+ * self-hosted whisper server.
+ *
+ * Each utterance is posted as a 16-bit PCM WAV file.
+ */
+export class OpenAICompatibleSTTProvider implements BatchSTTProvider {
+  readonly name = 'openai';
+  readonly mode = 'batch';
+
+  private url: string;
+  private apiKey?: string;
+  private model: string;
+  private language?: string;
+  private timeoutMs: number;
+
+  constructor(config: OpenAICompatibleSTTProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error('OpenAICompatibleSTTProvider requires a base URL.');
+    }
+
+    this.url = `${config.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.language = config.language;
+    this.timeoutMs = config.timeoutMs || 30000;
+  }
+
+  async transcribe(
+    audio: { data: number[]; sampleRate: number },
+    sessionId: string,
+  ): Promise<string> {
+    const wav: ArrayBuffer = await WavEncoder.encode(
+      {
+        sampleRate: audio.sampleRate,
+        channelData: [Float32Array.from(audio.data)],
+      },
+      { bitDepth: 16 },
+    );
+
+    const form = new FormData();
+    form.append('file', new Blob([wav], { type: 'audio/wav' }), 'audio.wav');
+    form.append('model', this.model);
+    form.append('response_format', 'json');
+    if (this.language) {
+      form.append('language', this.language);
+    }
+
+    const startedAt = Date.now();
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: form,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Transcription request failed with status ${response.status}: ${errorText}`,
+      );
+    }
+
+    const result = (await response.json()) as { text?: string };
+    const transcript = (result.text || '').trim();
+
+    console.log(
+      `[OpenAI STT] Session ${sessionId} transcribed ${(audio.data.length / audio.sampleRate).toFixed(1)}s of audio in ${Date.now() - startedAt}ms: ${transcript}`,
+    );
+
+    return transcript;
+  }
+}
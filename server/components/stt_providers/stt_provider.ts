@@ -0,0 +1,67 @@
+/**
+ * Transcription events of a streaming STT provider
+ */
+export type STTEvent =
+  // The user is speaking: the transcript of the turn so far
+  | { type: 'partial'; transcript: string }
+  // The provider detected the end of the user's turn
+  | { type: 'turn'; transcript: string };
+
+/**
+ * Audio stream of one STT node execution, on the session's connection to
+ * the provider
+ */
+export interface STTStream {
+  /** Provider side identifier of the connection, for logs */
+  readonly providerSessionId: string;
+  /** True once the connection was closed (inactivity, session released) */
+  readonly closed: boolean;
+  /** Send Float32 samples at the provider's sample rate */
+  sendAudio(samples: Float32Array): void;
+  /** Stop delivering events; the session's connection stays open */
+  close(): void;
+}
+
+/**
+ * StreamingSTTProvider is a streaming speech-to-text engine.
+ *
+ * Providers keep one connection per session, opened on first use and
+ * reused by every turn. STTNode drives them: it feeds the audio of the
+ * session, forwards partial transcripts to the client and completes the
+ * turn on `turn` events, while measuring endpointing latency with VAD.
+ */
+export interface StreamingSTTProvider {
+  /** Name of the service, as selected with `sttService` at /load */
+  readonly name: string;
+  readonly mode: 'streaming';
+  /** Sample rate of the audio sent to the provider */
+  readonly sampleRate: number;
+  openStream(
+    sessionId: string,
+    onEvent: (event: STTEvent) => void,
+  ): Promise<STTStream>;
+  /**
+   * Close the connection held for a session.
+   * Returns true if the session had a connection to release.
+   */
+  releaseSession(sessionId: string): Promise<boolean>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * BatchSTTProvider transcribes complete utterances.
+ *
+ * Turns are cut by AudioStreamSlicerNode with VAD, and BatchSTTNode sends
+ * each utterance to the provider. Nothing is held per session.
+ */
+export interface BatchSTTProvider {
+  /** Name of the service, as selected with `sttService` at /load */
+  readonly name: string;
+  readonly mode: 'batch';
+  transcribe(
+    audio: { data: number[]; sampleRate: number },
+    sessionId: string,
+  ): Promise<string>;
+}
+
+export type STTProvider = StreamingSTTProvider | BatchSTTProvider;
@@ -0,0 +1,74 @@
+import { INPUT_SAMPLE_RATE } from '../../../constants';
+import { AssemblyAISTTProvider } from './assembly_ai_stt_provider';
+import { MockSTTProvider } from './mock_stt_provider';
+import { OpenAICompatibleSTTProvider } from './openai_compatible_stt_provider';
+import { STTProvider } from './stt_provider';
+
+export type STTServiceType = 'assemblyai' | 'openai' | 'mock';
+
+export const STT_SERVICES: STTServiceType[] = ['assemblyai', 'openai', 'mock'];
+
+/**
+ * Settings of the STT services, a service is available when configured
+ */
+export interface STTServicesConfig {
+  assemblyai?: { apiKey: string };
+  // Any OpenAI compatible `/audio/transcriptions` endpoint
+  openai?: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    language?: string;
+  };
+  // Offline transcription (MOCK_PROVIDERS), see MockSTTProvider
+  mock?: { fixtures: string[] };
+}
+
+/**
+ * STT services that can be selected with `sttService` at /load
+ */
+export function getAvailableSTTServices(
+  config: STTServicesConfig,
+): STTServiceType[] {
+  return STT_SERVICES.filter((service) => !!config[service]);
+}
+
+/**
+ * Create a provider for an STT service.
+ * Each audio graph gets its own provider, holding the connections of the
+ * sessions it runs.
+ */
+export function createSTTProvider(
+  service: STTServiceType,
+  config: STTServicesConfig,
+): STTProvider {
+  switch (service) {
+    case 'assemblyai':
+      if (!config.assemblyai) {
+        throw new Error('ASSEMBLY_AI_API_KEY is not configured');
+      }
+      return new AssemblyAISTTProvider({
+        apiKey: config.assemblyai.apiKey,
+        sampleRate: INPUT_SAMPLE_RATE,
+        formatTurns: false,
+        endOfTurnConfidenceThreshold: 0.5,
+        minEndOfTurnSilenceWhenConfident: 100,
+        maxTurnSilence: 640,
+      });
+    case 'openai':
+      if (!config.openai) {
+        throw new Error('OPENAI_STT_BASE_URL is not configured');
+      }
+      return new OpenAICompatibleSTTProvider(config.openai);
+    case 'mock':
+      if (!config.mock) {
+        throw new Error('MOCK_PROVIDERS is not enabled');
+      }
+      return new MockSTTProvider({
+        sampleRate: INPUT_SAMPLE_RATE,
+        fixtures: config.mock.fixtures,
+      });
+    default:
+      throw new Error(`Unknown STT service: ${service}`);
+  }
+}
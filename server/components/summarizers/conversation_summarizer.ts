@@ -0,0 +1,40 @@
+import { ChatMessage } from '../../types';
+
+/**
+ * What a summary refresh is given: the summary so far and the turns that
+ * fell out of the context window since
+ */
+export interface SummaryRequest {
+  previousSummary?: string;
+  messages: ChatMessage[];
+  userName: string;
+  agentName: string;
+}
+
+/**
+ * ConversationSummarizer compresses older turns of a conversation into a
+ * running summary, which replaces them in the LLM prompt.
+ */
+export interface ConversationSummarizer {
+  /** Name of the implementation, for logs */
+  readonly name: string;
+  /** The updated summary, covering the previous summary and the messages */
+  summarize(request: SummaryRequest): Promise<string>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * The turns to summarize as a plain transcript, e.g. "Sam: Hello". Tool
+ * results are kept, as what the agent looked up may matter later.
+ */
+export function formatSummaryTranscript(request: SummaryRequest): string {
+  return request.messages
+    .filter((msg) => msg.content)
+    .map((msg) => {
+      if (msg.role === 'tool') {
+        return `(tool result: ${msg.content})`;
+      }
+      return `${msg.role === 'user' ? request.userName : (msg.agentName ?? request.agentName)}: ${msg.content}`;
+    })
+    .join('\n');
+}
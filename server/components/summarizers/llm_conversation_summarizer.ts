@@ -0,0 +1,63 @@
+import { GraphTypes } from '@inworld/runtime/graph';
+
+import {
+  CONVERSATION_SUMMARY_SYSTEM_PROMPT,
+  getConversationSummaryPrompt,
+} from '../../prompts/conversation_summary';
+import { LLMCompletionGraph } from '../llm_completion_graph';
+import {
+  ConversationSummarizer,
+  formatSummaryTranscript,
+  SummaryRequest,
+} from './conversation_summarizer';
+
+/**
+ * LLMConversationSummarizer writes the summary with the server's LLM.
+ */
+export class LLMConversationSummarizer implements ConversationSummarizer {
+  readonly name = 'llm';
+  private llm: LLMCompletionGraph<SummaryRequest>;
+
+  constructor(config: { apiKey: string; provider: string; modelName: string }) {
+    this.llm = new LLMCompletionGraph({
+      ...config,
+      id: 'conversation-summary',
+      textGenerationConfig: {
+        maxNewTokens: 300,
+        maxPromptLength: 4000,
+        repetitionPenalty: 1,
+        topP: 0.9,
+        temperature: 0.2,
+        frequencyPenalty: 0,
+        presencePenalty: 0,
+      },
+      buildRequest: (request) =>
+        new GraphTypes.LLMChatRequest({
+          messages: [
+            { role: 'system', content: CONVERSATION_SUMMARY_SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: getConversationSummaryPrompt({
+                previousSummary: request.previousSummary,
+                transcript: formatSummaryTranscript(request),
+                userName: request.userName,
+                agentName: request.agentName,
+              }),
+            },
+          ],
+        }),
+    });
+  }
+
+  async summarize(request: SummaryRequest): Promise<string> {
+    const summary = (await this.llm.complete(request)).content.trim();
+    if (!summary) {
+      throw new Error('The LLM returned an empty summary');
+    }
+    return summary;
+  }
+
+  async destroy() {
+    await this.llm.destroy();
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  ConversationSummarizer,
+  formatSummaryTranscript,
+  SummaryRequest,
+} from './conversation_summarizer';
+
+// The mock summary keeps its most recent characters
+const MAX_SUMMARY_LENGTH = 1000;
+
+/**
+ * MockConversationSummarizer stands in for the LLM summarizer when
+ * MOCK_PROVIDERS is enabled. The "summary" is the transcript of the
+ * summarized turns appended to the previous summary, trimmed to a fixed
+ * length, so the context window can be exercised offline.
+ */
+export class MockConversationSummarizer implements ConversationSummarizer {
+  readonly name = 'mock';
+
+  async summarize(request: SummaryRequest): Promise<string> {
+    const summary = [request.previousSummary, formatSummaryTranscript(request)]
+      .filter(Boolean)
+      .join('\n');
+
+    return summary.length > MAX_SUMMARY_LENGTH
+      ? summary.slice(summary.length - MAX_SUMMARY_LENGTH)
+      : summary;
+  }
+
+  async destroy() {}
+}
@@ -0,0 +1,57 @@
+import { ToolDefinition, ToolRegistry } from './tool_registry';
+
+const getCurrentTime: ToolDefinition<{ timezone?: string }> = {
+  name: 'get_current_time',
+  description:
+    'Get the current date and time, in the given time zone or in UTC. Use it whenever the user asks about the time or date.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: {
+        type: 'string',
+        description: 'IANA time zone, e.g. Europe/Paris',
+      },
+    },
+  },
+  handler: async ({ timezone = 'UTC' }) => {
+    const now = new Date();
+    // Throws a RangeError for unknown time zones, which the LLM gets back
+    const local = now.toLocaleString('en-US', {
+      timeZone: timezone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    });
+    return { timezone, local, iso: now.toISOString() };
+  },
+};
+
+const rollDice: ToolDefinition<{ sides?: number; count?: number }> = {
+  name: 'roll_dice',
+  description: 'Roll one or more dice and get the results.',
+  parameters: {
+    type: 'object',
+    properties: {
+      sides: { type: 'integer', description: 'Sides of each die, 6 if omitted' },
+      count: { type: 'integer', description: 'Number of dice, 1 if omitted' },
+    },
+  },
+  handler: async ({ sides = 6, count = 1 }) => {
+    if (sides < 2 || sides > 1000 || count < 1 || count > 20) {
+      throw new Error('Roll 1 to 20 dice with 2 to 1000 sides');
+    }
+    const rolls = Array.from(
+      { length: count },
+      () => Math.floor(Math.random() * sides) + 1,
+    );
+    return { rolls, total: rolls.reduce((sum, roll) => sum + roll, 0) };
+  },
+};
+
+/**
+ * Register the example tools that ship with the server. Register your own
+ * tools on the registry the same way, before the server starts.
+ */
+export function registerBuiltinTools(registry: ToolRegistry) {
+  registry.register(getCurrentTime);
+  registry.register(rollDice);
+}
@@ -0,0 +1,50 @@
+import {
+  ContentInterface,
+  LLMMessageInterface,
+  ToolInterface,
+} from '@inworld/runtime/common';
+import { GraphTypes } from '@inworld/runtime/graph';
+
+import { LLMCompletionGraph } from '../llm_completion_graph';
+import { ToolCallGenerator } from './tool_call_generator';
+
+type ToolCallRequest = {
+  messages: LLMMessageInterface[];
+  tools: ToolInterface[];
+};
+
+/**
+ * LLMToolCallGenerator calls the LLM of a voice agent graph without
+ * streaming, so tool calls come back whole.
+ */
+export class LLMToolCallGenerator implements ToolCallGenerator {
+  readonly name = 'llm';
+  private llm: LLMCompletionGraph<ToolCallRequest>;
+
+  constructor(config: {
+    id: string; // Unique per voice agent graph
+    apiKey: string;
+    provider: string;
+    modelName: string;
+    textGenerationConfig: { [key: string]: any };
+  }) {
+    this.llm = new LLMCompletionGraph({
+      ...config,
+      id: `tool-call-${config.id}`,
+      buildRequest: (request) =>
+        new GraphTypes.LLMChatRequest({
+          messages: request.messages,
+          tools: request.tools,
+          toolChoice: { choice: 'auto' },
+        }),
+    });
+  }
+
+  generate(request: ToolCallRequest): Promise<ContentInterface> {
+    return this.llm.complete(request);
+  }
+
+  async destroy() {
+    await this.llm.destroy();
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  ContentInterface,
+  LLMMessageInterface,
+  ToolInterface,
+} from '@inworld/runtime/common';
+import { v4 } from 'uuid';
+
+import { ToolCallGenerator } from './tool_call_generator';
+import { ToolParameterSchema } from './tool_registry';
+
+/**
+ * MockToolCallGenerator stands in for the LLM when MOCK_PROVIDERS is
+ * enabled: it calls the first advertised tool whose name the user's last
+ * message mentions (e.g. "get_current_time please"), then answers with the
+ * results once they are in, so tool calling runs offline. Otherwise it gives
+ * no answer, for MockLLMNode to stream its own. Only required arguments
+ * with allowed values are given: the value the message mentions, else the
+ * first one.
+ */
+export class MockToolCallGenerator implements ToolCallGenerator {
+  readonly name = 'mock';
+
+  async generate(request: {
+    messages: LLMMessageInterface[];
+    tools: ToolInterface[];
+  }): Promise<ContentInterface> {
+    const lastMessage = request.messages[request.messages.length - 1];
+    if (lastMessage?.role === 'tool') {
+      const lastUserIndex = request.messages
+        .map((msg) => msg.role)
+        .lastIndexOf('user');
+      const toolResults = request.messages
+        .slice(lastUserIndex + 1)
+        .filter((msg) => msg.role === 'tool')
+        .map((msg) => msg.content);
+      return { content: `The tools returned: ${toolResults.join(', ')}` };
+    }
+    if (lastMessage?.role !== 'user' || typeof lastMessage.content !== 'string') {
+      return { content: '' };
+    }
+
+    const text = lastMessage.content;
+    const tool = request.tools.find((tool) => text.includes(tool.name));
+    if (!tool) {
+      return { content: '' };
+    }
+
+    const parameters = tool.properties as ToolParameterSchema | undefined;
+    const args: { [name: string]: unknown } = {};
+    for (const name of parameters?.required ?? []) {
+      const allowed = parameters.properties?.[name]?.enum;
+      if (allowed?.length) {
+        args[name] =
+          allowed.find((value) => text.includes(String(value))) ?? allowed[0];
+      }
+    }
+    return {
+      content: '',
+      toolCalls: [{ id: v4(), name: tool.name, args: JSON.stringify(args) }],
+    };
+  }
+
+  async destroy() {}
+}
@@ -0,0 +1,20 @@
+import {
+  ContentInterface,
+  LLMMessageInterface,
+  ToolInterface,
+} from '@inworld/runtime/common';
+
+/**
+ * ToolCallGenerator runs the LLM generations of a turn that may call tools;
+ * the one that calls none gives the answer. See ToolCallingNode.
+ */
+export interface ToolCallGenerator {
+  /** Name of the implementation, for logs */
+  readonly name: string;
+  /** The complete LLM response: text and/or tool calls */
+  generate(request: {
+    messages: LLMMessageInterface[];
+    tools: ToolInterface[];
+  }): Promise<ContentInterface>;
+  destroy(): Promise<void>;
+}
@@ -0,0 +1,152 @@
+import { ToolInterface } from '@inworld/runtime/common';
+
+/**
+ * The subset of JSON schema tool parameters are described with, and checked
+ * against before a handler is called
+ */
+export interface ToolParameterSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: unknown[];
+  properties?: { [name: string]: ToolParameterSchema };
+  required?: string[];
+  items?: ToolParameterSchema;
+}
+
+export interface ToolContext {
+  sessionId: string;
+  interactionId: string;
+}
+
+/**
+ * A tool the LLM can call. The handler's result is sent back to the LLM as
+ * JSON, a thrown error as the error message.
+ */
+export interface ToolDefinition<Args = { [name: string]: any }> {
+  name: string; // Letters, digits, _ and -, as LLM providers require
+  description: string; // Tells the LLM when to use the tool
+  parameters: ToolParameterSchema & { type: 'object' };
+  handler: (args: Args, context: ToolContext) => Promise<unknown>;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * ToolRegistry holds the tools agents can be given, by name. Agents list the
+ * tools they get in `agent.tools`.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<Args>(tool: ToolDefinition<Args>) {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool as ToolDefinition);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * The names that aren't registered tools
+   */
+  findUnknown(names: string[]): string[] {
+    return names.filter((name) => !this.tools.has(name));
+  }
+
+  /**
+   * The tools as advertised in an LLM chat request, skipping unknown names
+   */
+  toLLMTools(names: string[]): ToolInterface[] {
+    return names
+      .map((name) => this.tools.get(name))
+      .filter((tool): tool is ToolDefinition => !!tool)
+      .map(toLLMTool);
+  }
+}
+
+/**
+ * A tool as advertised in an LLM chat request
+ */
+export function toLLMTool(tool: ToolDefinition): ToolInterface {
+  return {
+    name: tool.name,
+    description: tool.description,
+    properties: tool.parameters,
+  };
+}
+
+// Tools available to all agents of the server, see builtin_tools.ts
+export const toolRegistry = new ToolRegistry();
+
+/**
+ * Check tool call arguments against the tool's parameter schema.
+ * Returns the problems found, e.g. ['city: must be a string'].
+ */
+export function validateToolArgs(
+  schema: ToolParameterSchema,
+  value: unknown,
+  path = '',
+): string[] {
+  const label = path || 'arguments';
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${label}: must be one of ${schema.enum.join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${label}: must be an object`];
+      }
+      const args = value as { [name: string]: unknown };
+      const errors = (schema.required ?? [])
+        .filter((name) => args[name] === undefined)
+        .map((name) => `${joinPath(path, name)}: is required`);
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        if (args[name] !== undefined) {
+          errors.push(
+            ...validateToolArgs(property, args[name], joinPath(path, name)),
+          );
+        }
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${label}: must be an array`];
+      }
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateToolArgs(schema.items, item, `${label}[${index}]`),
+          )
+        : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${label}: must be an integer`];
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type
+        ? []
+        : [`${label}: must be a ${schema.type}`];
+    default:
+      return [];
+  }
+}
+
+function joinPath(path: string, name: string) {
+  return path ? `${path}.${name}` : name;
+}
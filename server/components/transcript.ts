@@ -0,0 +1,211 @@
+import { State, TurnTiming } from '../types';
+
+export const TRANSCRIPT_FORMATS = ['json', 'md', 'vtt', 'srt'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+// Caption of the last turn, and of turns whose next turn starts too soon
+const LAST_CUE_DURATION_MS = 3000;
+// Shortest caption, unless the next turn starts sooner
+const MIN_CUE_DURATION_MS = 500;
+
+export interface TranscriptTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  speaker: string;
+  text: string;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+}
+
+export interface Transcript {
+  sessionId: string;
+  userName: string;
+  agentName: string;
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Record when a turn was spoken. Timings are kept in the session state
+ * (persisted with it) so captions can be timed after the session ended.
+ */
+export function recordTurnTiming(
+  state: State,
+  interactionId: string,
+  timing: TurnTiming,
+) {
+  state.turnTimings = state.turnTimings || {};
+  state.turnTimings[interactionId] = {
+    ...state.turnTimings[interactionId],
+    ...timing,
+  };
+}
+
+/**
+ * Build the transcript of a session's conversation.
+ *
+ * User turns start when the user's speech ended (or the text was received),
+ * agent turns when their audio was sent to the client. Turns without audio
+ * timing fall back to when their message was added.
+ */
+export function buildTranscript(sessionId: string, state: State): Transcript {
+  const userName = state.userName || 'User';
+  // All of them in multi-agent sessions, each turn names its own
+  const agentName =
+    state.agents?.map((agent) => agent.name).join(', ') ||
+    state.agent?.name ||
+    'Agent';
+  const timings = state.turnTimings || {};
+
+  const turns = state.messages
+    // Tool calls are not spoken
+    .filter(
+      (msg) =>
+        msg.role === 'user' || (msg.role === 'assistant' && !msg.toolCalls),
+    )
+    .map((msg) => {
+      const timing = timings[msg.id] || {};
+      const isUser = msg.role === 'user';
+      const startedAt =
+        (isUser ? timing.userSpeechEndedAt : timing.agentAudioStartedAt) ??
+        msg.createdAt ??
+        0;
+
+      return {
+        id: msg.id,
+        role: msg.role as TranscriptTurn['role'],
+        speaker: isUser ? userName : (msg.agentName ?? agentName),
+        text: msg.content,
+        startedAt,
+        endedAt: isUser ? undefined : timing.agentAudioEndedAt,
+      };
+    });
+
+  // Captions without an end last until the next turn starts. No caption
+  // overlaps the next turn, even if that makes it shorter than the minimum.
+  return {
+    sessionId,
+    userName,
+    agentName,
+    turns: turns.map((turn, index) => {
+      const nextStartedAt = turns[index + 1]?.startedAt;
+      const hasNext = nextStartedAt > turn.startedAt;
+      const endedAt = Math.max(
+        turn.endedAt ??
+          (hasNext ? nextStartedAt : turn.startedAt + LAST_CUE_DURATION_MS),
+        turn.startedAt + MIN_CUE_DURATION_MS,
+      );
+
+      return {
+        ...turn,
+        endedAt: hasNext ? Math.min(endedAt, nextStartedAt) : endedAt,
+      };
+    }),
+  };
+}
+
+/**
+ * Render a transcript in one of TRANSCRIPT_FORMATS
+ */
+export function renderTranscript(
+  transcript: Transcript,
+  format: TranscriptFormat,
+): { contentType: string; body: string } {
+  switch (format) {
+    case 'json':
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify({
+          ...transcript,
+          turns: transcript.turns.map((turn) => ({
+            ...turn,
+            startedAt: new Date(turn.startedAt).toISOString(),
+            endedAt: new Date(turn.endedAt).toISOString(),
+          })),
+        }),
+      };
+    case 'md':
+      return {
+        contentType: 'text/markdown; charset=utf-8',
+        body: renderMarkdown(transcript),
+      };
+    case 'vtt':
+      return {
+        contentType: 'text/vtt; charset=utf-8',
+        body: renderCaptions(transcript, 'vtt'),
+      };
+    case 'srt':
+      return {
+        contentType: 'application/x-subrip; charset=utf-8',
+        body: renderCaptions(transcript, 'srt'),
+      };
+  }
+}
+
+function renderMarkdown(transcript: Transcript): string {
+  const origin = transcript.turns[0]?.startedAt ?? 0;
+  const lines = [
+    `# Conversation between ${transcript.userName} and ${transcript.agentName}`,
+    '',
+    transcript.turns.length
+      ? `Session \`${transcript.sessionId}\`, started ${new Date(origin).toISOString()}`
+      : `Session \`${transcript.sessionId}\``,
+  ];
+
+  for (const turn of transcript.turns) {
+    lines.push(
+      '',
+      `**${turn.speaker}** (${formatTimestamp(turn.startedAt - origin)}): ${turn.text}`,
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Caption times are relative to the start of the first turn
+function renderCaptions(transcript: Transcript, format: 'vtt' | 'srt'): string {
+  const origin = transcript.turns[0]?.startedAt ?? 0;
+  const separator = format === 'vtt' ? '.' : ',';
+
+  const cues = transcript.turns.map((turn, index) => {
+    const start = formatTimestamp(turn.startedAt - origin, separator);
+    const end = formatTimestamp(turn.endedAt - origin, separator);
+    // Blank lines would end the cue
+    const text = turn.text.replace(/\n\s*\n/g, '\n');
+
+    return [
+      String(index + 1),
+      `${start} --> ${end}`,
+      format === 'vtt'
+        ? `<v ${turn.speaker}>${escapeVTT(text)}`
+        : `${turn.speaker}: ${text}`,
+    ].join('\n');
+  });
+
+  const blocks = format === 'vtt' ? ['WEBVTT', ...cues] : cues;
+  return blocks.join('\n\n') + '\n';
+}
+
+// hh:mm:ss, with milliseconds after the separator when given:
+// hh:mm:ss.mmm (WebVTT) or hh:mm:ss,mmm (SRT)
+function formatTimestamp(ms: number, separator?: string): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+
+  const time = [
+    Math.floor(total / 3600000),
+    Math.floor(total / 60000) % 60,
+    Math.floor(total / 1000) % 60,
+  ]
+    .map((value) => pad(value))
+    .join(':');
+
+  return separator ? `${time}${separator}${pad(total % 1000, 3)}` : time;
+}
+
+function escapeVTT(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
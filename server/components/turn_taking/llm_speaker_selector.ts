@@ -0,0 +1,66 @@
+import { GraphTypes } from '@inworld/runtime/graph';
+
+import {
+  getSpeakerSelectionPrompt,
+  SPEAKER_SELECTION_SYSTEM_PROMPT,
+} from '../../prompts/turn_taking';
+import { LLMCompletionGraph } from '../llm_completion_graph';
+import {
+  formatSpeakerTranscript,
+  SpeakerSelectionRequest,
+  SpeakerSelector,
+} from './speaker_selector';
+
+/**
+ * LLMSpeakerSelector asks the server's LLM who speaks next.
+ */
+export class LLMSpeakerSelector implements SpeakerSelector {
+  readonly name = 'llm';
+  private llm: LLMCompletionGraph<SpeakerSelectionRequest>;
+
+  constructor(config: { apiKey: string; provider: string; modelName: string }) {
+    this.llm = new LLMCompletionGraph({
+      ...config,
+      id: 'speaker-selection',
+      textGenerationConfig: {
+        maxNewTokens: 20,
+        maxPromptLength: 4000,
+        repetitionPenalty: 1,
+        topP: 1,
+        temperature: 0,
+        frequencyPenalty: 0,
+        presencePenalty: 0,
+      },
+      buildRequest: (request) =>
+        new GraphTypes.LLMChatRequest({
+          messages: [
+            { role: 'system', content: SPEAKER_SELECTION_SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: getSpeakerSelectionPrompt({
+                agents: request.agents,
+                transcript: formatSpeakerTranscript(request),
+                userName: request.userName,
+                canPass: request.canPass,
+              }),
+            },
+          ],
+        }),
+    });
+  }
+
+  async select(request: SpeakerSelectionRequest): Promise<string | undefined> {
+    const { content } = await this.llm.complete(request);
+
+    // The LLM may add punctuation or a few words around the name
+    const name = content.trim().toLowerCase().replace(/[."'*]/g, '');
+    const agent =
+      request.agents.find((agent) => agent.name.toLowerCase() === name) ??
+      request.agents.find((agent) => name.includes(agent.name.toLowerCase()));
+    return agent?.id;
+  }
+
+  async destroy() {
+    await this.llm.destroy();
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  SpeakerSelectionRequest,
+  SpeakerSelector,
+} from './speaker_selector';
+import { findAddressedAgent, nextInRotation } from './turn_taking';
+
+/**
+ * MockSpeakerSelector stands in for the LLM selector when MOCK_PROVIDERS is
+ * enabled. It picks the agent named in the last message, else the next
+ * agent in turn, or nobody when it may pass, so the llm policy can be
+ * exercised offline.
+ */
+export class MockSpeakerSelector implements SpeakerSelector {
+  readonly name = 'mock';
+
+  async select(request: SpeakerSelectionRequest): Promise<string | undefined> {
+    const { agents } = request;
+    const lastMessage = request.messages[request.messages.length - 1];
+    const addressed = findAddressedAgent(
+      agents,
+      lastMessage?.content ?? '',
+      request.lastSpeakerId,
+    );
+    if (addressed || request.canPass) {
+      return addressed?.id;
+    }
+
+    const lastSpeaker = agents.find(
+      (agent) => agent.id === request.lastSpeakerId,
+    );
+    return nextInRotation(agents, lastSpeaker).id;
+  }
+
+  async destroy() {}
+}
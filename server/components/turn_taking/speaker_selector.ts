@@ -0,0 +1,44 @@
+import { Agent, ChatMessage } from '../../types';
+
+/**
+ * What the selector is given: the agents, the end of the conversation and
+ * whether it may pick nobody
+ */
+export interface SpeakerSelectionRequest {
+  agents: Pick<Agent, 'id' | 'name' | 'description'>[];
+  messages: ChatMessage[];
+  userName: string;
+  lastSpeakerId?: string;
+  canPass: boolean; // For replies between agents: nobody replies, the user speaks next
+}
+
+/**
+ * SpeakerSelector picks the agent that speaks next in a multi-agent session
+ * with the llm turn-taking policy, see turn_taking.ts.
+ */
+export interface SpeakerSelector {
+  /** Name of the implementation, for logs */
+  readonly name: string;
+  /** Id of the agent that speaks next, undefined for nobody */
+  select(request: SpeakerSelectionRequest): Promise<string | undefined>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * The conversation as a plain transcript, e.g. "Sam: Hello". Tool calls and
+ * results are left out.
+ */
+export function formatSpeakerTranscript(
+  request: SpeakerSelectionRequest,
+): string {
+  return request.messages
+    .filter(
+      (msg) =>
+        msg.content && (msg.role === 'user' || msg.role === 'assistant'),
+    )
+    .map(
+      (msg) =>
+        `${msg.role === 'user' ? request.userName : (msg.agentName ?? 'Agent')}: ${msg.content}`,
+    )
+    .join('\n');
+}
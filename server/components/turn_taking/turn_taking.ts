@@ -0,0 +1,205 @@
+import { DEFAULT_TURN_TAKING_POLICY } from '../../../constants';
+import { Agent, ChatMessage, State, TurnTakingPolicy } from '../../types';
+import { SpeakerSelector } from './speaker_selector';
+
+/**
+ * Turn-taking of multi-agent sessions.
+ *
+ * Several agents share the conversation, each with its own system prompt
+ * and voice. `state.agents` holds them and `state.agent` is the one
+ * answering the current turn: TextInputNode switches it before anything
+ * else runs, so the other nodes work as in a single-agent session.
+ */
+
+export const TURN_TAKING_POLICIES: TurnTakingPolicy[] = [
+  'addressed',
+  'round-robin',
+  'llm',
+];
+
+type SpeakingAgent = Pick<Agent, 'id' | 'name'>;
+
+// End of the conversation shown to the LLM speaker selector
+const SPEAKER_SELECTION_MESSAGES = 12;
+
+/**
+ * The agent that answers the user's last message
+ */
+export async function chooseSpeaker(
+  state: State,
+  selector?: SpeakerSelector,
+): Promise<Agent> {
+  const agents = state.agents;
+  const lastSpeaker = findLastSpeaker(state);
+
+  switch (getPolicy(state)) {
+    case 'round-robin':
+      return nextInRotation(agents, lastSpeaker);
+
+    case 'llm': {
+      const speaker = await selectSpeaker(state, selector, lastSpeaker, false);
+      if (speaker) {
+        return speaker;
+      }
+      // No usable answer, the addressed policy decides
+      break;
+    }
+  }
+
+  const userMessage = [...state.messages]
+    .reverse()
+    .find((msg) => msg.role === 'user');
+  return (
+    findAddressedAgent(agents, userMessage?.content ?? '') ??
+    lastSpeaker ??
+    agents[0]
+  );
+}
+
+/**
+ * The agent that replies to the answer just given, if any. Up to
+ * `turnTaking.maxAgentReplies` replies follow each user message:
+ * - addressed: the agent the answer names, if it names one
+ * - round-robin: the next agent
+ * - llm: the agent the LLM picks, if it doesn't leave the floor to the user
+ */
+export async function chooseReplySpeaker(
+  state: State,
+  selector?: SpeakerSelector,
+): Promise<Agent | undefined> {
+  const answers = getTurnAnswers(state.messages);
+  if (
+    !answers.length ||
+    answers.length > (state.turnTaking?.maxAgentReplies ?? 0)
+  ) {
+    return undefined;
+  }
+
+  const lastAnswer = answers[answers.length - 1];
+  const lastSpeaker = state.agents.find(
+    (agent) => agent.id === lastAnswer.agentId,
+  );
+
+  switch (getPolicy(state)) {
+    case 'round-robin':
+      return nextInRotation(state.agents, lastSpeaker);
+    case 'llm':
+      return selectSpeaker(state, selector, lastSpeaker, true);
+    default:
+      return findAddressedAgent(
+        state.agents,
+        lastAnswer.content,
+        lastSpeaker?.id,
+      );
+  }
+}
+
+/**
+ * Make the agent the one answering the current turn
+ */
+export function switchSpeaker(state: State, speaker: Agent) {
+  // Changes made to the current agent (e.g. its documents) are kept
+  state.agents = state.agents.map((agent) =>
+    agent.id === state.agent.id ? state.agent : agent,
+  );
+  state.agent = state.agents.find((agent) => agent.id === speaker.id);
+}
+
+/**
+ * The agent named in the text, the first one if several are, e.g. "Ada,
+ * what do you think?". Names are matched as whole words, in any case.
+ */
+export function findAddressedAgent<T extends SpeakingAgent>(
+  agents: T[],
+  text: string,
+  excludeId?: string,
+): T | undefined {
+  let addressed: T | undefined;
+  let addressedAt = Infinity;
+
+  for (const agent of agents) {
+    if (agent.id === excludeId || !agent.name.trim()) {
+      continue;
+    }
+    const match = new RegExp(
+      `(^|[^\\w])${escapeRegExp(agent.name.trim())}(?![\\w])`,
+      'i',
+    ).exec(text);
+    if (match && match.index + match[1].length < addressedAt) {
+      addressed = agent;
+      addressedAt = match.index + match[1].length;
+    }
+  }
+
+  return addressed;
+}
+
+/**
+ * The agent after the given one, the first one if not given
+ */
+export function nextInRotation<T extends SpeakingAgent>(
+  agents: T[],
+  current?: SpeakingAgent,
+): T {
+  const index = current
+    ? agents.findIndex((agent) => agent.id === current.id)
+    : -1;
+  return agents[(index + 1) % agents.length];
+}
+
+function getPolicy(state: State): TurnTakingPolicy {
+  return state.turnTaking?.policy ?? DEFAULT_TURN_TAKING_POLICY;
+}
+
+// The agent of the last answer in the conversation
+function findLastSpeaker(state: State): Agent | undefined {
+  const lastAnswer = [...state.messages]
+    .reverse()
+    .find((msg) => msg.role === 'assistant' && msg.agentId);
+  return state.agents.find((agent) => agent.id === lastAnswer?.agentId);
+}
+
+// The answers given since the user's last message, tool calls aside
+function getTurnAnswers(messages: ChatMessage[]): ChatMessage[] {
+  const lastUserIndex = messages.map((msg) => msg.role).lastIndexOf('user');
+  return messages
+    .slice(lastUserIndex + 1)
+    .filter(
+      (msg) => msg.role === 'assistant' && !msg.toolCalls && msg.content,
+    );
+}
+
+async function selectSpeaker(
+  state: State,
+  selector: SpeakerSelector | undefined,
+  lastSpeaker: Agent | undefined,
+  canPass: boolean,
+): Promise<Agent | undefined> {
+  if (!selector) {
+    return undefined;
+  }
+
+  let speakerId: string | undefined;
+  try {
+    speakerId = await selector.select({
+      agents: state.agents,
+      messages: state.messages.slice(-SPEAKER_SELECTION_MESSAGES),
+      userName: state.userName || 'User',
+      lastSpeakerId: lastSpeaker?.id,
+      canPass,
+    });
+  } catch (error) {
+    console.error(
+      `Failed to select the next speaker with the ${selector.name} selector:`,
+      error,
+    );
+    return undefined;
+  }
+  return canPass && speakerId === lastSpeaker?.id
+    ? undefined // Agents don't reply to themselves
+    : state.agents.find((agent) => agent.id === speakerId);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
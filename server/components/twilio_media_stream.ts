@@ -0,0 +1,335 @@
+import WebSocket, { RawData } from 'ws';
+
+import {
+  AUDIO_ENCODING,
+  AudioFormat,
+  CLIENT_MESSAGE_TYPE,
+  SERVER_PACKET_TYPE,
+  ServerPacket,
+} from '../../protocol';
+import { PARTICIPANT_ROLE } from '../types';
+import { InworldApp } from './app';
+import { AuthError, Authenticator } from './auth';
+import { isSameAudioFormat } from './audio_codecs';
+import { MessageHandler } from './message_handler';
+import { saveConnection } from './session_stores/session_store';
+
+// Media streams carry G.711 μ-law at 8 kHz in both directions
+export const TWILIO_AUDIO_FORMAT: AudioFormat = {
+  encoding: AUDIO_ENCODING.MULAW,
+  sampleRate: 8000,
+};
+
+// ============================================================================
+// Twilio Media Streams messages
+// https://www.twilio.com/docs/voice/media-streams/websocket-messages
+// ============================================================================
+
+export interface TwilioConnectedEvent {
+  event: 'connected';
+  protocol: string;
+  version: string;
+}
+
+export interface TwilioStartEvent {
+  event: 'start';
+  sequenceNumber: string;
+  streamSid: string;
+  start: {
+    accountSid: string;
+    callSid: string;
+    streamSid: string;
+    tracks: string[];
+    // <Parameter> elements of the <Stream> TwiML, sessionId and token here
+    customParameters: { [name: string]: string };
+    mediaFormat: { encoding: string; sampleRate: number; channels: number };
+  };
+}
+
+export interface TwilioMediaEvent {
+  event: 'media';
+  sequenceNumber: string;
+  streamSid: string;
+  media: {
+    track: string;
+    chunk: string;
+    timestamp: string;
+    payload: string; // Base64 μ-law
+  };
+}
+
+// Sent back by Twilio once the audio before the mark has been played, or
+// when the audio was cleared
+export interface TwilioMarkEvent {
+  event: 'mark';
+  sequenceNumber: string;
+  streamSid: string;
+  mark: { name: string };
+}
+
+export interface TwilioStopEvent {
+  event: 'stop';
+  sequenceNumber: string;
+  streamSid: string;
+  stop: { accountSid: string; callSid: string };
+}
+
+export type TwilioInboundEvent =
+  | TwilioConnectedEvent
+  | TwilioStartEvent
+  | TwilioMediaEvent
+  | TwilioMarkEvent
+  | TwilioStopEvent;
+
+export type TwilioOutboundEvent =
+  | { event: 'media'; streamSid: string; media: { payload: string } }
+  | { event: 'mark'; streamSid: string; mark: { name: string } }
+  | { event: 'clear'; streamSid: string };
+
+/**
+ * TwilioMediaStream bridges a Twilio Media Streams WebSocket to a session.
+ *
+ * The session is loaded with `/load` as usual and named in the `sessionId`
+ * and `token` custom parameters of the stream, since Twilio doesn't allow
+ * query strings or headers on the stream URL. Once the stream starts, the
+ * socket controls the session: inbound media becomes audio frames for the
+ * message handler, agent audio goes back as media followed by a mark, and
+ * interruptions (CANCEL_RESPONSE) clear the audio Twilio has buffered.
+ * Echoed marks and clears are reported as playback progress, like the
+ * browser client does, so interrupted answers are stored as heard.
+ */
+export class TwilioMediaStream {
+  sessionId?: string;
+  private streamSid?: string;
+  private lastPlayedMark?: string;
+  // Marks sent per utterance that Twilio hasn't echoed yet, in sending order
+  private pendingMarks = new Map<
+    string,
+    { interactionId: string; count: number }
+  >();
+  // Handling of the start message, which restores and saves the session
+  private starting?: Promise<void>;
+
+  constructor(
+    private ws: WebSocket,
+    private inworldApp: InworldApp,
+    private authenticator: Authenticator,
+    private messageHandlerFor: (sessionId: string) => MessageHandler,
+  ) {}
+
+  async handleMessage(data: RawData) {
+    let message: TwilioInboundEvent;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      console.log('[Twilio] Ignoring message that is not valid JSON');
+      return;
+    }
+
+    // Twilio sends media right after the start message: it waits until the
+    // session is attached, instead of being dropped. A failed start is
+    // reported by its own message.
+    if (message.event !== 'start') {
+      await this.starting?.catch((): void => undefined);
+    }
+
+    switch (message.event) {
+      case 'connected':
+        break;
+
+      case 'start':
+        this.starting = this.start(message);
+        await this.starting;
+        break;
+
+      case 'media':
+        if (!this.sessionId) {
+          break;
+        }
+        // A call is active as long as media flows, whatever the caller says
+        this.inworldApp.sessionLifecycleManager.touch(this.sessionId);
+        // Only the caller's audio is sent to the agent
+        if (message.media.track !== 'inbound') {
+          break;
+        }
+        await this.messageHandlerFor(this.sessionId).handleClientMessage(
+          {
+            type: CLIENT_MESSAGE_TYPE.AUDIO_FRAME,
+            format: TWILIO_AUDIO_FORMAT,
+            data: Buffer.from(message.media.payload, 'base64'),
+          },
+          this.sessionId,
+          this.ws,
+        );
+        break;
+
+      case 'mark':
+        this.lastPlayedMark = message.mark.name;
+        this.markPlayed(message.mark.name);
+        break;
+
+      case 'stop':
+        console.log(
+          `[Session ${this.sessionId}] Twilio stream ${message.streamSid} stopped`,
+        );
+        if (this.sessionId) {
+          await this.messageHandlerFor(this.sessionId).handleClientMessage(
+            { type: CLIENT_MESSAGE_TYPE.AUDIO_SESSION_END },
+            this.sessionId,
+            this.ws,
+          );
+        }
+        this.ws.close(1000, 'Stream stopped');
+        break;
+    }
+  }
+
+  /**
+   * Agent audio becomes media followed by a mark named after the utterance,
+   * interruptions clear the audio Twilio hasn't played yet. Other packets
+   * have no Twilio equivalent.
+   */
+  transcode = (packet: ServerPacket): string[] => {
+    const streamSid = this.streamSid;
+    const events: TwilioOutboundEvent[] = [];
+
+    if (packet.type === SERVER_PACKET_TYPE.AUDIO && 'data' in packet.audio) {
+      if (
+        packet.format.container ||
+        !isSameAudioFormat(packet.format, TWILIO_AUDIO_FORMAT)
+      ) {
+        console.warn(
+          `[Session ${this.sessionId}] Dropping ${packet.format.encoding} audio on Twilio stream`,
+        );
+        return [];
+      }
+
+      const { interactionId, utteranceId } = packet.packetId;
+      this.pendingMarks.set(utteranceId, {
+        interactionId,
+        count: (this.pendingMarks.get(utteranceId)?.count ?? 0) + 1,
+      });
+
+      const { data } = packet.audio;
+      const payload = Buffer.from(
+        data.buffer,
+        data.byteOffset,
+        data.byteLength,
+      ).toString('base64');
+      events.push(
+        { event: 'media', streamSid, media: { payload } },
+        { event: 'mark', streamSid, mark: { name: utteranceId } },
+      );
+    } else if (packet.type === SERVER_PACKET_TYPE.CANCEL_RESPONSE) {
+      console.log(
+        `[Session ${this.sessionId}] Clearing Twilio audio after ${this.lastPlayedMark ?? 'no'} mark`,
+      );
+      events.push({ event: 'clear', streamSid });
+
+      // The answers with audio still pending were cut. Twilio echoes their
+      // marks after the clear, they're not played.
+      const interactionIds = new Set(
+        [...this.pendingMarks.values()].map((marks) => marks.interactionId),
+      );
+      this.pendingMarks.clear();
+      interactionIds.forEach((interactionId) =>
+        this.reportPlayback(interactionId, { interrupted: true }),
+      );
+    }
+
+    return events.map((event) => JSON.stringify(event));
+  };
+
+  /**
+   * An utterance is played once the mark after its last audio is echoed
+   */
+  private markPlayed(name: string) {
+    const marks = this.pendingMarks.get(name);
+    if (!marks || --marks.count > 0) {
+      return;
+    }
+    this.pendingMarks.delete(name);
+    this.reportPlayback(marks.interactionId, { utteranceId: name });
+  }
+
+  private reportPlayback(
+    interactionId: string,
+    progress: { utteranceId?: string; interrupted?: boolean },
+  ) {
+    const sessionId = this.sessionId;
+    if (!sessionId) {
+      return;
+    }
+    this.messageHandlerFor(sessionId)
+      .handleClientMessage(
+        {
+          type: CLIENT_MESSAGE_TYPE.PLAYBACK_PROGRESS,
+          interactionId,
+          ...progress,
+        },
+        sessionId,
+        this.ws,
+      )
+      .catch((error) =>
+        console.error(
+          `[Session ${sessionId}] Failed to record Twilio playback:`,
+          error,
+        ),
+      );
+  }
+
+  private async start(message: TwilioStartEvent) {
+    const { sessionId, token } = message.start.customParameters ?? {};
+
+    try {
+      this.authenticator.verifySessionToken(
+        token,
+        sessionId,
+        PARTICIPANT_ROLE.CONTROLLER,
+      );
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+      console.log(
+        `[Session ${sessionId}] Rejected Twilio stream: ${error.message}`,
+      );
+      this.ws.close(1008, error.message);
+      return;
+    }
+
+    if (!sessionId || !(await this.inworldApp.restoreConnection(sessionId))) {
+      console.log(`Session not found: ${sessionId}`);
+      this.ws.close(1008, 'Session not found');
+      return;
+    }
+
+    this.sessionId = sessionId;
+    this.streamSid = message.streamSid;
+    const connection = this.inworldApp.connections[sessionId];
+
+    // The call dictates the audio formats, whatever the session was loaded with
+    connection.inputAudioFormat = TWILIO_AUDIO_FORMAT;
+    connection.outputAudioFormat = TWILIO_AUDIO_FORMAT;
+    connection.audioDecoder?.destroy();
+    connection.audioDecoder = undefined;
+    await saveConnection(this.inworldApp.sessionStore, sessionId, connection);
+
+    const previousWs = connection.outbox.attach(
+      this.ws,
+      PARTICIPANT_ROLE.CONTROLLER,
+      this.transcode,
+    );
+    if (previousWs && previousWs.readyState === previousWs.OPEN) {
+      console.log(
+        `[Session ${sessionId}] Replacing previous controller WebSocket`,
+      );
+      previousWs.close(4000, 'Replaced by a new connection');
+    }
+    this.inworldApp.sessionLifecycleManager.markConnected(sessionId);
+
+    console.log(
+      `[Session ${sessionId}] Twilio stream ${message.streamSid} attached for call ${message.start.callSid}`,
+    );
+  }
+}
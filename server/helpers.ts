@@ -1,29 +1,187 @@
+import fs from 'fs';
 import path from 'path';
 
 import {
+  DEFAULT_ACCESS_TOKEN_TTL_MS,
+  DEFAULT_AGENT_STORE,
+  DEFAULT_AGENT_STORE_FILE_PATH,
+  DEFAULT_AGENT_STORE_SQLITE_PATH,
   DEFAULT_LLM_MODEL_NAME,
+  DEFAULT_OPENAI_STT_MODEL,
   DEFAULT_PROVIDER,
+  DEFAULT_RATE_LIMIT_CLONE_VOICE,
+  DEFAULT_RATE_LIMIT_GENERATE_CHARACTER,
+  DEFAULT_RATE_LIMIT_LOAD,
+  DEFAULT_RATE_LIMIT_WS_AUDIO_BYTES,
+  DEFAULT_RATE_LIMIT_WS_TEXT,
+  DEFAULT_RECORDINGS_PATH,
+  DEFAULT_REPLAY_BUFFER_SIZE,
+  DEFAULT_SESSION_IDLE_TTL_MS,
+  DEFAULT_SESSION_STORE,
+  DEFAULT_SESSION_STORE_FILE_PATH,
+  DEFAULT_SESSION_STORE_SQLITE_PATH,
+  DEFAULT_SESSION_SWEEP_INTERVAL_MS,
+  DEFAULT_SESSION_TOKEN_TTL_MS,
+  DEFAULT_SESSION_TRANSCRIPT_TTL_MS,
+  DEFAULT_SESSION_UNLOADED_TTL_MS,
   DEFAULT_TTS_MODEL_ID,
   DEFAULT_VAD_MODEL_PATH,
+  MAX_ACCESS_TOKEN_TTL_MS,
 } from '../constants';
+import {
+  AGENT_STORE_TYPES,
+  AgentStoreType,
+} from './components/agent_stores/agent_store_factory';
+import {
+  ApiKeyConfig,
+  AUTH_SCOPE,
+  AUTH_SCOPES,
+  AuthConfig,
+} from './components/auth';
+import { RateLimit, RateLimitsConfig } from './components/rate_limiter';
+import {
+  SESSION_STORE_TYPES,
+  SessionStoreType,
+} from './components/session_stores/session_store_factory';
+import {
+  getAvailableSTTServices,
+  STT_SERVICES,
+  STTServicesConfig,
+  STTServiceType,
+} from './components/stt_providers/stt_provider_factory';
+
+const parsePositiveInt = (name: string, defaultValue: number) => {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} env variable must be a positive integer`);
+  }
+
+  return parsed;
+};
+
+// `<limit>/<window seconds>`, or `off` to disable the limit
+const parseRateLimit = (
+  name: string,
+  defaultValue: string,
+): RateLimit | undefined => {
+  const value = (process.env[name] || defaultValue).trim().toLowerCase();
+  if (value === 'off') {
+    return undefined;
+  }
+
+  const [limit, windowSeconds] = value.split('/').map(Number);
+  if (!Number.isInteger(limit) || limit <= 0 || !(windowSeconds > 0)) {
+    throw new Error(
+      `${name} env variable must be <limit>/<window seconds> (e.g. 10/60) or off`,
+    );
+  }
+
+  return { limit, windowMs: windowSeconds * 1000 };
+};
+
+// Path of a JSON file holding an array of strings
+const parseStringListFile = (name: string): string[] => {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return [];
+  }
+
+  let list: unknown;
+  try {
+    list = JSON.parse(fs.readFileSync(path.resolve(value), 'utf8'));
+  } catch (error: any) {
+    throw new Error(`${name} could not be read: ${error.message}`);
+  }
+  if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+    throw new Error(`${name} must be a JSON file with an array of strings`);
+  }
+
+  return list;
+};
 
 export const parseEnvironmentVariables = () => {
-  if (!process.env.INWORLD_API_KEY) {
+  // Mock providers replace the LLM, TTS and STT services to run offline
+  const mockProvidersEnabled =
+    (process.env.MOCK_PROVIDERS || '').toLowerCase().trim() === 'true';
+
+  if (!process.env.INWORLD_API_KEY && !mockProvidersEnabled) {
     throw new Error('INWORLD_API_KEY env variable is required');
   }
 
-  // Validate required API keys for Assembly.AI (default STT service)
+  // STT services are available when their credentials are set
   const assemblyAIApiKey = process.env.ASSEMBLY_AI_API_KEY?.trim();
-  if (!assemblyAIApiKey) {
+  const openAISTTBaseUrl = process.env.OPENAI_STT_BASE_URL?.trim();
+  const sttServices: STTServicesConfig = {
+    ...(assemblyAIApiKey && { assemblyai: { apiKey: assemblyAIApiKey } }),
+    ...(openAISTTBaseUrl && {
+      openai: {
+        baseUrl: openAISTTBaseUrl,
+        apiKey: process.env.OPENAI_STT_API_KEY?.trim() || undefined,
+        model: process.env.OPENAI_STT_MODEL?.trim() || DEFAULT_OPENAI_STT_MODEL,
+        language: process.env.OPENAI_STT_LANGUAGE?.trim() || undefined,
+      },
+    }),
+    ...(mockProvidersEnabled && {
+      mock: { fixtures: parseStringListFile('MOCK_STT_FIXTURES') },
+    }),
+  };
+  const availableSTTServices = getAvailableSTTServices(sttServices);
+  if (!availableSTTServices.length) {
+    throw new Error(
+      'At least one STT service must be configured (ASSEMBLY_AI_API_KEY, OPENAI_STT_BASE_URL or MOCK_PROVIDERS)',
+    );
+  }
+
+  const defaultSTTService = (
+    process.env.DEFAULT_STT_SERVICE ||
+    (mockProvidersEnabled ? 'mock' : availableSTTServices[0])
+  )
+    .toLowerCase()
+    .trim() as STTServiceType;
+  if (!STT_SERVICES.includes(defaultSTTService)) {
+    throw new Error(
+      `DEFAULT_STT_SERVICE must be one of: ${STT_SERVICES.join(', ')}`,
+    );
+  }
+  if (!availableSTTServices.includes(defaultSTTService)) {
+    throw new Error(
+      `DEFAULT_STT_SERVICE is ${defaultSTTService} but it is not configured`,
+    );
+  }
+
+  console.log(`Available STT services: ${availableSTTServices.join(', ')}`);
+  if (mockProvidersEnabled) {
+    console.log('Mock providers enabled: LLM, TTS and STT run offline');
+  }
+
+  const sessionStoreType = (
+    process.env.SESSION_STORE || DEFAULT_SESSION_STORE
+  )
+    .toLowerCase()
+    .trim() as SessionStoreType;
+  if (!SESSION_STORE_TYPES.includes(sessionStoreType)) {
     throw new Error(
-      'ASSEMBLY_AI_API_KEY env variable is required and cannot be empty',
+      `SESSION_STORE must be one of: ${SESSION_STORE_TYPES.join(', ')}`,
     );
   }
 
-  console.log(`Available STT service: Assembly.AI`);
+  const agentStoreType = (process.env.AGENT_STORE || DEFAULT_AGENT_STORE)
+    .toLowerCase()
+    .trim() as AgentStoreType;
+  if (!AGENT_STORE_TYPES.includes(agentStoreType)) {
+    throw new Error(
+      `AGENT_STORE must be one of: ${AGENT_STORE_TYPES.join(', ')}`,
+    );
+  }
 
   return {
-    apiKey: process.env.INWORLD_API_KEY,
+    // The graphs still need a key, the mock providers never use it
+    apiKey: process.env.INWORLD_API_KEY || 'mock',
     llmModelName: process.env.LLM_MODEL_NAME || DEFAULT_LLM_MODEL_NAME,
     llmProvider: process.env.LLM_PROVIDER || DEFAULT_PROVIDER,
     vadModelPath:
@@ -37,7 +195,124 @@ export const parseEnvironmentVariables = () => {
     disableAutoInterruption:
       (process.env.DISABLE_AUTO_INTERRUPTION || '').toLowerCase().trim() ===
       'true',
-    useAssemblyAI: true,
-    assemblyAIApiKey,
+    sttServices,
+    defaultSTTService,
+    mockProviders: mockProvidersEnabled
+      ? { llmResponses: parseStringListFile('MOCK_LLM_RESPONSES') }
+      : undefined,
+    sessionStoreType,
+    sessionStorePath:
+      process.env.SESSION_STORE_PATH ||
+      path.join(
+        __dirname,
+        sessionStoreType === 'sqlite'
+          ? DEFAULT_SESSION_STORE_SQLITE_PATH
+          : DEFAULT_SESSION_STORE_FILE_PATH,
+      ),
+    agentStoreType,
+    agentStorePath:
+      process.env.AGENT_STORE_PATH ||
+      path.join(
+        __dirname,
+        agentStoreType === 'sqlite'
+          ? DEFAULT_AGENT_STORE_SQLITE_PATH
+          : DEFAULT_AGENT_STORE_FILE_PATH,
+      ),
+    sessionIdleTtlMs: parsePositiveInt(
+      'SESSION_IDLE_TTL_MS',
+      DEFAULT_SESSION_IDLE_TTL_MS,
+    ),
+    sessionUnloadedTtlMs: parsePositiveInt(
+      'SESSION_UNLOADED_TTL_MS',
+      DEFAULT_SESSION_UNLOADED_TTL_MS,
+    ),
+    sessionTranscriptTtlMs: parsePositiveInt(
+      'SESSION_TRANSCRIPT_TTL_MS',
+      DEFAULT_SESSION_TRANSCRIPT_TTL_MS,
+    ),
+    sessionSweepIntervalMs: parsePositiveInt(
+      'SESSION_SWEEP_INTERVAL_MS',
+      DEFAULT_SESSION_SWEEP_INTERVAL_MS,
+    ),
+    replayBufferSize: parsePositiveInt(
+      'REPLAY_BUFFER_SIZE',
+      DEFAULT_REPLAY_BUFFER_SIZE,
+    ),
+    recordingEnabled:
+      (process.env.RECORDING_ENABLED || '').toLowerCase().trim() === 'true',
+    recordingsPath:
+      process.env.RECORDINGS_PATH ||
+      path.join(__dirname, DEFAULT_RECORDINGS_PATH),
   };
 };
+
+/**
+ * Parse the authentication settings. Unlike parseEnvironmentVariables this
+ * runs at startup, before the routes are registered.
+ */
+export const parseAuthEnvironmentVariables = (): AuthConfig => {
+  // AUTH_API_KEYS=key1:chat,key2:chat|voice-clone,key3:admin
+  const apiKeys: ApiKeyConfig[] = (process.env.AUTH_API_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [key, scopeList] = entry.split(':');
+      if (!key || key.includes('.')) {
+        throw new Error('AUTH_API_KEYS contains an invalid API key');
+      }
+
+      const scopes = (scopeList || AUTH_SCOPE.CHAT)
+        .split('|')
+        .map((scope) => scope.trim()) as AUTH_SCOPE[];
+      const unknownScope = scopes.find(
+        (scope) => !AUTH_SCOPES.includes(scope),
+      );
+      if (unknownScope) {
+        throw new Error(
+          `AUTH_API_KEYS contains an unknown scope "${unknownScope}", must be one of: ${AUTH_SCOPES.join(', ')}`,
+        );
+      }
+
+      return { key, scopes };
+    });
+
+  const tokenSecret = process.env.AUTH_TOKEN_SECRET?.trim() || undefined;
+
+  return {
+    enabled: apiKeys.length > 0 || !!tokenSecret,
+    apiKeys,
+    tokenSecret,
+    sessionTokenTtlMs: parsePositiveInt(
+      'SESSION_TOKEN_TTL_MS',
+      DEFAULT_SESSION_TOKEN_TTL_MS,
+    ),
+    // Ended sessions stay readable this long, see SessionLifecycleManager
+    sessionTokenReadGraceMs: parsePositiveInt(
+      'SESSION_TRANSCRIPT_TTL_MS',
+      DEFAULT_SESSION_TRANSCRIPT_TTL_MS,
+    ),
+    accessTokenTtlMs: DEFAULT_ACCESS_TOKEN_TTL_MS,
+    maxAccessTokenTtlMs: MAX_ACCESS_TOKEN_TTL_MS,
+  };
+};
+
+/**
+ * Parse the rate limits. Like the auth settings they are needed at startup.
+ */
+export const parseRateLimitEnvironmentVariables = (): RateLimitsConfig => ({
+  load: parseRateLimit('RATE_LIMIT_LOAD', DEFAULT_RATE_LIMIT_LOAD),
+  generateCharacter: parseRateLimit(
+    'RATE_LIMIT_GENERATE_CHARACTER',
+    DEFAULT_RATE_LIMIT_GENERATE_CHARACTER,
+  ),
+  cloneVoice: parseRateLimit(
+    'RATE_LIMIT_CLONE_VOICE',
+    DEFAULT_RATE_LIMIT_CLONE_VOICE,
+  ),
+  wsText: parseRateLimit('RATE_LIMIT_WS_TEXT', DEFAULT_RATE_LIMIT_WS_TEXT),
+  wsAudioBytes: parseRateLimit(
+    'RATE_LIMIT_WS_AUDIO_BYTES',
+    DEFAULT_RATE_LIMIT_WS_AUDIO_BYTES,
+  ),
+});
@@ -11,22 +11,77 @@ console.log('ENV CHECK:', {
 import { InworldError } from '@inworld/runtime/common';
 import cors from 'cors';
 import express from 'express';
-import { createServer } from 'http';
+import { createServer, STATUS_CODES } from 'http';
 import { parse } from 'url';
-import { RawData, WebSocketServer } from 'ws';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
 
-const { query } = require('express-validator');
+const { query, param, validationResult } = require('express-validator');
 
 import { body } from 'express-validator';
 
-import { WS_APP_PORT } from '../constants';
+import {
+  MAX_HANDOFF_AGENTS,
+  MAX_KNOWLEDGE_DOCUMENTS,
+  MAX_SESSION_AGENTS,
+  WS_APP_PORT,
+} from '../constants';
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  ERROR_CODE,
+  negotiateSubprotocol,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '../protocol';
+import {
+  AGENT_ID_PATTERN,
+  describeAgentVersion,
+} from './components/agent_registry';
 import { InworldApp } from './components/app';
+import {
+  AUTH_SCOPE,
+  AUTH_SCOPES,
+  AuthError,
+  Authenticator,
+  getBearerToken,
+  IssuedToken,
+} from './components/auth';
+import { EventFactory } from './components/event_factory';
+import {
+  createKnowledgeDocument,
+  describeKnowledgeDocument,
+} from './components/knowledge/knowledge_base';
 import { MessageHandler } from './components/message_handler';
+import { createRateLimiters } from './components/rate_limiter';
+import {
+  getRecordingFilePath,
+  listRecordings,
+} from './components/session_recorder';
+import { validateAgentProfile } from './components/session_config';
+import { saveConnection } from './components/session_stores/session_store';
+import {
+  buildTranscript,
+  renderTranscript,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+} from './components/transcript';
+import { toolRegistry } from './components/tools/tool_registry';
+import { TwilioMediaStream } from './components/twilio_media_stream';
+import {
+  parseAuthEnvironmentVariables,
+  parseRateLimitEnvironmentVariables,
+} from './helpers';
+import { PARTICIPANT_ROLE } from './types';
 import { generateCharacterPrompt } from './character_generator';
 
 const app = express();
 const server = createServer(app);
-const webSocket = new WebSocketServer({ noServer: true });
+// Clients pick the protocol version with the WebSocket subprotocol, the
+// upgrade handler has already rejected clients offering no supported version
+const webSocket = new WebSocketServer({
+  noServer: true,
+  handleProtocols: (protocols) => negotiateSubprotocol([...protocols]) ?? false,
+});
+// Telephony media streams (Twilio Media Streams protocol)
+const twilioWebSocket = new WebSocketServer({ noServer: true });
 
 const allowedOrigins = [
   'https://studyedit.com',
@@ -47,11 +102,29 @@ app.use(
     credentials: true,
   }),
 );
+// Behind a reverse proxy req.ip must come from X-Forwarded-For for per-IP rate limits
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY.trim();
+  app.set(
+    'trust proxy',
+    trustProxy === 'true' ? true : Number(trustProxy) || trustProxy,
+  );
+}
+
 app.use(express.json({ limit: '50mb' })); // Increased for voice cloning audio uploads
 app.use(express.static('frontend'));
 
 const inworldApp = new InworldApp();
 
+const rateLimiters = createRateLimiters(parseRateLimitEnvironmentVariables());
+const authenticator = new Authenticator(parseAuthEnvironmentVariables());
+inworldApp.authenticator = authenticator;
+if (!authenticator.enabled) {
+  console.warn(
+    '⚠️ Authentication is disabled: set AUTH_API_KEYS or AUTH_TOKEN_SECRET to protect the API',
+  );
+}
+
 app.get('/health', (req, res) => {
   res.status(200).send('OK');
 });
@@ -59,52 +132,169 @@ app.get('/health', (req, res) => {
 webSocket.on('connection', (ws, request) => {
   const { query } = parse(request.url!, true);
   const sessionId = query.sessionId?.toString();
+  const role = (query.role?.toString() ||
+    PARTICIPANT_ROLE.CONTROLLER) as PARTICIPANT_ROLE;
 
-  if (!inworldApp.connections?.[sessionId]) {
+  if (!Object.values(PARTICIPANT_ROLE).includes(role)) {
+    ws.close(1008, `Invalid role: ${role}`);
+    return;
+  }
+
+  const connection = inworldApp.connections?.[sessionId];
+  if (!connection || connection.unloaded) {
     console.log(`Session not found: ${sessionId}`);
     ws.close(1008, 'Session not found');
     return;
   }
 
-  inworldApp.connections[sessionId].ws =
-    inworldApp.connections[sessionId].ws ?? ws;
+  // The newest controller always takes over the session (e.g. after a
+  // network drop); observers are simply added
+  const previousWs = connection.outbox.attach(ws, role);
+  if (previousWs && previousWs.readyState === previousWs.OPEN) {
+    console.log(
+      `[Session ${sessionId}] Replacing previous controller WebSocket`,
+    );
+    previousWs.close(4000, 'Replaced by a new connection');
+  }
+  if (role === PARTICIPANT_ROLE.CONTROLLER) {
+    inworldApp.sessionLifecycleManager.markConnected(sessionId);
+  }
+  console.log(
+    `[Session ${sessionId}] ${role} attached with protocol ${ws.protocol || `voice-agent.v${DEFAULT_PROTOCOL_VERSION} (default)`} (${connection.outbox.observerCount} observer(s))`,
+  );
 
   ws.on('error', console.error);
 
-  const messageHandler = new MessageHandler(inworldApp, (data: any) =>
-    ws.send(JSON.stringify(data)),
-  );
-
-  ws.on('message', (data: RawData) =>
-    messageHandler.handleMessage(data, sessionId),
+  // Keep the client supplied with a valid session token so it can reconnect
+  const sendSessionToken = () => {
+    const sessionToken = authenticator.issueSessionToken(sessionId, role);
+    if (sessionToken) {
+      connection.outbox.sendControl(
+        EventFactory.sessionToken(sessionToken),
+        ws,
+      );
+    }
+  };
+  sendSessionToken();
+  const sessionTokenTimer = authenticator.enabled
+    ? setInterval(sendSessionToken, authenticator.sessionTokenTtlMs / 2)
+    : undefined;
+
+  messageHandlerFor(sessionId);
+
+  ws.on('message', (data: RawData, isBinary: boolean) =>
+    inworldApp.connections[sessionId]?.messageHandler
+      ?.handleMessage(data, isBinary, sessionId, ws)
+      .catch((error) =>
+        console.error(`[Session ${sessionId}] Error handling message:`, error),
+      ),
   );
 
   ws.on('close', (code, reason) => {
     console.log(
       `[Session ${sessionId}] WebSocket closed: code=${code}, reason=${reason.toString()}`,
     );
+    clearInterval(sessionTokenTimer);
+    detachSocket(sessionId, ws);
+  });
+});
 
-    // Clean up audio stream if it exists
-    const connection = inworldApp.connections[sessionId];
-    if (connection?.audioStreamManager) {
-      console.log(
-        `[Session ${sessionId}] Ending audio stream due to WebSocket close`,
-      );
-      connection.audioStreamManager.end();
-      connection.audioStreamManager = undefined;
-    }
+// The stream names its session in its start message, see TwilioMediaStream
+twilioWebSocket.on('connection', (ws) => {
+  const stream = new TwilioMediaStream(
+    ws,
+    inworldApp,
+    authenticator,
+    messageHandlerFor,
+  );
 
-    // Mark connection as unloaded
-    if (connection) {
-      connection.unloaded = true;
+  ws.on('error', console.error);
+
+  ws.on('message', (data: RawData) =>
+    stream
+      .handleMessage(data)
+      .catch((error) =>
+        console.error(
+          `[Session ${stream.sessionId}] Error handling Twilio message:`,
+          error,
+        ),
+      ),
+  );
+
+  ws.on('close', (code) => {
+    console.log(
+      `[Session ${stream.sessionId}] Twilio stream closed: code=${code}`,
+    );
+    if (stream.sessionId) {
+      detachSocket(stream.sessionId, ws);
     }
   });
 });
 
+/**
+ * One handler per session, so input from every socket shares a queue.
+ * Packets go through the session outbox so they are sequenced and can be replayed
+ */
+function messageHandlerFor(sessionId: string): MessageHandler {
+  return (inworldApp.connections[sessionId].messageHandler ??=
+    new MessageHandler(
+      inworldApp,
+      (packet) => inworldApp.connections[sessionId]?.outbox.send(packet),
+      rateLimiters,
+    ));
+}
+
+/**
+ * Stop delivering the session's packets to a closed socket
+ */
+function detachSocket(sessionId: string, ws: WebSocket) {
+  // A replaced socket doesn't own the session anymore, and observers
+  // leaving doesn't affect it
+  const connection = inworldApp.connections[sessionId];
+  if (connection?.outbox.detach(ws) !== PARTICIPANT_ROLE.CONTROLLER) {
+    return;
+  }
+
+  // Clean up audio stream if it exists
+  if (connection.audioStreamManager) {
+    console.log(
+      `[Session ${sessionId}] Ending audio stream due to WebSocket close`,
+    );
+    connection.audioStreamManager.end();
+    connection.audioStreamManager = undefined;
+  }
+  // A new socket starts a new (Opus) stream
+  connection.audioDecoder?.destroy();
+  connection.audioDecoder = undefined;
+  connection.recorder?.save();
+
+  // Keep the session so the client can resume; the lifecycle manager
+  // releases it if the client doesn't come back
+  inworldApp.sessionLifecycleManager.markDisconnected(sessionId);
+}
+
 app.post(
   '/load',
+  authenticator.requireScope(AUTH_SCOPE.CHAT),
+  rateLimiters.load.middleware(),
   query('sessionId').trim().isLength({ min: 1 }),
-  body('agent').isObject(),
+  body('agent').optional().isObject(),
+  body('agentId').optional().isString(),
+  body('agentVersion').optional().isInt({ min: 1 }).toInt(),
+  body('agents').optional().isArray({ min: 2, max: MAX_SESSION_AGENTS }),
+  body('agents.*').isObject(),
+  body('agents.*.agentId').optional().isString(),
+  body('agents.*.agentVersion').optional().isInt({ min: 1 }).toInt(),
+  body('agents.*.voiceId').optional().isString(),
+  body('turnTaking').optional().isObject(),
+  body('handoff').optional().isObject(),
+  body('handoff.agents')
+    .if(body('handoff').exists())
+    .isArray({ min: 1, max: MAX_HANDOFF_AGENTS }),
+  body('handoff.agents.*').isObject(),
+  body('handoff.agents.*.agentId').isString(),
+  body('handoff.agents.*.agentVersion').optional().isInt({ min: 1 }).toInt(),
+  body('handoff.agents.*.voiceId').optional().isString(),
   body('userName').trim().isLength({ min: 1 }),
   async (req, res) => {
     try {
@@ -116,15 +306,456 @@ app.post(
   },
 );
 
+// The tools agents can be given with agent.tools at /load
+app.get('/tools', authenticator.requireScope(AUTH_SCOPE.CHAT), (req, res) => {
+  res.json({
+    tools: toolRegistry.list().map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    })),
+  });
+});
+
+// Agent profiles, loaded with /load { agentId }
+app.get('/agents', authenticator.requireScope(AUTH_SCOPE.CHAT), async (req, res) => {
+  const agents = await inworldApp.agentRegistry.list();
+  res.json({ agents: agents.map((agent) => describeAgentVersion(agent)) });
+});
+
+app.get(
+  '/agents/:agentId',
+  authenticator.requireScope(AUTH_SCOPE.CHAT),
+  param('agentId').trim().isLength({ min: 1 }),
+  query('version').optional().isInt({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { agentId } = req.params;
+    // Express 5 doesn't let validators convert query parameters
+    const version =
+      req.query.version !== undefined ? Number(req.query.version) : undefined;
+    const agent = await inworldApp.agentRegistry.get(agentId);
+    const profile =
+      version === undefined
+        ? agent?.versions[agent.versions.length - 1]
+        : agent?.versions.find((v) => v.version === version);
+    if (!profile) {
+      return res.status(404).json({
+        error: `Agent not found: ${agentId}${version !== undefined ? ` version ${version}` : ''}`,
+      });
+    }
+
+    res.json({ agent: describeAgentVersion(agent, profile) });
+  },
+);
+
+// Version history of a profile, oldest first
+app.get(
+  '/agents/:agentId/versions',
+  authenticator.requireScope(AUTH_SCOPE.CHAT),
+  param('agentId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { agentId } = req.params;
+    const agent = await inworldApp.agentRegistry.get(agentId);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent not found: ${agentId}` });
+    }
+
+    res.json({
+      versions: agent.versions.map((version) =>
+        describeAgentVersion(agent, version),
+      ),
+    });
+  },
+);
+
+// Create a profile: { id?, name, systemPrompt?, greeting?, voiceId?, ... }
+app.post(
+  '/agents',
+  authenticator.requireScope(AUTH_SCOPE.AGENTS),
+  body('id').optional().matches(AGENT_ID_PATTERN),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id, ...raw } = req.body ?? {};
+    const profileErrors: { field: string; message: string }[] = [];
+    const profile = validateAgentProfile(raw, profileErrors);
+    if (!profile) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid agent profile', errors: profileErrors });
+    }
+
+    const agent = await inworldApp.agentRegistry.create(profile, id);
+    if (!agent) {
+      return res.status(409).json({ error: `Agent already exists: ${id}` });
+    }
+    console.log(`[Agents] Created agent ${agent.id} (${profile.name})`);
+
+    res.status(201).json({ agent: describeAgentVersion(agent) });
+  },
+);
+
+// Replace a profile, adding a version
+app.put(
+  '/agents/:agentId',
+  authenticator.requireScope(AUTH_SCOPE.AGENTS),
+  param('agentId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { agentId } = req.params;
+    const profileErrors: { field: string; message: string }[] = [];
+    const profile = validateAgentProfile(req.body, profileErrors);
+    if (!profile) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid agent profile', errors: profileErrors });
+    }
+
+    const agent = await inworldApp.agentRegistry.update(agentId, profile);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent not found: ${agentId}` });
+    }
+    const { version } = agent.versions[agent.versions.length - 1];
+    console.log(`[Agents] Updated agent ${agentId} to version ${version}`);
+
+    res.json({ agent: describeAgentVersion(agent) });
+  },
+);
+
+app.delete(
+  '/agents/:agentId',
+  authenticator.requireScope(AUTH_SCOPE.AGENTS),
+  param('agentId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { agentId } = req.params;
+    if (!(await inworldApp.agentRegistry.delete(agentId))) {
+      return res.status(404).json({ error: `Agent not found: ${agentId}` });
+    }
+    console.log(`[Agents] Deleted agent ${agentId}`);
+
+    res.status(204).end();
+  },
+);
+
+app.get(
+  '/sessions/stats',
+  authenticator.requireScope(AUTH_SCOPE.ADMIN),
+  (req, res) => {
+    if (!inworldApp.sessionLifecycleManager) {
+      return res.status(503).json({ error: 'Server not initialized' });
+    }
+    res.json(inworldApp.sessionLifecycleManager.getStats());
+  },
+);
+
 app.post(
   '/unload',
+  authenticator.requireSessionAccess((req) =>
+    req.query.sessionId?.toString(),
+  ),
   query('sessionId').trim().isLength({ min: 1 }),
   inworldApp.unload.bind(inworldApp),
 );
 
+// Issue a bearer token with a subset of the caller's scopes
+app.post(
+  '/auth/tokens',
+  authenticator.requireScope(AUTH_SCOPE.ADMIN),
+  body('scopes').isArray({ min: 1 }),
+  body('scopes.*').isIn(AUTH_SCOPES),
+  body('ttlSeconds').optional().isInt({ min: 1 }),
+  body('subject').optional().trim().isLength({ min: 1, max: 200 }),
+  (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    if (!authenticator.enabled) {
+      return res.status(400).json({ error: 'Authentication is disabled' });
+    }
+
+    const { scopes, ttlSeconds, subject } = req.body;
+    let issued: IssuedToken;
+    try {
+      issued = authenticator.issueAccessToken(
+        res.locals.auth,
+        subject ?? res.locals.auth.subject,
+        scopes,
+        ttlSeconds ? ttlSeconds * 1000 : undefined,
+      );
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.json({ ...issued, scopes });
+  },
+);
+
+// Issue a session token, e.g. for a support agent to observe a live session
+app.post(
+  '/sessions/:sessionId/token',
+  authenticator.requireScope(AUTH_SCOPE.ADMIN),
+  param('sessionId').trim().isLength({ min: 1 }),
+  body('role').optional().isIn(Object.values(PARTICIPANT_ROLE)),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    if (!authenticator.enabled) {
+      return res.status(400).json({ error: 'Authentication is disabled' });
+    }
+
+    const { sessionId } = req.params;
+    if (!(await inworldApp.restoreConnection(sessionId))) {
+      return res
+        .status(404)
+        .json({ error: `Session not found for sessionId: ${sessionId}` });
+    }
+
+    const role = req.body.role ?? PARTICIPANT_ROLE.OBSERVER;
+    res.json({ ...authenticator.issueSessionToken(sessionId, role), role });
+  },
+);
+
+// Export the conversation of an active or recently ended session
+app.get(
+  '/sessions/:sessionId/transcript',
+  authenticator.requireSessionAccess((req) => req.params.sessionId, {
+    readOnly: true,
+  }),
+  param('sessionId').trim().isLength({ min: 1 }),
+  query('format').optional().isIn(TRANSCRIPT_FORMATS),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { sessionId } = req.params;
+    const state = await inworldApp.getSessionState(sessionId);
+    if (!state) {
+      return res
+        .status(404)
+        .json({ error: `Session not found for sessionId: ${sessionId}` });
+    }
+
+    const { contentType, body } = renderTranscript(
+      buildTranscript(sessionId, state),
+      ((req.query.format as string) ?? 'json') as TranscriptFormat,
+    );
+    res.setHeader('Content-Type', contentType);
+    res.send(body);
+  },
+);
+
+// Knowledge of the session's agent, searched for every user turn
+app.get(
+  '/sessions/:sessionId/knowledge',
+  authenticator.requireSessionAccess((req) => req.params.sessionId, {
+    readOnly: true,
+  }),
+  param('sessionId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { sessionId } = req.params;
+    const state = await inworldApp.getSessionState(sessionId);
+    if (!state) {
+      return res
+        .status(404)
+        .json({ error: `Session not found for sessionId: ${sessionId}` });
+    }
+
+    res.json({
+      knowledge: state.agent.knowledge ?? [],
+      documents: (state.agent.documents ?? []).map(describeKnowledgeDocument),
+    });
+  },
+);
+
+// Upload a text or Markdown document: { name, content, format? }
+app.post(
+  '/sessions/:sessionId/knowledge/documents',
+  authenticator.requireSessionAccess((req) => req.params.sessionId),
+  param('sessionId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { sessionId } = req.params;
+    if (!(await inworldApp.restoreConnection(sessionId))) {
+      return res
+        .status(404)
+        .json({ error: `Session not found for sessionId: ${sessionId}` });
+    }
+    const connection = inworldApp.connections[sessionId];
+    if (connection.state.agents) {
+      return res.status(400).json({
+        error: 'Documents of multi-agent sessions are given per agent at /load',
+      });
+    }
+    const documents = connection.state.agent.documents ?? [];
+    if (documents.length >= MAX_KNOWLEDGE_DOCUMENTS) {
+      return res.status(400).json({
+        error: `Sessions can have at most ${MAX_KNOWLEDGE_DOCUMENTS} documents`,
+      });
+    }
+
+    const documentErrors: { field: string; message: string }[] = [];
+    const document = createKnowledgeDocument(req.body, documentErrors);
+    if (!document) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid document', errors: documentErrors });
+    }
+
+    connection.state.agent.documents = [...documents, document];
+    await saveConnection(inworldApp.sessionStore, sessionId, connection);
+    console.log(
+      `[Session ${sessionId}] Added knowledge document ${document.name} (${document.id})`,
+    );
+
+    res.status(201).json({ document: describeKnowledgeDocument(document) });
+  },
+);
+
+app.delete(
+  '/sessions/:sessionId/knowledge/documents/:documentId',
+  authenticator.requireSessionAccess((req) => req.params.sessionId),
+  param('sessionId').trim().isLength({ min: 1 }),
+  param('documentId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { sessionId, documentId } = req.params;
+    if (!(await inworldApp.restoreConnection(sessionId))) {
+      return res
+        .status(404)
+        .json({ error: `Session not found for sessionId: ${sessionId}` });
+    }
+    const connection = inworldApp.connections[sessionId];
+    if (connection.state.agents) {
+      return res.status(400).json({
+        error: 'Documents of multi-agent sessions are given per agent at /load',
+      });
+    }
+    const documents = connection.state.agent.documents ?? [];
+    if (!documents.some((document) => document.id === documentId)) {
+      return res
+        .status(404)
+        .json({ error: `Document not found: ${documentId}` });
+    }
+
+    connection.state.agent.documents = documents.filter(
+      (document) => document.id !== documentId,
+    );
+    await saveConnection(inworldApp.sessionStore, sessionId, connection);
+
+    res.status(204).end();
+  },
+);
+
+// Recorded audio of a session, see SessionRecorder
+app.get(
+  '/sessions/:sessionId/recordings',
+  authenticator.requireScope(AUTH_SCOPE.ADMIN),
+  param('sessionId').trim().isLength({ min: 1 }),
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    if (!inworldApp.recordingsPath) {
+      return res.status(400).json({ error: 'Recording is disabled' });
+    }
+
+    // Include the audio of the session so far
+    const { sessionId } = req.params;
+    await inworldApp.connections[sessionId]?.recorder?.save();
+
+    const recordings = await listRecordings(
+      inworldApp.recordingsPath,
+      sessionId,
+    );
+    if (!recordings.length) {
+      return res
+        .status(404)
+        .json({ error: `No recordings for sessionId: ${sessionId}` });
+    }
+    res.json({ recordings });
+  },
+);
+
+app.get(
+  '/sessions/:sessionId/recordings/:name',
+  authenticator.requireScope(AUTH_SCOPE.ADMIN),
+  param('sessionId').trim().isLength({ min: 1 }),
+  param('name').trim().isLength({ min: 1 }),
+  (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    if (!inworldApp.recordingsPath) {
+      return res.status(400).json({ error: 'Recording is disabled' });
+    }
+
+    const { sessionId, name } = req.params;
+    const filePath = getRecordingFilePath(
+      inworldApp.recordingsPath,
+      sessionId,
+      name,
+    );
+    if (!filePath) {
+      return res.status(404).json({ error: `Recording not found: ${name}` });
+    }
+
+    res.download(filePath, name, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: `Recording not found: ${name}` });
+      }
+    });
+  },
+);
+
 // Character generation endpoint (uses Inworld's LLM infrastructure)
 app.post(
   '/generate-character',
+  authenticator.requireScope(AUTH_SCOPE.CHAT),
+  rateLimiters.generateCharacter.middleware(),
   body('description').trim().isLength({ min: 1 }),
   async (req, res) => {
     try {
@@ -143,6 +774,8 @@ app.post(
 // Voice cloning endpoint
 app.post(
   '/clone-voice',
+  authenticator.requireScope(AUTH_SCOPE.VOICE_CLONE),
+  rateLimiters.cloneVoice.middleware(),
   body('audioData').isString().isLength({ min: 1 }),
   body('displayName').trim().isLength({ min: 1 }),
   async (req, res) => {
@@ -225,9 +858,77 @@ server.on('upgrade', async (request, socket, head) => {
   const { pathname } = parse(request.url!);
 
   if (pathname === '/session') {
+    const { query } = parse(request.url!, true);
+    const sessionId = query.sessionId?.toString();
+
+    // Clients that don't offer a subprotocol speak DEFAULT_PROTOCOL_VERSION
+    const offeredProtocols = (request.headers['sec-websocket-protocol'] ?? '')
+      .split(',')
+      .map((protocol) => protocol.trim())
+      .filter(Boolean);
+    if (offeredProtocols.length && !negotiateSubprotocol(offeredProtocols)) {
+      console.log(
+        `[Session ${sessionId}] Rejected WebSocket: unsupported protocol ${offeredProtocols.join(', ')}`,
+      );
+      const body = JSON.stringify({
+        error: 'Unsupported protocol version',
+        code: ERROR_CODE.UNSUPPORTED_PROTOCOL_VERSION,
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      });
+      socket.end(
+        `HTTP/1.1 400 Bad Request\r\nContent-Type: application/json\r\nContent-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+      );
+      return;
+    }
+
+    // Browsers can't set headers on WebSockets, so the token may come in the query
+    try {
+      authenticator.verifySessionToken(
+        query.token?.toString() ??
+          getBearerToken(request.headers.authorization),
+        sessionId,
+        query.role?.toString() || PARTICIPANT_ROLE.CONTROLLER,
+      );
+    } catch (error) {
+      // A throw here would be an unhandled rejection that leaves the
+      // socket open
+      if (!(error instanceof AuthError)) {
+        console.error(
+          `[Session ${sessionId}] Failed to verify session token:`,
+          error,
+        );
+        socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      console.log(
+        `[Session ${sessionId}] Rejected WebSocket: ${error.message}`,
+      );
+      socket.end(
+        `HTTP/1.1 ${error.status} ${STATUS_CODES[error.status]}\r\n\r\n`,
+      );
+      return;
+    }
+
+    // Sessions persisted by a previous server process are restored before
+    // the socket is accepted, so the connection handler always finds them
+    if (sessionId) {
+      try {
+        await inworldApp.restoreConnection(sessionId);
+      } catch (error) {
+        console.error(`[Session ${sessionId}] Failed to restore session:`, error);
+      }
+    }
+
     webSocket.handleUpgrade(request, socket, head, (ws) => {
       webSocket.emit('connection', ws, request);
     });
+  } else if (pathname === '/twilio') {
+    // Twilio can't authenticate the upgrade, the session token comes with
+    // the stream's start message
+    twilioWebSocket.handleUpgrade(request, socket, head, (ws) => {
+      twilioWebSocket.emit('connection', ws, request);
+    });
   } else {
     socket.destroy();
   }
@@ -243,10 +944,10 @@ server.listen(WS_APP_PORT, async () => {
   console.log(`Server is running on port ${WS_APP_PORT}`);
 });
 
-function done() {
+async function done() {
   console.log('Server is closing');
 
-  inworldApp.shutdown();
+  await inworldApp.shutdown();
 
   process.exit(0);
 }
@@ -0,0 +1,26 @@
+/**
+ * Prompt template for the running conversation summary.
+ * Used by LLMConversationSummarizer when older turns leave the context window.
+ */
+
+export const CONVERSATION_SUMMARY_SYSTEM_PROMPT =
+  'You summarize conversations between a user and a voice agent so the agent can continue them. Output only the summary.';
+
+export function getConversationSummaryPrompt(input: {
+  previousSummary?: string;
+  transcript: string;
+  userName: string;
+  agentName: string;
+}): string {
+  const previous = input.previousSummary
+    ? `Summary of the conversation so far:
+${input.previousSummary}
+
+`
+    : '';
+
+  return `${previous}Next part of the conversation between ${input.userName} (the user) and ${input.agentName} (the agent):
+${input.transcript}
+
+Write an updated summary of the whole conversation in at most 150 words. Keep facts about ${input.userName} (name, preferences, plans), questions that are still open and anything ${input.agentName} promised. Leave out greetings and small talk. Write in the third person.`;
+}
@@ -0,0 +1,39 @@
+import { Agent } from '../types';
+
+/**
+ * Prompt templates of agent handoffs (see handoff.ts).
+ */
+
+/**
+ * Description of the transfer_to_agent tool, listing the agents the
+ * session can go to
+ */
+export function getHandoffToolDescription(
+  targets: Pick<Agent, 'name' | 'description' | 'profileId'>[],
+): string {
+  const agents = targets
+    .map(
+      (agent) =>
+        `- ${agent.profileId} (${agent.name})${agent.description ? `: ${agent.description}` : ''}`,
+    )
+    .join('\n');
+
+  return `Transfer the conversation to another agent when they can help the user better than you. They take over right away and answer the user's last message. Agents:
+${agents}`;
+}
+
+/**
+ * Added after the system prompt of the agent that took over (see
+ * context_window.ts), until the next handoff
+ */
+export function getHandoffPrompt(input: {
+  agent: Pick<Agent, 'name'>;
+  fromName: string;
+  reason?: string;
+  userName: string;
+}): string {
+  const reason = input.reason ? ` Reason given: ${input.reason}` : '';
+
+  return `${input.fromName} transferred this conversation with ${input.userName} to you, ${input.agent.name}.${reason}
+The earlier assistant messages were written by ${input.fromName}, not by you. Introduce yourself briefly when you first answer, and don't ask ${input.userName} to repeat what they already said.`;
+}
@@ -0,0 +1,16 @@
+import { Citation } from '../types';
+
+/**
+ * Prompt template for the knowledge retrieved for a user turn.
+ * Added after the system prompt by the context window (see context_window.ts).
+ */
+export function getKnowledgePrompt(passages: Citation[]): string {
+  const notes = passages
+    .map((passage, index) => `[${index + 1}] (${passage.source}) ${passage.text}`)
+    .join('\n');
+
+  return `Notes from your knowledge that may help with the user's last message:
+${notes}
+
+Use them only if they are relevant. Answer in your own words, as part of the conversation, and don't read the notes out or mention them unless asked where the information comes from.`;
+}
@@ -0,0 +1,58 @@
+import { Agent } from '../types';
+
+/**
+ * Prompt templates of multi-agent sessions (see turn_taking.ts).
+ */
+
+export const SPEAKER_SELECTION_SYSTEM_PROMPT =
+  'You direct a conversation between a user and several characters. You decide who speaks next. Output only a name.';
+
+/**
+ * Used by LLMSpeakerSelector to pick the agent that speaks next
+ */
+export function getSpeakerSelectionPrompt(input: {
+  agents: Pick<Agent, 'name' | 'description'>[];
+  transcript: string;
+  userName: string;
+  canPass: boolean;
+}): string {
+  const characters = input.agents
+    .map(
+      (agent) =>
+        `- ${agent.name}${agent.description ? `: ${agent.description}` : ''}`,
+    )
+    .join('\n');
+  const pass = input.canPass
+    ? `, or NONE if nobody needs to add anything and ${input.userName} should speak next`
+    : '';
+
+  return `Characters:
+${characters}
+
+Conversation so far:
+${input.transcript}
+
+Who should speak next? Pick the character who was addressed, or the one whose role fits the last message best. Answer with the character's name${pass}.`;
+}
+
+/**
+ * Added after the system prompt of the agent answering (see
+ * context_window.ts), so it knows who else takes part
+ */
+export function getMultiAgentPrompt(input: {
+  agent: Pick<Agent, 'name'>;
+  others: Pick<Agent, 'name' | 'description'>[];
+  userName: string;
+}): string {
+  const others = input.others
+    .map(
+      (agent) =>
+        `- ${agent.name}${agent.description ? `: ${agent.description}` : ''}`,
+    )
+    .join('\n');
+
+  return `You are ${input.agent.name}, in a conversation with ${input.userName} and:
+${others}
+
+Their messages start with their name, e.g. "${input.userName}: ...". Answer only as ${input.agent.name}, without your name in front, and don't speak for the others.`;
+}
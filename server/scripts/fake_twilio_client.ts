@@ -0,0 +1,273 @@
+// Plays the part of Twilio against the `/twilio` media stream route, so
+// telephony can be tried without a phone number.
+//
+// Usage: npm run fake-twilio -- [caller.wav] [agent.wav]
+//
+// Loads a session, opens a media stream for it and streams the caller audio
+// (16-bit PCM mono WAV, any sample rate) as μ-law in real time, followed by
+// silence so the agent gets to answer. Agent audio is "played" in real time:
+// marks are echoed once the audio before them has played, and `clear`
+// discards what's pending, as Twilio does. The agent audio is written to
+// agent.wav when given.
+//
+// SERVER_URL (default http://localhost:4000) and API_KEY (when
+// authentication is enabled) are read from the environment.
+// CALL_SECONDS (default 20) is how long the call lasts.
+
+import 'dotenv/config';
+
+import { readFileSync, writeFileSync } from 'fs';
+import { v4 } from 'uuid';
+import WebSocket from 'ws';
+
+import { WS_APP_PORT } from '../../constants';
+import { AudioOutputEncoder, wavHeader } from '../components/audio_codecs';
+import {
+  TWILIO_AUDIO_FORMAT,
+  TwilioInboundEvent,
+  TwilioOutboundEvent,
+} from '../components/twilio_media_stream';
+
+const SERVER_URL = process.env.SERVER_URL || `http://localhost:${WS_APP_PORT}`;
+const CALL_SECONDS = Number(process.env.CALL_SECONDS) || 20;
+
+// Twilio sends 20 ms of audio per media message
+const FRAME_MS = 20;
+const FRAME_BYTES = (TWILIO_AUDIO_FORMAT.sampleRate * FRAME_MS) / 1000;
+const MULAW_SILENCE = 0xff;
+
+async function main() {
+  const [inputPath, outputPath] = process.argv.slice(2);
+  const callerAudio = inputPath ? readCallerAudio(inputPath) : new Uint8Array();
+
+  const sessionId = `fake-call-${v4()}`;
+  const sessionToken = await loadSession(sessionId);
+
+  const ws = new WebSocket(`${SERVER_URL.replace(/^http/, 'ws')}/twilio`);
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+
+  const streamSid = `MZ${v4().replace(/-/g, '')}`;
+  const callSid = `CA${v4().replace(/-/g, '')}`;
+  let sequenceNumber = 0;
+  const send = (event: { event: string; [key: string]: unknown }) =>
+    ws.send(
+      JSON.stringify({
+        ...event,
+        sequenceNumber: String(++sequenceNumber),
+        streamSid: event.event === 'connected' ? undefined : streamSid,
+      }),
+    );
+
+  const playback = new FakePlayback((name) =>
+    send({ event: 'mark', mark: { name } }),
+  );
+  ws.on('message', (data) => playback.handle(JSON.parse(data.toString())));
+  ws.on('close', (code, reason) =>
+    console.log(`Stream closed: code=${code}, reason=${reason.toString()}`),
+  );
+
+  send({ event: 'connected', protocol: 'Call', version: '1.0.0' });
+  send({
+    event: 'start',
+    start: {
+      accountSid: 'ACfake',
+      callSid,
+      streamSid,
+      tracks: ['inbound'],
+      customParameters: { sessionId, token: sessionToken },
+      mediaFormat: {
+        encoding: 'audio/x-mulaw',
+        sampleRate: TWILIO_AUDIO_FORMAT.sampleRate,
+        channels: 1,
+      },
+    },
+  });
+  console.log(`Call ${callSid} started for session ${sessionId}`);
+
+  // Caller audio, then silence until the call ends
+  const totalFrames = Math.max(
+    Math.ceil(callerAudio.length / FRAME_BYTES),
+    (CALL_SECONDS * 1000) / FRAME_MS,
+  );
+  const startedAt = Date.now();
+  for (let chunk = 0; chunk < totalFrames; chunk++) {
+    if (ws.readyState !== WebSocket.OPEN) {
+      break;
+    }
+
+    const frame = new Uint8Array(FRAME_BYTES).fill(MULAW_SILENCE);
+    frame.set(
+      callerAudio.subarray(chunk * FRAME_BYTES, (chunk + 1) * FRAME_BYTES),
+    );
+    send({
+      event: 'media',
+      media: {
+        track: 'inbound',
+        chunk: String(chunk + 1),
+        timestamp: String(chunk * FRAME_MS),
+        payload: Buffer.from(frame).toString('base64'),
+      },
+    });
+
+    // Keep real time pace
+    await sleep(startedAt + (chunk + 1) * FRAME_MS - Date.now());
+  }
+
+  send({ event: 'stop', stop: { accountSid: 'ACfake', callSid } });
+  await new Promise((resolve) => {
+    if (ws.readyState === WebSocket.CLOSED) {
+      resolve(undefined);
+    }
+    ws.once('close', resolve);
+    setTimeout(resolve, 5000);
+  });
+  ws.terminate();
+
+  console.log(
+    `Received ${(playback.audio.length / TWILIO_AUDIO_FORMAT.sampleRate).toFixed(1)}s of agent audio, ` +
+      `${playback.marksPlayed} mark(s) played, ${playback.clears} clear(s)`,
+  );
+  if (outputPath) {
+    writeFileSync(
+      outputPath,
+      Buffer.concat([
+        wavHeader(TWILIO_AUDIO_FORMAT, playback.audio.length),
+        playback.audio,
+      ]),
+    );
+    console.log(`Agent audio written to ${outputPath}`);
+  }
+}
+
+/**
+ * Plays agent audio on a simulated clock, like Twilio's buffer
+ */
+class FakePlayback {
+  audio = Buffer.alloc(0);
+  marksPlayed = 0;
+  clears = 0;
+  private playedUntil = 0;
+  private pendingMarks = new Map<NodeJS.Timeout, string>();
+
+  constructor(private echoMark: (name: string) => void) {}
+
+  handle(message: TwilioOutboundEvent | TwilioInboundEvent) {
+    switch (message.event) {
+      case 'media': {
+        const payload = Buffer.from(message.media.payload, 'base64');
+        this.audio = Buffer.concat([this.audio, payload]);
+        this.playedUntil =
+          Math.max(this.playedUntil, Date.now()) +
+          (payload.length * 1000) / TWILIO_AUDIO_FORMAT.sampleRate;
+        break;
+      }
+
+      case 'mark': {
+        const { name } = message.mark;
+        const timer = setTimeout(
+          () => {
+            this.pendingMarks.delete(timer);
+            this.marksPlayed++;
+            this.echoMark(name);
+          },
+          Math.max(0, this.playedUntil - Date.now()),
+        );
+        this.pendingMarks.set(timer, name);
+        break;
+      }
+
+      case 'clear':
+        console.log(
+          `Clear: dropping ${Math.max(0, this.playedUntil - Date.now())}ms of agent audio`,
+        );
+        this.clears++;
+        this.playedUntil = 0;
+        // Twilio sends back the pending marks right away
+        this.pendingMarks.forEach((name, timer) => {
+          clearTimeout(timer);
+          this.echoMark(name);
+        });
+        this.pendingMarks.clear();
+        break;
+    }
+  }
+}
+
+async function loadSession(sessionId: string): Promise<string | undefined> {
+  const response = await fetch(`${SERVER_URL}/load?sessionId=${sessionId}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.API_KEY && { 'X-API-Key': process.env.API_KEY }),
+    },
+    body: JSON.stringify({
+      userName: 'Caller',
+      agent: {
+        name: 'Receptionist',
+        description: 'A friendly receptionist answering the phone',
+        motivation: 'Help callers with their questions',
+        systemPrompt:
+          'You are a friendly receptionist answering a phone call from {userName}. Keep answers short.',
+      },
+      inputAudioFormat: TWILIO_AUDIO_FORMAT,
+      outputAudioFormat: TWILIO_AUDIO_FORMAT,
+    }),
+  });
+
+  const data = (await response.json()) as {
+    error?: string;
+    sessionToken?: string;
+  };
+  if (!response.ok) {
+    throw new Error(`Failed to load session: ${data.error ?? response.status}`);
+  }
+  return data.sessionToken;
+}
+
+/**
+ * Read a 16-bit PCM mono WAV file as μ-law at 8 kHz
+ */
+function readCallerAudio(path: string): Uint8Array {
+  const file = readFileSync(path);
+  let sampleRate = 0;
+  let position = 12;
+
+  while (position + 8 <= file.length) {
+    const id = file.toString('ascii', position, position + 4);
+    const size = file.readUInt32LE(position + 4);
+    const body = position + 8;
+
+    if (id === 'fmt ') {
+      const tag = file.readUInt16LE(body);
+      const channels = file.readUInt16LE(body + 2);
+      const bits = file.readUInt16LE(body + 14);
+      if (tag !== 1 || channels !== 1 || bits !== 16) {
+        throw new Error(`${path} must be a 16-bit PCM mono WAV file`);
+      }
+      sampleRate = file.readUInt32LE(body + 4);
+    } else if (id === 'data' && sampleRate) {
+      const samples = new Float32Array(Math.floor(size / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = file.readInt16LE(body + i * 2) / 0x8000;
+      }
+
+      const encoder = new AudioOutputEncoder(TWILIO_AUDIO_FORMAT, sampleRate);
+      return encoder.encode(new Uint8Array(samples.buffer));
+    }
+
+    position = body + size + (size % 2);
+  }
+
+  throw new Error(`${path} has no audio`);
+}
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
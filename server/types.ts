@@ -1,14 +1,48 @@
-import { AudioChunkInterface } from '@inworld/runtime/common';
+import {
+  AudioChunkInterface,
+  ToolCallInterface,
+} from '@inworld/runtime/common';
+import { GraphOutputStream } from '@inworld/runtime/graph';
 
+import {
+  AudioFormat,
+  Citation,
+  ContextWindowConfig,
+  HandoffTrigger,
+  LLMParams,
+  OutputAudioFormat,
+  SessionConfigUpdate,
+  TTSParams,
+  TurnTakingConfig,
+  TurnTakingPolicy,
+} from '../protocol';
+import { AudioInputDecoder } from './components/audio_codecs';
 import { AudioStreamManager } from './components/audio_stream_manager';
+import { MessageHandler } from './components/message_handler';
+import { AnswerPlayback } from './components/playback';
+import { SessionOutbox } from './components/session_outbox';
+import { SessionRecorder } from './components/session_recorder';
+import { KnowledgeIndex } from './components/knowledge/knowledge_base';
+import { SessionStore } from './components/session_stores/session_store';
+import { STTProvider } from './components/stt_providers/stt_provider';
+import { ConversationSummarizer } from './components/summarizers/conversation_summarizer';
+import { SpeakerSelector } from './components/turn_taking/speaker_selector';
 
-export enum EVENT_TYPE {
-  TEXT = 'TEXT',
-  AUDIO = 'AUDIO',
-  AUDIO_SESSION_END = 'audioSessionEnd',
-  NEW_INTERACTION = 'newInteraction',
-  CANCEL_RESPONSE = 'CANCEL_RESPONSE',
-  USER_SPEECH_COMPLETE = 'USER_SPEECH_COMPLETE',
+// Shared with the client, see protocol.ts
+export type {
+  Citation,
+  ContextWindowConfig,
+  HandoffTrigger,
+  LLMParams,
+  SessionConfigUpdate,
+  TTSParams,
+  TurnTakingConfig,
+  TurnTakingPolicy,
+};
+
+export enum PARTICIPANT_ROLE {
+  CONTROLLER = 'controller', // Drives the conversation (text, audio, config updates)
+  OBSERVER = 'observer', // Read-only, receives the full event stream
 }
 
 export enum AUDIO_SESSION_STATE {
@@ -21,6 +55,19 @@ export interface ChatMessage {
   id: string;
   role: string;
   content: string;
+  createdAt?: number; // When the message was added to the conversation (epoch ms)
+  toolCalls?: ToolCallInterface[]; // Tools the assistant called, see ToolCallingNode
+  toolCallId?: string; // The call a 'tool' message holds the result of
+  agentId?: string; // Agent that wrote an assistant or tool message
+  agentName?: string; // Its name at the time, for transcripts
+  interrupted?: boolean; // An answer cut down to what the user heard, see playback.ts
+}
+
+// When a turn was spoken, used to time transcript captions
+export interface TurnTiming {
+  userSpeechEndedAt?: number; // End of the user's speech (VAD or STT turn detection)
+  agentAudioStartedAt?: number; // First agent audio chunk sent to the client
+  agentAudioEndedAt?: number; // End of the agent audio sent (start + its duration)
 }
 
 export interface Agent {
@@ -29,12 +76,79 @@ export interface Agent {
   description: string;
   motivation: string;
   knowledge?: string[];
+  systemPrompt?: string;
+  contextWindow?: ContextWindowConfig; // Overrides of the context window thresholds
+  tools?: string[]; // Names of the registered tools the agent can call
+  documents?: KnowledgeDocument[]; // Uploaded knowledge, searched along with `knowledge`
+  profileId?: string; // Agent profile the session was loaded from, see agent_registry.ts
+  profileVersion?: number;
+  voiceId?: string; // Voice of the agent in multi-agent sessions and handoffs, the session's voiceId otherwise
+}
+
+// A persona stored on the server, loaded with /load?agentId
+export interface AgentProfile {
+  name: string;
+  description?: string;
+  motivation?: string;
+  systemPrompt?: string; // A template, see prompt_template.ts
+  greeting?: string; // First message of the agent, a template too
+  knowledge?: string[];
+  tools?: string[];
+  contextWindow?: ContextWindowConfig;
+  voiceId?: string;
+  tts?: TTSParams;
+  llm?: LLMParams;
+}
+
+export type KnowledgeFormat = 'text' | 'markdown';
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  format: KnowledgeFormat;
+  content: string;
+  addedAt: number;
+}
+
+// A passage of the agent's knowledge, see knowledge_base.ts
+export interface KnowledgePassage {
+  id: string; // <documentId or "knowledge">#<index>
+  source: string; // Document name, or "knowledge" for agent.knowledge snippets
+  text: string;
+}
+
+// Running summary of the turns that no longer fit the context window
+export interface ConversationSummary {
+  content: string;
+  throughInteractionId: string; // Last turn included in the summary
+  updatedAt: number;
+}
+
+// The server transfers the session when the user's message has a keyword
+export interface HandoffRule {
+  agentId: string; // Profile id of the agent to transfer to
+  keywords: string[]; // Matched as whole words, in any case
+}
+
+// Agents a session can be handed off to, see handoff.ts
+export interface HandoffState {
+  agents: Agent[]; // Identified by profileId, the current agent among them if it's one
+  rules: HandoffRule[];
+  transferTool: boolean; // Whether agents get the transfer_to_agent tool
+  last?: {
+    fromAgentId: string;
+    fromName: string;
+    trigger: HandoffTrigger;
+    reason?: string;
+    interactionId: string;
+  };
 }
 
 export interface TextInput {
   sessionId: string;
   text: string;
   interactionId: string;
+  speakerId?: string; // An agent replying to another agent, without user text, see turn_taking.ts
 }
 
 export interface AudioInput {
@@ -51,19 +165,43 @@ export interface AudioStreamInput {
 
 export interface State {
   interactionId: string;
-  agent: Agent;
+  agent: Agent; // In multi-agent sessions, the agent answering the current turn
+  agents?: Agent[]; // Agents sharing the conversation in multi-agent sessions, see turn_taking.ts
+  turnTaking?: TurnTakingConfig; // Who answers in multi-agent sessions
+  handoff?: HandoffState; // Agents the session can be transferred to
   userName: string;
   messages: ChatMessage[];
+  variables?: { [name: string]: string }; // Custom system prompt variables, see prompt_template.ts
+  timezone?: string; // IANA time zone of the system prompt's {date} and {time}, the server's by default
   voiceId?: string;
+  ttsParams?: TTSParams; // Overrides of the TTS synthesis parameters
+  llmParams?: LLMParams; // Overrides of the LLM model and generation parameters
+  pendingConfigUpdate?: SessionConfigUpdate; // Staged by config_update, applied at the next interaction
+  turnTimings?: { [interactionId: string]: TurnTiming }; // Speech and audio timing of the turns, see transcript.ts
+  summary?: ConversationSummary; // Replaces the older turns in the LLM prompt, see context_window.ts
+  knowledgePassages?: Citation[]; // Retrieved for the current turn by KnowledgeRetrievalNode, not stored
 }
 
 export interface Connection {
   state: State;
-  ws: any;
+  outbox: SessionOutbox; // Sequenced delivery to the client sockets, survives reconnects
+  messageHandler?: MessageHandler; // Shared by all sockets so input goes through one queue
+  createdAt?: number; // When the session was loaded, kept in the session store
   unloaded?: true;
+  unloadedAt?: number; // When the session was unloaded or expired, stored as its end
+  disconnectedAt?: number; // When the controlling socket closed, cleared on reconnect
+  lastActivityAt?: number; // Last client activity, used to expire idle sessions
   audioStreamManager?: AudioStreamManager;
   currentAudioGraphExecution?: Promise<void>;
+  currentAudioOutputStream?: GraphOutputStream; // Aborted on teardown to release the execution and its datastore
   sttService?: string; // STT service selection for this session
+  inputAudioFormat?: AudioFormat; // Declared at /load, defaults to Float32 at INPUT_SAMPLE_RATE
+  audioDecoder?: AudioInputDecoder; // Decodes and resamples input audio, stateful for Opus
+  outputAudioFormat?: OutputAudioFormat; // Requested at /load, defaults to Float32 at TTS_SAMPLE_RATE
+  recorder?: SessionRecorder; // Records the session's audio when RECORDING_ENABLED is set
+  summaryUpdate?: Promise<void>; // Conversation summary being refreshed, one at a time
+  knowledgeIndex?: KnowledgeIndex; // The agent's knowledge, indexed on first use and rebuilt when it changes
+  playback?: { [interactionId: string]: AnswerPlayback }; // Utterances of the last answers and whether the client played them
 }
 
 export type ConnectionsMap = {
@@ -85,11 +223,16 @@ export interface CreateGraphPropsInterface {
   graphVisualizationEnabled: boolean;
   disableAutoInterruption: boolean; // Flag to disable graph-based auto-interruptions (default: false, meaning auto-interruptions are enabled)
   connections: ConnectionsMap;
+  sessionStore: SessionStore; // Persistent session state, written by the state-mutating nodes
   withAudioInput?: boolean;
   ttsModelId: string;
+  textGenerationConfig?: { [key: string]: any }; // LLM generation config (default: TEXT_CONFIG)
+  variantId?: string; // Distinguishes node ids of graphs built with non-default LLM settings
   vadClient?: any; // Shared VAD client for audio processing nodes (required for all audio input pipelines)
-  useAssemblyAI?: boolean; // Use Assembly.AI streaming STT (default: true)
-  assemblyAIApiKey?: string; // Assembly.AI API key (required)
+  sttProvider?: STTProvider; // Streaming STT provider of the graph (required for all audio input pipelines)
+  mockProviders?: { llmResponses: string[] }; // Replaces the remote LLM and TTS nodes to run offline (MOCK_PROVIDERS)
+  summarizer?: ConversationSummarizer; // Summarizes the turns that left the context window
+  speakerSelector?: SpeakerSelector; // Picks the agent that answers with the llm turn-taking policy
 }
 
 export interface InteractionInfo {